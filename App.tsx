@@ -10,6 +10,10 @@ import ArtDept from './pages/ArtDept';
 import TheStudio from './pages/TheStudio';
 import SoundStage from './pages/SoundStage';
 import Settings from './pages/Settings';
+import ImportReportModal from './components/shared/ImportReportModal';
+import MergeImportModal from './components/shared/MergeImportModal';
+import RecoveryNotice from './components/shared/RecoveryNotice';
+import TabConflictNotice from './components/shared/TabConflictNotice';
 import { Page } from './types';
 import { BrainCircuit } from 'lucide-react';
 
@@ -68,6 +72,10 @@ export default function App() {
   return (
     <MainLayout currentPage={currentPage} setCurrentPage={setCurrentPage}>
       {renderPage()}
+      <MergeImportModal />
+      <ImportReportModal />
+      <RecoveryNotice />
+      <TabConflictNotice />
     </MainLayout>
   );
 }
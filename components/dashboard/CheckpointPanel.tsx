@@ -0,0 +1,144 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useShowrunnerStore } from '../../store/showrunnerStore';
+import { CheckpointRestoreScope, DiffBucket, Project } from '../../types';
+import { diffProjects, isDiffEmpty } from '../../services/checkpointService';
+import { History, Save, RotateCcw, Trash2, GitCompare } from 'lucide-react';
+
+const CURRENT = 'current';
+
+const DiffSection: React.FC<{ title: string; bucket: DiffBucket }> = ({ title, bucket }) => {
+    if (bucket.added.length === 0 && bucket.removed.length === 0 && bucket.changed.length === 0) return null;
+    return (
+        <div>
+            <h4 className="text-xs font-bold uppercase text-muted mb-1">{title}</h4>
+            <ul className="text-xs space-y-0.5">
+                {bucket.added.map((label, i) => <li key={`a${i}`} className="text-green-400">+ {label}</li>)}
+                {bucket.removed.map((label, i) => <li key={`r${i}`} className="text-red-400">- {label}</li>)}
+                {bucket.changed.map((label, i) => <li key={`c${i}`} className="text-yellow-400">~ {label}</li>)}
+            </ul>
+        </div>
+    );
+};
+
+const CheckpointPanel: React.FC = () => {
+    const { project, checkpoints, loadCheckpoints, createCheckpoint, restoreCheckpoint, deleteCheckpoint } = useShowrunnerStore();
+    const [nameInput, setNameInput] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [fromId, setFromId] = useState<string>('');
+    const [toId, setToId] = useState<string>(CURRENT);
+
+    useEffect(() => {
+        loadCheckpoints();
+    }, [project?.metadata.id, loadCheckpoints]);
+
+    // Default the comparison base to the newest checkpoint
+    useEffect(() => {
+        if (!checkpoints.some(c => c.id === fromId)) setFromId(checkpoints[0]?.id || '');
+    }, [checkpoints, fromId]);
+
+    const resolveState = (id: string): Project | null => {
+        if (id === CURRENT) return project;
+        return checkpoints.find(c => c.id === id)?.project || null;
+    };
+
+    const diff = useMemo(() => {
+        const before = resolveState(fromId);
+        const after = resolveState(toId);
+        if (!before || !after || fromId === toId) return null;
+        return diffProjects(before, after);
+    }, [fromId, toId, checkpoints, project]);
+
+    if (!project) return null;
+
+    const handleCreate = async () => {
+        setIsSaving(true);
+        await createCheckpoint(nameInput);
+        setNameInput('');
+        setIsSaving(false);
+    };
+
+    const handleRestore = (id: string, name: string, scope: CheckpointRestoreScope) => {
+        const label = scope === 'all' ? 'the entire project' : `the ${scope}`;
+        if (confirm(`Restore ${label} from "${name}"?\n\nA checkpoint of the current state will be created first.`)) {
+            restoreCheckpoint(id, scope);
+        }
+    };
+
+    return (
+        <div className="bg-surface border border-subtle rounded-xl p-6">
+            <h2 className="text-xl font-bold text-primary mb-4 flex items-center gap-2"><History size={20} /> Checkpoints</h2>
+
+            <div className="flex gap-2 mb-4">
+                <input
+                    type="text"
+                    value={nameInput}
+                    onChange={(e) => setNameInput(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+                    placeholder="e.g. Before rewriting Act 2"
+                    className="flex-1 bg-panel border border-subtle rounded-md px-3 py-2 text-sm text-primary-text"
+                />
+                <button onClick={handleCreate} disabled={isSaving} className="flex items-center gap-2 px-4 py-2 text-xs font-bold text-neutral-900 bg-primary rounded-md hover:bg-slate-200 disabled:bg-neutral-600 disabled:text-neutral-400 disabled:cursor-wait">
+                    <Save size={14} /> Create Checkpoint
+                </button>
+            </div>
+
+            {checkpoints.length === 0 ? (
+                <p className="text-sm text-muted italic">No checkpoints yet. Create one before a risky AI pass.</p>
+            ) : (
+                <div className="space-y-2 max-h-72 overflow-y-auto pr-1">
+                    {checkpoints.map(checkpoint => (
+                        <div key={checkpoint.id} className="flex items-center gap-3 p-3 bg-panel border border-subtle rounded-lg">
+                            <div className="flex-1 min-w-0">
+                                <p className="text-sm font-bold text-primary truncate">{checkpoint.name}</p>
+                                <p className="text-[10px] text-muted">{new Date(checkpoint.createdAt).toLocaleString()}</p>
+                            </div>
+                            <button onClick={() => handleRestore(checkpoint.id, checkpoint.name, 'all')} className="flex items-center gap-1 px-2 py-1 text-xs font-semibold rounded-md bg-subtle text-primary-text hover:bg-neutral-600" title="Restore entire project">
+                                <RotateCcw size={12} /> Restore
+                            </button>
+                            {(['bible', 'script', 'studio'] as CheckpointRestoreScope[]).map(scope => (
+                                <button key={scope} onClick={() => handleRestore(checkpoint.id, checkpoint.name, scope)} className="px-2 py-1 text-[10px] uppercase font-semibold rounded-md text-muted hover:text-primary hover:bg-subtle" title={`Restore only the ${scope}`}>
+                                    {scope}
+                                </button>
+                            ))}
+                            <button onClick={() => confirm(`Delete checkpoint "${checkpoint.name}"?`) && deleteCheckpoint(checkpoint.id)} className="p-1.5 text-muted hover:text-red-400 rounded-md hover:bg-subtle" title="Delete checkpoint">
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {checkpoints.length > 0 && (
+                <div className="mt-6 border-t border-subtle pt-4">
+                    <h3 className="text-sm font-bold text-primary mb-3 flex items-center gap-2"><GitCompare size={16} /> Compare</h3>
+                    <div className="flex items-center gap-2 mb-3 text-xs">
+                        <select value={fromId} onChange={(e) => setFromId(e.target.value)} className="flex-1 bg-panel border border-subtle rounded-md p-2 text-primary-text">
+                            {checkpoints.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                        </select>
+                        <span className="text-muted">→</span>
+                        <select value={toId} onChange={(e) => setToId(e.target.value)} className="flex-1 bg-panel border border-subtle rounded-md p-2 text-primary-text">
+                            <option value={CURRENT}>Current Project</option>
+                            {checkpoints.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                        </select>
+                    </div>
+                    {!diff ? (
+                        <p className="text-xs text-muted italic">Select two different states to compare.</p>
+                    ) : isDiffEmpty(diff) ? (
+                        <p className="text-xs text-muted italic">No differences.</p>
+                    ) : (
+                        <div className="space-y-3 bg-panel border border-subtle rounded-lg p-3 max-h-72 overflow-y-auto">
+                            {diff.synopsisChanged && <p className="text-xs text-yellow-400">~ Synopsis changed</p>}
+                            <DiffSection title="Characters" bucket={diff.characters} />
+                            <DiffSection title="Locations" bucket={diff.locations} />
+                            <DiffSection title="Props" bucket={diff.props} />
+                            <DiffSection title="Scenes" bucket={diff.scenes} />
+                            <DiffSection title="Shots" bucket={diff.shots} />
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default CheckpointPanel;
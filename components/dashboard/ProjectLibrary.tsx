@@ -0,0 +1,87 @@
+import React, { useState, useEffect } from 'react';
+import { useShowrunnerStore } from '../../store/showrunnerStore';
+import { ProjectSummary } from '../../types';
+import { Copy, Edit3, FolderOpen, Trash2, Library, Check, X } from 'lucide-react';
+
+const formatDate = (timestamp?: number) => timestamp ? new Date(timestamp).toLocaleString() : 'Never';
+
+const ProjectRow: React.FC<{ entry: ProjectSummary; isActive: boolean }> = ({ entry, isActive }) => {
+    const { openProject, duplicateProject, renameProject, deleteProject } = useShowrunnerStore();
+    const [isRenaming, setIsRenaming] = useState(false);
+    const [nameInput, setNameInput] = useState(entry.name);
+
+    useEffect(() => setNameInput(entry.name), [entry.name]);
+
+    const handleRename = () => {
+        if (nameInput.trim() && nameInput.trim() !== entry.name) {
+            renameProject(entry.id, nameInput.trim());
+        }
+        setIsRenaming(false);
+    };
+
+    const handleDelete = () => {
+        if (confirm(`Delete "${entry.name}" from your library? This cannot be undone.`)) {
+            deleteProject(entry.id);
+        }
+    };
+
+    return (
+        <div className={`flex items-center gap-4 p-4 rounded-lg border transition-colors ${isActive ? 'border-accent bg-accent/5' : 'border-subtle bg-panel hover:border-neutral-600'}`}>
+            <div className="flex-1 min-w-0">
+                {isRenaming ? (
+                    <div className="flex items-center gap-2">
+                        <input
+                            autoFocus
+                            type="text"
+                            value={nameInput}
+                            onChange={(e) => setNameInput(e.target.value)}
+                            onKeyDown={(e) => { if (e.key === 'Enter') handleRename(); if (e.key === 'Escape') setIsRenaming(false); }}
+                            className="flex-1 bg-surface border border-subtle rounded-md px-2 py-1 text-sm font-bold text-primary"
+                        />
+                        <button onClick={handleRename} className="text-green-400 hover:text-green-300"><Check size={16} /></button>
+                        <button onClick={() => setIsRenaming(false)} className="text-muted hover:text-primary"><X size={16} /></button>
+                    </div>
+                ) : (
+                    <h3 className="font-bold text-primary truncate">{entry.name}{isActive && <span className="ml-2 text-[10px] uppercase text-accent">Open</span>}</h3>
+                )}
+                <p className="text-xs text-muted truncate mt-0.5">{entry.logline || 'No logline'}</p>
+                <p className="text-[10px] text-neutral-500 mt-1">
+                    {entry.formatType === 'EPISODIC' ? 'Series' : 'Single Story'} · Last opened {formatDate(entry.lastOpenedAt)} · Updated {formatDate(entry.updatedAt)}
+                </p>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+                <button onClick={() => openProject(entry.id)} disabled={isActive} className="flex items-center gap-1 px-3 py-1.5 text-xs font-bold text-neutral-900 bg-primary rounded-md hover:bg-slate-200 disabled:bg-neutral-600 disabled:text-neutral-400 disabled:cursor-not-allowed" title="Open">
+                    <FolderOpen size={12} /> Open
+                </button>
+                <button onClick={() => setIsRenaming(true)} className="p-2 text-muted hover:text-primary rounded-md hover:bg-subtle" title="Rename"><Edit3 size={14} /></button>
+                <button onClick={() => duplicateProject(entry.id)} className="p-2 text-muted hover:text-primary rounded-md hover:bg-subtle" title="Duplicate"><Copy size={14} /></button>
+                <button onClick={handleDelete} className="p-2 text-muted hover:text-red-400 rounded-md hover:bg-subtle" title="Delete"><Trash2 size={14} /></button>
+            </div>
+        </div>
+    );
+};
+
+const ProjectLibrary: React.FC = () => {
+    const { project, projectLibrary, refreshProjectLibrary } = useShowrunnerStore();
+
+    useEffect(() => {
+        refreshProjectLibrary();
+    }, [refreshProjectLibrary]);
+
+    return (
+        <div className="bg-surface border border-subtle rounded-xl p-6">
+            <h2 className="text-xl font-bold text-primary mb-4 flex items-center gap-2"><Library size={20} /> Project Library</h2>
+            {projectLibrary.length === 0 ? (
+                <p className="text-sm text-muted italic">No saved projects yet.</p>
+            ) : (
+                <div className="space-y-2">
+                    {projectLibrary.map(entry => (
+                        <ProjectRow key={entry.id} entry={entry} isActive={project?.metadata.id === entry.id} />
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ProjectLibrary;
@@ -0,0 +1,121 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useShowrunnerStore } from '../../store/showrunnerStore';
+import { ProjectBudget, UsageRecord } from '../../types';
+import { listUsageRecords } from '../../services/storageService';
+import { summarizeUsage, onUsageRecorded, UsageBucket } from '../../services/usageLedgerService';
+import { Coins, AlertTriangle } from 'lucide-react';
+
+const formatCost = (cost: number) => `$${cost < 10 ? cost.toFixed(3) : cost.toFixed(2)}`;
+
+const BucketTable: React.FC<{ title: string; buckets: UsageBucket[] }> = ({ title, buckets }) => (
+    <div>
+        <h3 className="text-xs font-bold uppercase text-muted mb-2">{title}</h3>
+        {buckets.length === 0 ? <p className="text-xs text-muted italic">Nothing yet.</p> : (
+            <table className="w-full text-xs">
+                <tbody>
+                    {buckets.map(bucket => (
+                        <tr key={bucket.key} className="border-b border-subtle/50 last:border-0">
+                            <td className="py-1.5 pr-2 text-primary-text truncate max-w-[12rem]">{bucket.label}</td>
+                            <td className="py-1.5 px-2 text-muted text-right whitespace-nowrap">{bucket.calls} calls</td>
+                            <td className="py-1.5 px-2 text-muted text-right whitespace-nowrap">{bucket.tokens.toLocaleString()} tok{bucket.images > 0 ? ` · ${bucket.images} img` : ''}</td>
+                            <td className="py-1.5 pl-2 text-primary font-mono text-right">{formatCost(bucket.cost)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        )}
+    </div>
+);
+
+/** Generation spend for the open project, broken down by department and episode, with the budget cap. */
+const UsagePanel: React.FC = () => {
+    const { project, updateProject } = useShowrunnerStore();
+    const [records, setRecords] = useState<UsageRecord[]>([]);
+    const [limitInput, setLimitInput] = useState('');
+
+    const projectId = project?.metadata.id;
+
+    useEffect(() => {
+        if (!projectId) return;
+        listUsageRecords(projectId).then(setRecords);
+        return onUsageRecorded(record => {
+            if (record.projectId === projectId) setRecords(prev => [...prev, record]);
+        });
+    }, [projectId]);
+
+    useEffect(() => {
+        setLimitInput(project?.budget ? String(project.budget.limit) : '');
+    }, [project?.budget?.limit]);
+
+    const summary = useMemo(() => project ? summarizeUsage(records, project) : null, [records, project]);
+
+    if (!project || !summary) return null;
+
+    const budget = project.budget;
+    const overBudget = !!budget && summary.total.cost >= budget.limit;
+    const budgetShare = budget ? Math.min(100, summary.total.cost / budget.limit * 100) : 0;
+
+    const saveBudget = (changes: Partial<ProjectBudget>) => {
+        const limit = changes.limit ?? budget?.limit ?? 0;
+        if (!(limit > 0)) {
+            updateProject({ budget: undefined });
+            return;
+        }
+        updateProject({ budget: { limit, mode: changes.mode || budget?.mode || 'warn' } });
+    };
+
+    return (
+        <div className="bg-surface border border-subtle rounded-xl p-6">
+            <div className="flex justify-between items-baseline mb-4">
+                <h2 className="text-xl font-bold text-primary flex items-center gap-2"><Coins size={20} /> Generation Spend</h2>
+                <span className="text-2xl font-black text-primary font-mono">{formatCost(summary.total.cost)}</span>
+            </div>
+            <p className="text-xs text-muted mb-4">
+                {summary.total.calls} generations, {summary.total.tokens.toLocaleString()} tokens, {summary.total.images} images.
+                Costs are estimates from each model's configured pricing; models without pricing count as free.
+            </p>
+
+            <div className="bg-panel border border-subtle rounded-lg p-3 mb-6">
+                <div className="flex flex-wrap items-center gap-3 text-xs">
+                    <label className="text-muted font-bold uppercase">Budget</label>
+                    <div className="flex items-center gap-1">
+                        <span className="text-muted">$</span>
+                        <input
+                            type="number"
+                            min="0"
+                            step="1"
+                            value={limitInput}
+                            onChange={(e) => setLimitInput(e.target.value)}
+                            onBlur={() => saveBudget({ limit: parseFloat(limitInput) || 0 })}
+                            onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                            placeholder="No limit"
+                            className="w-24 bg-surface border border-subtle rounded-md px-2 py-1 text-primary-text"
+                        />
+                    </div>
+                    <select
+                        value={budget?.mode || 'warn'}
+                        onChange={(e) => saveBudget({ mode: e.target.value as ProjectBudget['mode'] })}
+                        disabled={!budget}
+                        className="bg-surface border border-subtle rounded-md px-2 py-1 text-primary-text disabled:opacity-50"
+                    >
+                        <option value="warn">Warn when exceeded</option>
+                        <option value="block">Block generation when exceeded</option>
+                    </select>
+                    {overBudget && <span className="flex items-center gap-1 text-red-400 font-bold"><AlertTriangle size={12} /> Over budget</span>}
+                </div>
+                {budget && (
+                    <div className="mt-3 h-1.5 bg-surface rounded-full overflow-hidden">
+                        <div className={`h-full ${overBudget ? 'bg-red-500' : 'bg-accent'}`} style={{ width: `${budgetShare}%` }} />
+                    </div>
+                )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <BucketTable title="By Department" buckets={summary.byDepartment} />
+                <BucketTable title={project.format.type === 'EPISODIC' ? 'By Episode' : 'By Act'} buckets={summary.byEpisode} />
+            </div>
+        </div>
+    );
+};
+
+export default UsagePanel;
@@ -4,6 +4,7 @@ import { Page } from '../../types';
 import Sidebar from './Sidebar';
 import { useShowrunnerStore } from '../../store/showrunnerStore';
 import { saveProject } from '../../services/storageService';
+import EncryptedExportButton from '../shared/EncryptedExportButton';
 import { Save, Loader2 } from 'lucide-react';
 
 interface MainLayoutProps {
@@ -16,14 +17,14 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children, currentPage, setCurre
   const project = useShowrunnerStore((state) => state.project);
   const [saveStatus, setSaveStatus] = useState<string | null>(null);
 
-  const handleSave = async () => {
+  const handleSave = async (passphrase?: string) => {
     if (project && !saveStatus) {
       setSaveStatus("Initializing...");
       // Add a slight delay to allow UI to update before main thread gets busy
       await new Promise(resolve => setTimeout(resolve, 50));
       
       try {
-        await saveProject(project, (status) => setSaveStatus(status));
+        await saveProject(project, (status) => setSaveStatus(status), passphrase);
       } catch (e) {
           console.error("Save failed", e);
       } finally {
@@ -40,24 +41,32 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children, currentPage, setCurre
           <div className="flex-1">
             {/* Breadcrumbs or other header content can go here */}
           </div>
-          <button 
-            onClick={handleSave}
-            disabled={!project || !!saveStatus}
-            className="flex items-center gap-2 px-4 py-2 text-sm font-semibold bg-slate-50 text-neutral-900 rounded-md hover:bg-slate-200 disabled:bg-neutral-600 disabled:text-neutral-400 disabled:cursor-not-allowed transition-colors min-w-[150px] justify-center"
-            title="Save Project"
-          >
-            {saveStatus ? (
-                <>
-                    <Loader2 className="w-4 h-4 animate-spin" />
-                    <span className="truncate max-w-[200px]">{saveStatus}</span>
-                </>
-            ) : (
-                <>
-                    <Save className="w-4 h-4" />
-                    <span>Save Project</span>
-                </>
-            )}
-          </button>
+          <div className="flex items-center gap-2">
+            <EncryptedExportButton
+              onExport={(passphrase) => handleSave(passphrase)}
+              disabled={!project || !!saveStatus}
+              size={16}
+              className="p-2 text-primary-text bg-panel rounded-md hover:bg-subtle disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            />
+            <button 
+              onClick={() => handleSave()}
+              disabled={!project || !!saveStatus}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-semibold bg-slate-50 text-neutral-900 rounded-md hover:bg-slate-200 disabled:bg-neutral-600 disabled:text-neutral-400 disabled:cursor-not-allowed transition-colors min-w-[150px] justify-center"
+              title="Save Project"
+            >
+              {saveStatus ? (
+                  <>
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                      <span className="truncate max-w-[200px]">{saveStatus}</span>
+                  </>
+              ) : (
+                  <>
+                      <Save className="w-4 h-4" />
+                      <span>Save Project</span>
+                  </>
+              )}
+            </button>
+          </div>
         </header>
         <div className="flex-1 overflow-y-auto p-8">
             {children}
@@ -0,0 +1,233 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { AIModelConfig } from '../../types';
+import { modelGateway } from '../../services/modelGateway';
+import { ConnectionTestResult, describeResponseShape } from '../../services/connectionTestService';
+import { TEMPLATE_VARIABLES, findUnfilledPlaceholders } from '../../services/requestTemplateService';
+import JsonViewer from '../shared/JsonViewer';
+import { FlaskConical, Plug, Loader2, AlertTriangle, Check, X } from 'lucide-react';
+
+// The inputs each family's generations map from, with harmless sample values
+const SAMPLE_INPUTS: Record<AIModelConfig['family'], Record<string, any>> = {
+    text: { prompt: 'Reply with one short sentence.' },
+    image: { prompt: 'A red apple on a wooden table, soft studio light', negative_prompt: 'text, watermark', seed: 42, aspect_ratio: '16:9', width: 1024, height: 576, reference_images: [] },
+    video: { prompt: 'A slow pan across a misty harbor at dawn', videoPrompt: {}, duration: 4, aspectRatio: '16:9', aspect_ratio: '16:9' },
+    audio: { prompt: 'Hello there.', text: 'Hello there.', voice: '', duration: 5, task: 'tts' },
+};
+
+const formatValue = (value: any) => {
+    if (value === undefined) return 'not found';
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    return text.length > 160 ? `${text.slice(0, 160)}…` : text;
+};
+
+const parseJson = (text: string): { value?: any; error?: string } => {
+    if (!text.trim()) return {};
+    try {
+        return { value: JSON.parse(text) };
+    } catch (e: any) {
+        return { error: e.message };
+    }
+};
+
+const Heading: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+    <h3 className="text-xs font-bold uppercase text-muted mb-2 mt-6 first:mt-0">{children}</h3>
+);
+
+/**
+ * Checks a custom model before it is saved: the exact request its mapping builds,
+ * what each outputMapping path finds in a sample response, and a live test call.
+ */
+const MappingTesterPanel: React.FC<{ config: AIModelConfig | null; configError?: string | null }> = ({ config, configError }) => {
+    // Hand-written JSON may have no family, or a misspelled one
+    const family: AIModelConfig['family'] = config && SAMPLE_INPUTS[config.family] ? config.family : 'text';
+    const [inputsJson, setInputsJson] = useState(JSON.stringify(SAMPLE_INPUTS[family], null, 2));
+    const [sampleResponse, setSampleResponse] = useState('');
+    const [sampleStatusResponse, setSampleStatusResponse] = useState('');
+    const [isTesting, setIsTesting] = useState(false);
+    const [testResult, setTestResult] = useState<ConnectionTestResult | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    useEffect(() => {
+        setInputsJson(JSON.stringify(SAMPLE_INPUTS[family], null, 2));
+    }, [family]);
+
+    // A stale live result would describe a different mapping
+    useEffect(() => setTestResult(null), [config]);
+
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    const inputs = parseJson(inputsJson);
+    const hasStatusEndpoint = !!config?.endpoints?.status;
+
+    const preview = useMemo(() => {
+        if (!config || inputs.error) return null;
+        try {
+            return { request: modelGateway.previewRequest(config, inputs.value || {}) };
+        } catch (e: any) {
+            return { error: e.message as string };
+        }
+    }, [config, inputsJson]);
+
+    const unfilled = preview?.request ? findUnfilledPlaceholders([preview.request.url, preview.request.payload]) : [];
+
+    const generateSample = parseJson(sampleResponse);
+    const statusSample = parseJson(sampleStatusResponse);
+    const finalSample = hasStatusEndpoint ? statusSample.value : generateSample.value;
+    const mapped = config && generateSample.value !== undefined
+        ? modelGateway.extractMappedFields(config, family, generateSample.value, finalSample)
+        : null;
+
+    const handleTest = async () => {
+        if (!config || inputs.error) return;
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setIsTesting(true);
+        setTestResult(null);
+        const result = await modelGateway.testConnection(config, inputs.value || {}, controller.signal);
+        abortRef.current = null;
+        setIsTesting(false);
+        setTestResult(result);
+
+        // Live responses become the samples, so mappings can be fixed against them
+        const { entry } = result;
+        if (entry.response !== undefined && typeof entry.response !== 'string') {
+            if (hasStatusEndpoint) {
+                setSampleResponse(JSON.stringify(entry.initialResponse, null, 2));
+                setSampleStatusResponse(JSON.stringify(entry.response, null, 2));
+            } else {
+                setSampleResponse(JSON.stringify(entry.response, null, 2));
+            }
+        }
+    };
+
+    return (
+        <div className="bg-surface border border-subtle rounded-xl p-6">
+            <h2 className="text-xl font-bold text-primary mb-2 flex items-center gap-2"><FlaskConical className="text-accent" size={20} /> Test Bench</h2>
+            <p className="text-xs text-muted mb-6">
+                Checks the model in the builder before you save it: the request its mapping produces, what each output path finds in a response, and a live call.
+            </p>
+
+            {!config ? (
+                <div className="text-center text-muted py-6 text-sm">
+                    {configError ? <span className="text-red-400">{configError}</span> : 'Fill in the builder to test a model.'}
+                </div>
+            ) : (
+                <>
+                    <Heading>Sample Inputs</Heading>
+                    <textarea
+                        value={inputsJson}
+                        onChange={(e) => setInputsJson(e.target.value)}
+                        rows={4}
+                        spellCheck={false}
+                        className="w-full bg-panel border border-subtle rounded-md p-2 text-xs font-mono text-primary-text"
+                    />
+                    <details className="mt-1 text-[10px] text-muted">
+                        <summary className="cursor-pointer">Each key fills the matching {'{{placeholder}}'} in the URL, headers and payload. Variables:</summary>
+                        <table className="mt-1 w-full">
+                            <tbody>
+                                {Object.entries(TEMPLATE_VARIABLES).map(([name, description]) => (
+                                    <tr key={name} className="align-top">
+                                        <td className="pr-2 py-0.5 font-mono text-primary-text whitespace-nowrap">{`{{${name}}}`}</td>
+                                        <td className="py-0.5">{description}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        <p className="mt-1">A value that is only a placeholder keeps its type, and is left out when the variable isn't set. Placeholders inside text are filled in place, e.g. "{'{{width}}x{{height}}'}".</p>
+                    </details>
+                    {inputs.error && <p className="text-xs text-red-400 mt-1">{inputs.error}</p>}
+
+                    <Heading>Request</Heading>
+                    {preview?.error && <p className="text-xs text-red-400">{preview.error}</p>}
+                    {preview?.request && (
+                        <>
+                            <div className="font-mono text-xs text-primary-text mb-2 break-all">
+                                <span className="font-bold text-accent mr-2">{preview.request.method}</span>{preview.request.url}
+                            </div>
+                            {!preview.request.hasKey && (
+                                <p className="text-xs text-yellow-400 mb-2 flex items-center gap-1"><AlertTriangle size={12} /> No key saved for "{config.provider}". {'{{key}}'} is empty until you add one under API Keys.</p>
+                            )}
+                            {unfilled.length > 0 && (
+                                <p className="text-xs text-yellow-400 mb-2 flex items-center gap-1"><AlertTriangle size={12} /> No input for {unfilled.map(n => `{{${n}}}`).join(', ')}; sent literally.</p>
+                            )}
+                            <JsonViewer data={preview.request.headers} />
+                            <div className="mt-2"><JsonViewer data={preview.request.payload ?? {}} /></div>
+                        </>
+                    )}
+
+                    <Heading>Sample Response</Heading>
+                    <textarea
+                        value={sampleResponse}
+                        onChange={(e) => setSampleResponse(e.target.value)}
+                        rows={6}
+                        spellCheck={false}
+                        placeholder={hasStatusEndpoint ? 'Paste the first response (with the task id), or run a test...' : 'Paste a response from the API docs, or run a test...'}
+                        className="w-full bg-panel border border-subtle rounded-md p-2 text-xs font-mono text-primary-text"
+                    />
+                    {generateSample.error && <p className="text-xs text-red-400 mt-1">{generateSample.error}</p>}
+                    {hasStatusEndpoint && (
+                        <>
+                            <textarea
+                                value={sampleStatusResponse}
+                                onChange={(e) => setSampleStatusResponse(e.target.value)}
+                                rows={6}
+                                spellCheck={false}
+                                placeholder="Paste the finished status response..."
+                                className="w-full mt-2 bg-panel border border-subtle rounded-md p-2 text-xs font-mono text-primary-text"
+                            />
+                            {statusSample.error && <p className="text-xs text-red-400 mt-1">{statusSample.error}</p>}
+                        </>
+                    )}
+
+                    {mapped && (
+                        <table className="w-full text-xs mt-3">
+                            <tbody>
+                                {Object.entries(mapped).map(([key, field]) => (
+                                    <tr key={key} className="border-b border-subtle/50 last:border-0 align-top">
+                                        <td className="py-1.5 pr-2 font-bold text-primary-text">
+                                            {field.value === undefined ? <X size={12} className="inline text-red-400 mr-1" /> : <Check size={12} className="inline text-green-400 mr-1" />}
+                                            {key}
+                                        </td>
+                                        <td className="py-1.5 px-2 font-mono text-muted">{field.path}</td>
+                                        <td className={`py-1.5 pl-2 font-mono break-all ${field.value === undefined ? 'text-red-400' : 'text-primary-text'}`}>
+                                            {formatValue(field.value)}
+                                            {field.value === undefined && <span className="block text-[10px] text-muted">Response has {describeResponseShape(key === 'id' ? generateSample.value : finalSample)}.</span>}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+
+                    <Heading>Live Test</Heading>
+                    <div className="flex gap-2">
+                        <button onClick={handleTest} disabled={isTesting || !!inputs.error || !preview?.request} className="flex items-center gap-2 px-3 py-1.5 text-xs font-bold text-neutral-900 bg-primary rounded-md hover:bg-slate-200 disabled:bg-neutral-600 disabled:text-neutral-400">
+                            {isTesting ? <Loader2 size={14} className="animate-spin" /> : <Plug size={14} />} Test Connection
+                        </button>
+                        {isTesting && (
+                            <button onClick={() => abortRef.current?.abort()} className="px-3 py-1.5 text-xs font-bold bg-panel border border-subtle rounded-md hover:bg-subtle">Cancel</button>
+                        )}
+                    </div>
+                    <p className="text-[10px] text-muted mt-1">Sends one real request with the sample inputs, without retries. Providers may bill it.</p>
+
+                    {testResult && (
+                        <div className={`mt-3 p-3 rounded-lg border text-xs ${testResult.ok ? 'bg-green-900/20 border-green-800/50' : 'bg-red-900/20 border-red-800/50'}`}>
+                            <p className={`font-bold mb-1 flex items-center gap-1 ${testResult.ok ? 'text-green-400' : 'text-red-400'}`}>
+                                {testResult.ok ? <Check size={14} /> : <AlertTriangle size={14} />} {testResult.ok ? 'Working' : 'Not working yet'}
+                            </p>
+                            <ul className="list-disc pl-5 space-y-1 text-primary-text">
+                                {testResult.diagnostics.map((hint, i) => <li key={i}>{hint}</li>)}
+                            </ul>
+                            {testResult.entry.error && (
+                                <pre className="mt-2 font-mono text-red-300 whitespace-pre-wrap break-all">{testResult.entry.error}</pre>
+                            )}
+                            <p className="mt-2 text-[10px] text-muted">The full exchange is in the Inspector tab.</p>
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+export default MappingTesterPanel;
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { useShowrunnerStore } from '../../store/showrunnerStore';
+import { MigrationResult } from '../../types';
+import { MIGRATIONS, LATEST_DATA_VERSION, runProjectMigrations } from '../../services/migrationService';
+import { Layers, Search, CheckCircle2 } from 'lucide-react';
+
+/** Lists the data migrations and previews what they would change in the open project. */
+const MigrationPanel: React.FC = () => {
+    const project = useShowrunnerStore(state => state.project);
+    const [preview, setPreview] = useState<MigrationResult | null>(null);
+    const [isRunning, setIsRunning] = useState(false);
+
+    const currentVersion = project?.dataVersion || 0;
+
+    const handleDryRun = async () => {
+        if (!project) return;
+        setIsRunning(true);
+        try {
+            // Re-run from v0 so already-applied migrations can be checked against the current data
+            setPreview(await runProjectMigrations({ ...project, dataVersion: 0 }, { dryRun: true }));
+        } catch (e: any) {
+            console.error("[Migration] Dry run failed", e);
+            alert(`Dry run failed: ${e.message}`);
+        } finally {
+            setIsRunning(false);
+        }
+    };
+
+    return (
+        <div className="bg-surface border border-subtle rounded-xl p-6">
+            <div className="flex justify-between items-center mb-4">
+                <h2 className="text-xl font-bold text-primary flex items-center gap-2"><Layers className="text-accent" size={20} /> Data Migrations</h2>
+                <button onClick={handleDryRun} disabled={!project || isRunning} className="flex items-center gap-2 px-3 py-1.5 text-xs font-bold text-neutral-900 bg-primary rounded-md hover:bg-slate-200 disabled:bg-neutral-600 disabled:text-neutral-400 disabled:cursor-not-allowed">
+                    <Search size={14} /> {isRunning ? 'Checking...' : 'Dry Run'}
+                </button>
+            </div>
+            <p className="text-xs text-muted mb-4">
+                {project
+                    ? <>"{project.metadata.name}" is at data version <span className="text-primary font-bold">v{currentVersion}</span> (latest v{LATEST_DATA_VERSION}). Migrations run automatically when a project is opened or imported.</>
+                    : <>Open a project to preview migrations against it. Latest data version is v{LATEST_DATA_VERSION}.</>}
+            </p>
+
+            <ul className="space-y-2">
+                {MIGRATIONS.map(migration => {
+                    const step = preview?.steps.find(s => s.version === migration.version);
+                    return (
+                        <li key={migration.version} className="bg-panel border border-subtle rounded-lg p-3">
+                            <div className="flex items-center gap-3 text-sm">
+                                <span className="font-mono text-xs text-muted">v{migration.version}</span>
+                                <span className="flex-1 text-primary-text">{migration.description}</span>
+                                {migration.version <= currentVersion && <CheckCircle2 size={14} className="text-green-400" />}
+                            </div>
+                            {step && (
+                                step.changes.length === 0
+                                    ? <p className="text-[10px] text-muted mt-2">Dry run: no changes.</p>
+                                    : <ul className="text-[10px] font-mono text-yellow-400 mt-2 max-h-32 overflow-y-auto space-y-0.5">
+                                        {step.changes.map((change, i) => <li key={i}>~ {change}</li>)}
+                                    </ul>
+                            )}
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+};
+
+export default MigrationPanel;
@@ -0,0 +1,111 @@
+import React from 'react';
+import { useShowrunnerStore } from '../../store/showrunnerStore';
+import { RoutedTask } from '../../types';
+import { ROUTED_TASKS, DEFAULT_MODEL_ROUTES, modelsForTask, getRoute } from '../../services/modelRoutingService';
+import TaskModelSelect from '../shared/TaskModelSelect';
+import { Route, X, RotateCcw } from 'lucide-react';
+
+/** The open project's model for each task, with the fallbacks tried in order when it fails. */
+const ModelRoutingPanel: React.FC = () => {
+    const { project, listModels, setModelRoute, updateProject } = useShowrunnerStore();
+    const tasks = Object.keys(ROUTED_TASKS) as RoutedTask[];
+
+    const addFallback = (task: RoutedTask, modelId: string) => {
+        const route = getRoute(project?.routing, task);
+        setModelRoute(task, { ...route, fallbacks: [...(route.fallbacks || []), modelId] });
+    };
+
+    const removeFallback = (task: RoutedTask, modelId: string) => {
+        const route = getRoute(project?.routing, task);
+        setModelRoute(task, { ...route, fallbacks: route.fallbacks?.filter(id => id !== modelId) });
+    };
+
+    const handleResetAll = () => {
+        if (confirm("Route every task back to its default model and drop all fallbacks?")) {
+            updateProject({ routing: undefined });
+        }
+    };
+
+    return (
+        <div className="bg-surface border border-subtle rounded-xl p-6">
+            <div className="flex justify-between items-center mb-4">
+                <h2 className="text-xl font-bold text-primary flex items-center gap-2"><Route className="text-accent" size={20} /> Model Routing</h2>
+                <button onClick={handleResetAll} disabled={!project?.routing} className="flex items-center gap-2 px-3 py-1.5 text-xs font-bold text-primary-text bg-panel border border-subtle rounded-md hover:bg-subtle disabled:opacity-50 disabled:cursor-not-allowed">
+                    <RotateCcw size={14} /> Reset All
+                </button>
+            </div>
+            <p className="text-xs text-muted mb-6">
+                Which model each kind of generation uses in this project. When a model fails, its fallbacks are tried in order;
+                cancelling or a blocked budget stops the chain. The model pickers on each page change the same routes.
+            </p>
+
+            {!project ? (
+                <p className="text-sm text-muted">Open a project to route its models.</p>
+            ) : (
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-left text-xs uppercase text-muted border-b border-subtle">
+                            <th className="pb-2 pr-4 font-bold">Task</th>
+                            <th className="pb-2 pr-4 font-bold">Model</th>
+                            <th className="pb-2 font-bold">Fallbacks</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {tasks.map(task => {
+                            const info = ROUTED_TASKS[task];
+                            const candidates = modelsForTask(listModels(info.family), task);
+                            const route = getRoute(project.routing, task);
+                            const fallbacks = route.fallbacks || [];
+                            const addable = candidates.filter(m => m.id !== route.modelId && !fallbacks.includes(m.id));
+                            return (
+                                <tr key={task} className="border-b border-subtle/50 last:border-0 align-top">
+                                    <td className="py-3 pr-4">
+                                        <div className="font-bold text-primary-text">{info.label}</div>
+                                        <div className="text-[10px] text-muted">{info.description}</div>
+                                    </td>
+                                    <td className="py-3 pr-4">
+                                        <div className="flex items-center gap-2">
+                                            <TaskModelSelect task={task} className="bg-panel border-subtle rounded-md text-xs text-primary-text p-1.5 min-w-[180px]" />
+                                            {project.routing?.[task] && (
+                                                <button onClick={() => setModelRoute(task, null)} className="p-1 text-muted hover:text-primary-text" title={`Reset to ${DEFAULT_MODEL_ROUTES[task]}`}>
+                                                    <RotateCcw size={12} />
+                                                </button>
+                                            )}
+                                        </div>
+                                    </td>
+                                    <td className="py-3">
+                                        <div className="flex flex-wrap items-center gap-1">
+                                            {fallbacks.map((id, i) => {
+                                                const model = candidates.find(m => m.id === id);
+                                                return (
+                                                    <span key={id} className={`flex items-center gap-1 px-2 py-0.5 rounded border text-xs ${model ? 'bg-panel border-subtle text-primary-text' : 'bg-red-900/20 border-red-800/50 text-red-300'}`} title={model ? undefined : 'This model no longer exists and is skipped.'}>
+                                                        {i + 1}. {model?.name || `${id} (missing)`}
+                                                        <button onClick={() => removeFallback(task, id)} className="text-muted hover:text-red-400"><X size={10} /></button>
+                                                    </span>
+                                                );
+                                            })}
+                                            {addable.length > 0 && (
+                                                <select
+                                                    value=""
+                                                    onChange={(e) => e.target.value && addFallback(task, e.target.value)}
+                                                    className="bg-panel border-subtle rounded-md text-xs text-muted p-1"
+                                                >
+                                                    <option value="">+ Add fallback</option>
+                                                    {addable.map(model => (
+                                                        <option key={model.id} value={model.id}>{model.name}{model.provider !== 'google_native' ? ` (${model.provider})` : ''}</option>
+                                                    ))}
+                                                </select>
+                                            )}
+                                        </div>
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+};
+
+export default ModelRoutingPanel;
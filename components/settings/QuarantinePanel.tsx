@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { useShowrunnerStore } from '../../store/showrunnerStore';
+import { ImageOff, Search, Archive, Trash2, X } from 'lucide-react';
+
+/** Lists image references that point at images missing from this browser, and re-links them from an archive. */
+const QuarantinePanel: React.FC = () => {
+    const { project, scanBrokenImageRefs, relinkQuarantinedImages, discardQuarantinedRefs } = useShowrunnerStore();
+    const [isBusy, setIsBusy] = useState(false);
+
+    const quarantine = project?.quarantine || [];
+
+    const handleScan = async () => {
+        setIsBusy(true);
+        try {
+            const found = await scanBrokenImageRefs();
+            if (found === 0) alert("No broken image references found.");
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleRelink = async () => {
+        setIsBusy(true);
+        try {
+            await relinkQuarantinedImages();
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleDiscardAll = () => {
+        if (confirm(`Forget all ${quarantine.length} quarantined references? The links can't be recovered afterwards.`)) {
+            discardQuarantinedRefs();
+        }
+    };
+
+    return (
+        <div className="bg-surface border border-subtle rounded-xl p-6">
+            <div className="flex justify-between items-center mb-4">
+                <h2 className="text-xl font-bold text-primary flex items-center gap-2"><ImageOff className="text-accent" size={20} /> Missing Images</h2>
+                <div className="flex gap-2">
+                    <button onClick={handleScan} disabled={!project || isBusy} className="flex items-center gap-2 px-3 py-1.5 text-xs font-bold text-primary-text bg-panel border border-subtle rounded-md hover:bg-subtle disabled:opacity-50 disabled:cursor-not-allowed">
+                        <Search size={14} /> Scan
+                    </button>
+                    <button onClick={handleRelink} disabled={quarantine.length === 0 || isBusy} className="flex items-center gap-2 px-3 py-1.5 text-xs font-bold text-neutral-900 bg-primary rounded-md hover:bg-slate-200 disabled:bg-neutral-600 disabled:text-neutral-400 disabled:cursor-not-allowed">
+                        <Archive size={14} /> Re-link from Archive
+                    </button>
+                </div>
+            </div>
+            <p className="text-xs text-muted mb-4">
+                References to images that aren't stored in this browser are moved here instead of being deleted.
+                Pick any exported archive that contains them to put them back where they were.
+            </p>
+
+            {!project ? (
+                <p className="text-sm text-muted">Open a project to check its images.</p>
+            ) : quarantine.length === 0 ? (
+                <p className="text-sm text-muted">No quarantined references.</p>
+            ) : (
+                <>
+                    <ul className="space-y-1 max-h-64 overflow-y-auto mb-3">
+                        {quarantine.map(ref => (
+                            <li key={ref.id} className="flex items-center gap-3 bg-panel border border-subtle rounded-lg px-3 py-2 text-sm">
+                                <span className="flex-1 text-primary-text truncate">{ref.label}</span>
+                                <span className="font-mono text-[10px] text-muted truncate max-w-[12rem]" title={ref.imageId}>{ref.imageId}</span>
+                                <span className="text-[10px] text-muted">{new Date(ref.quarantinedAt).toLocaleDateString()}</span>
+                                <button onClick={() => discardQuarantinedRefs([ref.id])} className="text-muted hover:text-red-400" title="Forget this reference">
+                                    <X size={14} />
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                    <button onClick={handleDiscardAll} className="flex items-center gap-2 text-xs text-red-400 hover:text-red-300">
+                        <Trash2 size={12} /> Discard all
+                    </button>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default QuarantinePanel;
@@ -0,0 +1,179 @@
+import React, { useState, useEffect } from 'react';
+import { useShowrunnerStore } from '../../store/showrunnerStore';
+import { AIModelConfig } from '../../types';
+import { modelGateway } from '../../services/modelGateway';
+import { InspectedRequest, listInspections, clearInspections, onInspectionsChanged } from '../../services/requestInspectorService';
+import JsonViewer from '../shared/JsonViewer';
+import { Activity, Play, Save, Trash2, Loader2, AlertTriangle, Check } from 'lucide-react';
+
+const Section: React.FC<{ title: string; children: React.ReactNode; defaultOpen?: boolean }> = ({ title, children, defaultOpen = true }) => (
+    <details open={defaultOpen} className="group">
+        <summary className="text-xs font-bold uppercase text-muted cursor-pointer mb-2 select-none">{title}</summary>
+        <div className="mb-4">{children}</div>
+    </details>
+);
+
+const preview = (value: any) => {
+    if (value === undefined) return 'not found';
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    return text.length > 160 ? `${text.slice(0, 160)}…` : text;
+};
+
+/**
+ * Shows the generic-provider requests made this session and replays them with an edited mapping.
+ * Built-in Gemini calls go through the SDK and don't appear here.
+ */
+const RequestInspectorPanel: React.FC = () => {
+    const { customModels, addCustomModel } = useShowrunnerStore();
+    const [entries, setEntries] = useState<InspectedRequest[]>(listInspections());
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [endpointsJson, setEndpointsJson] = useState('');
+    const [isReplaying, setIsReplaying] = useState(false);
+    const [editError, setEditError] = useState<string | null>(null);
+
+    useEffect(() => onInspectionsChanged(() => setEntries(listInspections())), []);
+
+    const selected = entries.find(e => e.id === selectedId) || entries[0];
+    const customModel = selected && customModels.find(m => m.id === selected.config.id);
+
+    // Reset the editor when switching entries, not on every update to the same entry
+    useEffect(() => {
+        setEndpointsJson(selected ? JSON.stringify(selected.config.endpoints, null, 2) : '');
+        setEditError(null);
+    }, [selected?.id]);
+
+    const parseEditedConfig = (): AIModelConfig | null => {
+        try {
+            const endpoints = JSON.parse(endpointsJson);
+            if (!endpoints?.generate?.url) throw new Error("`generate.url` is required.");
+            setEditError(null);
+            return { ...selected.config, endpoints };
+        } catch (e: any) {
+            setEditError(e.message);
+            return null;
+        }
+    };
+
+    const handleReplay = async () => {
+        const config = parseEditedConfig();
+        if (!config) return;
+        setIsReplaying(true);
+        const replay = await modelGateway.replayRequest(selected, config);
+        setIsReplaying(false);
+        setSelectedId(replay.id);
+    };
+
+    const handleSaveMapping = () => {
+        const config = parseEditedConfig();
+        if (!config || !customModel) return;
+        if (!confirm(`Save these endpoints to "${customModel.name}"? Future generations with this model will use them.`)) return;
+        addCustomModel({ ...customModel, endpoints: config.endpoints });
+    };
+
+    return (
+        <div className="bg-surface border border-subtle rounded-xl p-6">
+            <div className="flex justify-between items-center mb-2">
+                <h2 className="text-xl font-bold text-primary flex items-center gap-2"><Activity className="text-accent" size={20} /> Request Inspector</h2>
+                <button onClick={clearInspections} disabled={entries.length === 0} className="flex items-center gap-2 px-3 py-1.5 text-xs font-bold bg-panel border border-subtle rounded-md hover:bg-subtle disabled:opacity-50">
+                    <Trash2 size={14} /> Clear
+                </button>
+            </div>
+            <p className="text-xs text-muted mb-6">
+                The last 50 requests to custom providers this session, with the payload sent, the raw response and what each output mapping resolved to.
+                API keys are masked. Built-in Gemini models are not listed.
+            </p>
+
+            {entries.length === 0 ? <div className="text-center text-muted py-10">No requests yet. Generate something with a custom model.</div> : (
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                    <div className="lg:col-span-1 space-y-1 max-h-[70vh] overflow-y-auto pr-1">
+                        {entries.map(entry => (
+                            <button
+                                key={entry.id}
+                                onClick={() => setSelectedId(entry.id)}
+                                className={`w-full text-left p-3 rounded-lg border transition-colors ${entry.id === selected?.id ? 'bg-panel border-accent' : 'bg-panel/50 border-subtle hover:bg-panel'}`}
+                            >
+                                <div className="flex justify-between items-center gap-2">
+                                    <span className="text-sm font-bold text-primary-text truncate">{entry.config.name}</span>
+                                    {entry.error
+                                        ? <AlertTriangle size={14} className="text-red-400 shrink-0" />
+                                        : entry.response !== undefined
+                                            ? <Check size={14} className="text-green-400 shrink-0" />
+                                            : <Loader2 size={14} className="text-muted animate-spin shrink-0" />}
+                                </div>
+                                <div className="text-[10px] text-muted mt-1 flex gap-2">
+                                    <span className="uppercase font-bold">{entry.kind}{entry.replayOf ? ' · replay' : ''}</span>
+                                    <span>{new Date(entry.timestamp).toLocaleTimeString()}</span>
+                                    {entry.status !== undefined && <span>HTTP {entry.status}</span>}
+                                    {entry.durationMs !== undefined && <span>{(entry.durationMs / 1000).toFixed(1)}s</span>}
+                                </div>
+                            </button>
+                        ))}
+                    </div>
+
+                    {selected && (
+                        <div className="lg:col-span-2 min-w-0">
+                            <div className="font-mono text-xs text-primary-text mb-4 break-all">
+                                <span className="font-bold text-accent mr-2">{selected.method || '—'}</span>{selected.url || '(request was not built)'}
+                                {selected.streamed && <span className="ml-2 text-muted">(streamed)</span>}
+                            </div>
+                            <div className="flex flex-wrap gap-4 text-xs text-muted mb-4">
+                                <span>Status: <span className="text-primary-text">{selected.status ?? '—'}</span></span>
+                                <span>Attempts: <span className="text-primary-text">{selected.attempts}</span></span>
+                                <span>Time: <span className="text-primary-text">{selected.durationMs !== undefined ? `${selected.durationMs} ms` : '—'}</span></span>
+                            </div>
+
+                            {selected.error && (
+                                <div className="mb-4 p-3 bg-red-900/20 border border-red-800/50 rounded-lg text-xs text-red-300 font-mono whitespace-pre-wrap break-all">{selected.error}</div>
+                            )}
+
+                            {Object.keys(selected.extracted).length > 0 && (
+                                <Section title="Extracted Fields">
+                                    <table className="w-full text-xs">
+                                        <tbody>
+                                            {Object.entries(selected.extracted).map(([key, field]: [string, InspectedRequest['extracted'][string]]) => (
+                                                <tr key={key} className="border-b border-subtle/50 last:border-0 align-top">
+                                                    <td className="py-1.5 pr-2 font-bold text-primary-text">{key}</td>
+                                                    <td className="py-1.5 px-2 font-mono text-muted">{field.path}</td>
+                                                    <td className={`py-1.5 pl-2 font-mono break-all ${field.value === undefined ? 'text-red-400' : 'text-primary-text'}`}>{preview(field.value)}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </Section>
+                            )}
+
+                            {selected.headers && <Section title="Headers" defaultOpen={false}><JsonViewer data={selected.headers} /></Section>}
+                            {selected.payload !== undefined && <Section title="Payload"><JsonViewer data={selected.payload} /></Section>}
+                            {selected.initialResponse !== undefined && <Section title="Initial Response" defaultOpen={false}><JsonViewer data={selected.initialResponse} /></Section>}
+                            {selected.response !== undefined && <Section title={selected.streamed ? 'Last Stream Event' : 'Response'}><JsonViewer data={selected.response} /></Section>}
+
+                            <Section title="Replay">
+                                <p className="text-xs text-muted mb-2">Edit the endpoints and mappings, then run the same inputs again. Streamed requests replay without streaming.</p>
+                                <textarea
+                                    value={endpointsJson}
+                                    onChange={(e) => setEndpointsJson(e.target.value)}
+                                    rows={12}
+                                    spellCheck={false}
+                                    className="w-full bg-panel border border-subtle rounded-md p-2 text-xs font-mono text-primary-text"
+                                />
+                                {editError && <p className="text-xs text-red-400 mt-1">{editError}</p>}
+                                <div className="flex gap-2 mt-2">
+                                    <button onClick={handleReplay} disabled={isReplaying} className="flex items-center gap-2 px-3 py-1.5 text-xs font-bold text-neutral-900 bg-primary rounded-md hover:bg-slate-200 disabled:bg-neutral-600 disabled:text-neutral-400">
+                                        {isReplaying ? <Loader2 size={14} className="animate-spin" /> : <Play size={14} />} Replay
+                                    </button>
+                                    {customModel && (
+                                        <button onClick={handleSaveMapping} className="flex items-center gap-2 px-3 py-1.5 text-xs font-bold bg-panel border border-subtle rounded-md hover:bg-subtle">
+                                            <Save size={14} /> Save to {customModel.name}
+                                        </button>
+                                    )}
+                                </div>
+                            </Section>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default RequestInspectorPanel;
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { useShowrunnerStore } from '../../store/showrunnerStore';
+import { ImageGCReport } from '../../types';
+import { scanOrphanedImages, deleteImagesFromDB } from '../../services/storageService';
+import { HardDrive, Search, Trash2 } from 'lucide-react';
+
+export const formatBytes = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+const StoragePanel: React.FC = () => {
+    const project = useShowrunnerStore(state => state.project);
+    const [report, setReport] = useState<ImageGCReport | null>(null);
+    const [isScanning, setIsScanning] = useState(false);
+    const [isDeleting, setIsDeleting] = useState(false);
+
+    // The open project may have edits that the debounced save hasn't written yet
+    const getRoots = () => project ? [project] : [];
+
+    const handleScan = async () => {
+        setIsScanning(true);
+        try {
+            setReport(await scanOrphanedImages(getRoots()));
+        } catch (e: any) {
+            console.error("[Storage] Scan failed", e);
+            alert(`Scan failed: ${e.message}`);
+        } finally {
+            setIsScanning(false);
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!report || report.orphanedIds.length === 0) return;
+        if (!confirm(`Permanently delete ${report.orphanedIds.length} unreferenced images (${formatBytes(report.reclaimableBytes)})?`)) return;
+
+        setIsDeleting(true);
+        try {
+            // Re-scan so anything referenced since the dry run is spared
+            const fresh = await scanOrphanedImages(getRoots());
+            const stillOrphaned = report.orphanedIds.filter(id => fresh.orphanedIds.includes(id));
+            await deleteImagesFromDB(stillOrphaned);
+            setReport(await scanOrphanedImages(getRoots()));
+        } catch (e: any) {
+            console.error("[Storage] Garbage collection failed", e);
+            alert(`Cleanup failed: ${e.message}`);
+        } finally {
+            setIsDeleting(false);
+        }
+    };
+
+    return (
+        <div className="bg-surface border border-subtle rounded-xl p-6">
+            <div className="flex justify-between items-center mb-4">
+                <h2 className="text-xl font-bold text-primary flex items-center gap-2"><HardDrive className="text-accent" size={20} /> Image Cleanup</h2>
+                <button onClick={handleScan} disabled={isScanning || isDeleting} className="flex items-center gap-2 px-3 py-1.5 text-xs font-bold text-neutral-900 bg-primary rounded-md hover:bg-slate-200 disabled:bg-neutral-600 disabled:text-neutral-400 disabled:cursor-wait">
+                    <Search size={14} /> {isScanning ? 'Scanning...' : 'Scan (Dry Run)'}
+                </button>
+            </div>
+            <p className="text-xs text-muted mb-4">Finds images no longer referenced by any project, checkpoint, image history or shot reference. Nothing is deleted until you confirm.</p>
+
+            {report && (
+                <div className="space-y-4">
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-center">
+                        <div className="bg-panel border border-subtle rounded-lg p-3">
+                            <p className="text-lg font-black text-primary">{report.totalImages}</p>
+                            <p className="text-[10px] uppercase text-muted">Images ({formatBytes(report.totalBytes)})</p>
+                        </div>
+                        <div className="bg-panel border border-subtle rounded-lg p-3">
+                            <p className="text-lg font-black text-green-400">{report.referencedCount}</p>
+                            <p className="text-[10px] uppercase text-muted">Referenced</p>
+                        </div>
+                        <div className="bg-panel border border-subtle rounded-lg p-3">
+                            <p className="text-lg font-black text-yellow-400">{report.orphanedIds.length}</p>
+                            <p className="text-[10px] uppercase text-muted">Orphaned</p>
+                        </div>
+                        <div className="bg-panel border border-subtle rounded-lg p-3">
+                            <p className="text-lg font-black text-accent">{formatBytes(report.reclaimableBytes)}</p>
+                            <p className="text-[10px] uppercase text-muted">Reclaimable</p>
+                        </div>
+                    </div>
+                    <p className="text-[10px] text-muted">Scanned {report.scannedProjects} projects, {report.scannedCheckpoints} checkpoints and {report.scannedJournalEntries} unsaved journal entries.</p>
+
+                    {report.orphanedIds.length > 0 && (
+                        <button onClick={handleDelete} disabled={isDeleting} className="flex items-center gap-2 px-4 py-2 text-xs font-bold rounded-md bg-red-500/10 text-red-400 hover:bg-red-500/20 disabled:opacity-50 disabled:cursor-wait">
+                            <Trash2 size={14} /> {isDeleting ? 'Deleting...' : `Delete ${report.orphanedIds.length} Orphaned Images`}
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default StoragePanel;
@@ -0,0 +1,150 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useShowrunnerStore } from '../../store/showrunnerStore';
+import { StorageBreakdown, StorageCategory } from '../../types';
+import { getProjectStorageBreakdown, getStorageEstimate, isStoragePersisted, requestPersistentStorage } from '../../services/storageService';
+import { formatBytes } from './StoragePanel';
+import { PieChart, AlertTriangle, ShieldCheck, RefreshCw } from 'lucide-react';
+
+// Usage ratio at which we start nagging; browsers evict or fail writes near 100%
+export const QUOTA_WARNING_RATIO = 0.8;
+
+const CATEGORY_LABELS: Record<StorageCategory, { label: string; color: string }> = {
+    characters: { label: 'Characters', color: 'bg-blue-500' },
+    locations: { label: 'Locations', color: 'bg-green-500' },
+    props: { label: 'Props', color: 'bg-yellow-500' },
+    shots: { label: 'Shots', color: 'bg-purple-500' },
+    audio: { label: 'Sound Stage', color: 'bg-pink-500' },
+    history: { label: 'History & References', color: 'bg-neutral-500' },
+};
+
+/** Compact banner for the Dashboard. Renders nothing while usage is healthy. */
+export const StorageQuotaBanner: React.FC = () => {
+    const [ratio, setRatio] = useState(0);
+
+    useEffect(() => {
+        getStorageEstimate().then(estimate => {
+            if (estimate && estimate.quota > 0) setRatio(estimate.usage / estimate.quota);
+        });
+    }, []);
+
+    if (ratio < QUOTA_WARNING_RATIO) return null;
+
+    return (
+        <div className="mb-6 flex items-center gap-3 p-3 rounded-lg border border-red-500/30 bg-red-500/10 text-red-300 text-sm">
+            <AlertTriangle size={16} />
+            <span>Browser storage is {Math.round(ratio * 100)}% full. Export your projects and clean up unused images in Settings → Storage.</span>
+        </div>
+    );
+};
+
+const StorageUsagePanel: React.FC = () => {
+    const project = useShowrunnerStore(state => state.project);
+    const projectId = project?.metadata.id;
+    const [estimate, setEstimate] = useState<{ usage: number; quota: number } | null>(null);
+    const [breakdown, setBreakdown] = useState<StorageBreakdown | null>(null);
+    const [isPersisted, setIsPersisted] = useState(false);
+    const [isLoading, setIsLoading] = useState(false);
+
+    // Reads every blob the project references, so it runs when the project is opened or on Refresh, not on each edit
+    const refresh = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            setEstimate(await getStorageEstimate());
+            setIsPersisted(await isStoragePersisted());
+            const current = useShowrunnerStore.getState().project;
+            setBreakdown(current ? await getProjectStorageBreakdown(current) : null);
+        } catch (e) {
+            console.error("[Storage] Failed to compute usage", e);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [projectId]);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const handlePersist = async () => {
+        const granted = await requestPersistentStorage();
+        setIsPersisted(granted);
+        if (!granted) alert("The browser declined persistent storage. Bookmarking or installing the app usually helps.");
+    };
+
+    const ratio = estimate && estimate.quota > 0 ? estimate.usage / estimate.quota : 0;
+    const imageBytes = breakdown ? (Object.keys(CATEGORY_LABELS) as StorageCategory[]).reduce((sum, c) => sum + breakdown.byCategory[c].bytes, 0) : 0;
+    const projectTotal = breakdown ? imageBytes + breakdown.projectDataBytes : 0;
+
+    return (
+        <div className="bg-surface border border-subtle rounded-xl p-6">
+            <div className="flex justify-between items-center mb-4">
+                <h2 className="text-xl font-bold text-primary flex items-center gap-2"><PieChart className="text-purple-400" size={20} /> Storage Usage</h2>
+                <button onClick={refresh} disabled={isLoading} className="text-xs flex items-center gap-1 text-muted hover:text-primary-text bg-panel px-2 py-1 rounded border border-subtle hover:border-muted transition-colors"><RefreshCw size={12} className={isLoading ? 'animate-spin' : ''} /> Refresh</button>
+            </div>
+
+            {/* BROWSER QUOTA */}
+            {estimate ? (
+                <div className="mb-6">
+                    <div className="flex justify-between text-xs text-muted mb-1">
+                        <span>{formatBytes(estimate.usage)} used</span>
+                        <span>{formatBytes(estimate.quota)} available to this site</span>
+                    </div>
+                    <div className="h-2 bg-panel rounded-full overflow-hidden">
+                        <div className={`h-full ${ratio >= QUOTA_WARNING_RATIO ? 'bg-red-500' : 'bg-accent'}`} style={{ width: `${Math.min(100, ratio * 100)}%` }} />
+                    </div>
+                    {ratio >= QUOTA_WARNING_RATIO && (
+                        <p className="mt-2 text-xs text-red-400 flex items-center gap-1"><AlertTriangle size={12} /> Storage is nearly full. New images may fail to save.</p>
+                    )}
+                </div>
+            ) : (
+                <p className="text-xs text-muted italic mb-6">This browser does not report storage quota.</p>
+            )}
+
+            <div className="flex items-center justify-between p-3 mb-6 bg-panel border border-subtle rounded-lg">
+                <div className="flex items-center gap-2 text-xs">
+                    <ShieldCheck size={16} className={isPersisted ? 'text-green-400' : 'text-muted'} />
+                    <span className="text-primary-text">{isPersisted ? 'Persistent storage granted. Data will not be evicted automatically.' : 'Storage is best-effort and may be evicted under pressure.'}</span>
+                </div>
+                {!isPersisted && (
+                    <button onClick={handlePersist} className="px-3 py-1 text-xs font-semibold rounded-md bg-subtle text-primary-text hover:bg-neutral-600">Request Persistence</button>
+                )}
+            </div>
+
+            {/* PROJECT BREAKDOWN */}
+            {!project ? (
+                <p className="text-xs text-muted italic">Open a project to see its per-department breakdown.</p>
+            ) : breakdown && (
+                <div>
+                    <h3 className="text-sm font-bold text-primary mb-2">{project.metadata.name} · {formatBytes(projectTotal)}</h3>
+                    {imageBytes > 0 && (
+                        <div className="flex h-2 rounded-full overflow-hidden mb-3">
+                            {(Object.keys(CATEGORY_LABELS) as StorageCategory[]).map(category => (
+                                <div key={category} className={CATEGORY_LABELS[category].color} style={{ width: `${(breakdown.byCategory[category].bytes / imageBytes) * 100}%` }} />
+                            ))}
+                        </div>
+                    )}
+                    <table className="w-full text-xs text-left">
+                        <tbody className="divide-y divide-subtle">
+                            {(Object.keys(CATEGORY_LABELS) as StorageCategory[]).map(category => (
+                                <tr key={category}>
+                                    <td className="py-2 flex items-center gap-2"><span className={`w-2 h-2 rounded-full ${CATEGORY_LABELS[category].color}`} />{CATEGORY_LABELS[category].label}</td>
+                                    <td className="py-2 text-muted">{breakdown.byCategory[category].count} {category === 'audio' ? 'takes' : 'files'}</td>
+                                    <td className="py-2 text-right text-primary-text">{formatBytes(breakdown.byCategory[category].bytes)}</td>
+                                </tr>
+                            ))}
+                            <tr>
+                                <td className="py-2">Project Data (JSON)</td>
+                                <td className="py-2 text-muted">-</td>
+                                <td className="py-2 text-right text-primary-text">{formatBytes(breakdown.projectDataBytes)}</td>
+                            </tr>
+                        </tbody>
+                    </table>
+                    {breakdown.missingCount > 0 && (
+                        <p className="mt-2 text-[10px] text-yellow-400">{breakdown.missingCount} referenced images are missing from the local store.</p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default StorageUsagePanel;
@@ -0,0 +1,31 @@
+import React from 'react';
+import { Lock } from 'lucide-react';
+import { promptForNewPassphrase } from '../../services/cryptoService';
+
+interface EncryptedExportButtonProps {
+    onExport: (passphrase: string) => void | Promise<void>;
+    disabled?: boolean;
+    size?: number;
+    className?: string;
+}
+
+/** Companion to a Save/Export button that writes the same archive passphrase-encrypted. */
+const EncryptedExportButton: React.FC<EncryptedExportButtonProps> = ({ onExport, disabled, size = 14, className }) => {
+    const handleClick = () => {
+        const passphrase = promptForNewPassphrase();
+        if (passphrase) onExport(passphrase);
+    };
+
+    return (
+        <button
+            onClick={handleClick}
+            disabled={disabled}
+            className={className || "flex items-center px-2 py-2 text-xs font-semibold bg-panel text-primary-text rounded-md hover:bg-subtle transition-colors disabled:opacity-50 disabled:cursor-not-allowed"}
+            title="Save an encrypted copy (passphrase protected)"
+        >
+            <Lock size={size} />
+        </button>
+    );
+};
+
+export default EncryptedExportButton;
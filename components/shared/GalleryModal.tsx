@@ -3,14 +3,33 @@ import React, { useState, useMemo } from 'react';
 import { AssetType, Character, Location, Prop, Project, Season, Sequel, Episode, Act, Scene } from '../../types';
 import { X, LayoutGrid, Search, Image as ImageIcon, User, MapPin, Package, Clapperboard, Film, ChevronDown, ChevronRight } from 'lucide-react';
 import { useImageResolver } from '../../hooks/useImageResolver';
+import { ImageSize } from '../../services/imageUrlCache';
 
 // Helper component to display resolved images
-const ResolvedImage: React.FC<{ urlOrId: string | undefined, className?: string }> = ({ urlOrId, className }) => {
-    const src = useImageResolver(urlOrId);
+const ResolvedImage: React.FC<{ urlOrId: string | undefined, className?: string, size?: ImageSize }> = ({ urlOrId, className, size }) => {
+    const src = useImageResolver(urlOrId, size);
     if (!src) return <div className={`bg-neutral-800 animate-pulse ${className}`} />;
     return <img src={src} className={className} alt="Asset" />;
 };
 
+// Muted preview that plays while hovered
+const ResolvedVideo: React.FC<{ urlOrId: string, className?: string }> = ({ urlOrId, className }) => {
+    const src = useImageResolver(urlOrId);
+    if (!src) return <div className={`bg-neutral-800 animate-pulse ${className}`} />;
+    return (
+        <video
+            src={src}
+            className={className}
+            muted
+            loop
+            playsInline
+            preload="metadata"
+            onMouseEnter={(e) => e.currentTarget.play().catch(() => {})}
+            onMouseLeave={(e) => { e.currentTarget.pause(); e.currentTarget.currentTime = 0; }}
+        />
+    );
+};
+
 interface GalleryModalProps {
     onClose: () => void;
     onSelect: (imageId: string) => void;
@@ -47,14 +66,18 @@ const CollapsibleSection: React.FC<{
                         {items.map(item => (
                             <div 
                                 key={item.uniqueKey} 
-                                onClick={() => { onSelect(item.imageId); onClose(); }}
+                                onClick={() => { if (!item.imageId) return; onSelect(item.imageId); onClose(); }}
                                 className="group cursor-pointer border border-subtle rounded-lg overflow-hidden bg-panel hover:border-accent transition-all relative"
                             >
                                 <div className="aspect-video w-full overflow-hidden relative">
-                                    <ResolvedImage urlOrId={item.imageId} className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-500" />
-                                    <div className="absolute inset-0 bg-accent/20 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
-                                        <span className="bg-black/70 text-white text-[10px] px-2 py-1 rounded font-bold uppercase">Select</span>
-                                    </div>
+                                    {item.videoId
+                                        ? <ResolvedVideo urlOrId={item.videoId} className="w-full h-full object-cover" />
+                                        : <ResolvedImage size="thumbnail" urlOrId={item.imageId} className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-500" />}
+                                    {item.imageId && (
+                                        <div className="absolute inset-0 bg-accent/20 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center pointer-events-none">
+                                            <span className="bg-black/70 text-white text-[10px] px-2 py-1 rounded font-bold uppercase">{item.type === 'video' ? 'Select Start Frame' : 'Select'}</span>
+                                        </div>
+                                    )}
                                     {item.type === 'video' && (
                                         <div className="absolute bottom-1 right-1 bg-black/60 p-1 rounded text-white">
                                             <Film size={10} />
@@ -143,15 +166,14 @@ export const GalleryModal: React.FC<GalleryModalProps> = ({ onClose, onSelect, p
                     }
                     // Videos
                     if (shot.generatedVideoUrl) {
-                         // Videos are represented by their thumbnails (generatedImageUrl) usually, 
-                         // but if we had a separate video thumb, we'd use that. 
-                         // For now, we assume if video exists, we use the image as thumb but mark it as video.
+                         // The clip previews on hover; selecting it picks its start frame, since callers want images
                          videos.push({
                             uniqueKey: `vid-${shot.id}`,
                             name: `Video: Shot ${shot.shotNumber}`,
                             subtext: sceneName,
                             type: 'video',
-                            imageId: shot.generatedImageUrl // Thumb
+                            videoId: shot.generatedVideoUrl,
+                            imageId: shot.generatedImageUrl
                         });
                     }
                 });
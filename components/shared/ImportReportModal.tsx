@@ -0,0 +1,56 @@
+import React from 'react';
+import { useShowrunnerStore } from '../../store/showrunnerStore';
+import { X, FileCheck, Wrench, Trash2, HelpCircle, AlertTriangle, ShieldAlert } from 'lucide-react';
+
+const ReportList: React.FC<{ title: string; icon: React.ReactNode; items: string[]; tone: string }> = ({ title, icon, items, tone }) => {
+    if (items.length === 0) return null;
+    return (
+        <div className="mb-4">
+            <h4 className={`text-xs font-bold uppercase flex items-center gap-2 mb-2 ${tone}`}>{icon} {title} <span className="text-muted font-normal">({items.length})</span></h4>
+            <ul className="text-xs text-primary-text space-y-1 bg-panel border border-subtle rounded-lg p-3 max-h-40 overflow-y-auto font-mono">
+                {items.map((item, i) => <li key={i}>{item}</li>)}
+            </ul>
+        </div>
+    );
+};
+
+/** Lists what the schema validator repaired, dropped or didn't recognise during the last import. */
+const ImportReportModal: React.FC = () => {
+    const { importReport, showImportReport } = useShowrunnerStore();
+    if (!importReport) return null;
+
+    const onClose = () => showImportReport(null);
+
+    return (
+        <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-8">
+            <div className="bg-surface border border-subtle rounded-xl w-full max-w-2xl max-h-[80vh] flex flex-col shadow-2xl">
+                <div className="p-4 border-b border-subtle flex justify-between items-center bg-panel">
+                    <h3 className="text-lg font-bold text-primary flex items-center gap-2">
+                        <FileCheck size={20} className="text-accent"/> Import Report
+                    </h3>
+                    <button onClick={onClose} className="p-1 hover:bg-red-500/20 hover:text-red-400 rounded-full transition-colors">
+                        <X size={20} />
+                    </button>
+                </div>
+                <div className="p-6 overflow-y-auto">
+                    <p className="text-sm text-muted mb-4">
+                        Imported <span className="text-primary font-semibold capitalize">{importReport.module}</span> file
+                        {importReport.fromVersion !== importReport.toVersion
+                            ? <> and upgraded it from schema v{importReport.fromVersion} to v{importReport.toVersion}.</>
+                            : <> (schema v{importReport.toVersion}).</>}
+                    </p>
+                    <ReportList title="Warnings" icon={<AlertTriangle size={12} />} items={importReport.warnings} tone="text-red-400" />
+                    <ReportList title="Fixed" icon={<Wrench size={12} />} items={importReport.fixed} tone="text-green-400" />
+                    <ReportList title="Dropped" icon={<Trash2 size={12} />} items={importReport.dropped} tone="text-yellow-400" />
+                    <ReportList title="Quarantined (image missing, re-link in Settings)" icon={<ShieldAlert size={12} />} items={importReport.quarantined} tone="text-orange-400" />
+                    <ReportList title="Unknown Fields (kept)" icon={<HelpCircle size={12} />} items={importReport.unknown} tone="text-muted" />
+                </div>
+                <div className="p-4 border-t border-subtle flex justify-end">
+                    <button onClick={onClose} className="px-4 py-2 text-sm font-bold text-neutral-900 bg-primary rounded-md hover:bg-slate-200">Got it</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ImportReportModal;
@@ -0,0 +1,174 @@
+import React, { useState, useEffect } from 'react';
+import { get } from 'lodash-es';
+import { useShowrunnerStore } from '../../store/showrunnerStore';
+import { MergeItem, MergeChoice, MergeSection } from '../../types';
+import { defaultMergeChoice } from '../../services/mergeService';
+import { X, GitMerge, ChevronDown, ChevronRight } from 'lucide-react';
+
+const SECTION_LABELS: Record<MergeSection, string> = {
+    characters: 'Character',
+    locations: 'Location',
+    props: 'Prop',
+    episodes: 'Episode',
+    acts: 'Act',
+    shots: 'Shot List',
+};
+
+const formatValue = (value: unknown) => {
+    if (value === undefined) return '—';
+    if (typeof value === 'string') return value || '""';
+    return JSON.stringify(value, null, 2);
+};
+
+// Side-by-side values for each differing field
+const ConflictDetail: React.FC<{ item: MergeItem }> = ({ item }) => {
+    // Shot lists are compared per shot, so show the raw lists rather than field paths
+    if (item.section === 'shots') {
+        return (
+            <div className="mt-3">
+                <ul className="text-[11px] text-yellow-400 mb-3 space-y-0.5">
+                    {item.changedFields.map(field => <li key={field}>~ {field}</li>)}
+                </ul>
+                <div className="grid grid-cols-2 gap-2">
+                    <pre className="bg-neutral-900/50 p-2 rounded text-[10px] text-primary-text whitespace-pre-wrap max-h-60 overflow-y-auto border border-subtle">{formatValue((item.current || []).map((s: any) => `Shot ${s.shotNumber}: ${s.description}`).join('\n'))}</pre>
+                    <pre className="bg-neutral-900/50 p-2 rounded text-[10px] text-primary-text whitespace-pre-wrap max-h-60 overflow-y-auto border border-subtle">{formatValue(item.incoming.map((s: any) => `Shot ${s.shotNumber}: ${s.description}`).join('\n'))}</pre>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="mt-3 space-y-2">
+            {item.changedFields.map(field => (
+                <div key={field}>
+                    <p className="text-[10px] font-mono text-muted mb-1">{field}</p>
+                    <div className="grid grid-cols-2 gap-2">
+                        <pre className="bg-neutral-900/50 p-2 rounded text-[10px] text-primary-text whitespace-pre-wrap max-h-40 overflow-y-auto border border-subtle">{formatValue(get(item.current, field))}</pre>
+                        <pre className="bg-neutral-900/50 p-2 rounded text-[10px] text-primary-text whitespace-pre-wrap max-h-40 overflow-y-auto border border-subtle">{formatValue(get(item.incoming, field))}</pre>
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+const MergeRow: React.FC<{ item: MergeItem; choice: MergeChoice; onChoose: (choice: MergeChoice) => void }> = ({ item, choice, onChoose }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const isConflict = item.status === 'conflict';
+
+    return (
+        <div className="border border-subtle rounded-lg bg-panel p-3">
+            <div className="flex items-center gap-3">
+                {isConflict ? (
+                    <button onClick={() => setIsOpen(!isOpen)} className="text-muted hover:text-primary">
+                        {isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                    </button>
+                ) : <span className="w-[14px]" />}
+                <div className="flex-1 min-w-0">
+                    <p className="text-sm font-bold text-primary truncate">{item.label}</p>
+                    <p className="text-[10px] text-muted">
+                        {SECTION_LABELS[item.section]} · {isConflict
+                            ? `${item.changedFields.length} differing field${item.changedFields.length === 1 ? '' : 's'}${item.matchedBy === 'name' ? ' · matched by name' : ''}`
+                            : 'Only in incoming file'}
+                    </p>
+                </div>
+                <span className={`text-[9px] uppercase font-bold px-1.5 py-0.5 rounded ${isConflict ? 'bg-yellow-500/10 text-yellow-400' : 'bg-green-500/10 text-green-400'}`}>
+                    {isConflict ? 'Conflict' : 'New'}
+                </span>
+                <div className="flex gap-1 p-0.5 bg-surface rounded-md border border-subtle">
+                    <button onClick={() => onChoose('current')} className={`px-2 py-1 text-[10px] font-bold rounded ${choice === 'current' ? 'bg-panel text-primary' : 'text-muted'}`}>
+                        {isConflict ? 'Keep Current' : 'Skip'}
+                    </button>
+                    <button onClick={() => onChoose('incoming')} className={`px-2 py-1 text-[10px] font-bold rounded ${choice === 'incoming' ? 'bg-panel text-primary' : 'text-muted'}`}>
+                        {isConflict ? 'Use Incoming' : 'Add'}
+                    </button>
+                </div>
+            </div>
+            {isConflict && isOpen && (
+                <>
+                    <div className="grid grid-cols-2 gap-2 mt-3 text-[10px] uppercase font-bold text-muted">
+                        <span>Current</span><span>Incoming</span>
+                    </div>
+                    <ConflictDetail item={item} />
+                </>
+            )}
+        </div>
+    );
+};
+
+/** Lets the user merge an imported Bible / Script / Studio file asset-by-asset instead of replacing the section. */
+const MergeImportModal: React.FC = () => {
+    const { pendingMerge, resolvePendingMerge, cancelPendingMerge } = useShowrunnerStore();
+    const [choices, setChoices] = useState<Record<string, MergeChoice>>({});
+
+    // Default: add new items, keep current versions of conflicts
+    useEffect(() => {
+        if (!pendingMerge) return;
+        const defaults: Record<string, MergeChoice> = {};
+        pendingMerge.plan.items.forEach(item => { defaults[item.key] = defaultMergeChoice(item); });
+        setChoices(defaults);
+    }, [pendingMerge]);
+
+    if (!pendingMerge) return null;
+    const { plan } = pendingMerge;
+
+    const setAll = (choice: MergeChoice) => {
+        const next: Record<string, MergeChoice> = {};
+        plan.items.forEach(item => { next[item.key] = choice; });
+        setChoices(next);
+    };
+
+    const handleReplace = () => {
+        if (confirm(`Replace the entire ${plan.module} with the imported file? Items not in the file will be removed.`)) {
+            resolvePendingMerge('replace');
+        }
+    };
+
+    const conflictCount = plan.items.filter(i => i.status === 'conflict').length;
+    const newCount = plan.items.length - conflictCount;
+
+    return (
+        <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-8">
+            <div className="bg-surface border border-subtle rounded-xl w-full max-w-4xl h-[80vh] flex flex-col shadow-2xl">
+                <div className="p-4 border-b border-subtle flex justify-between items-center bg-panel">
+                    <h3 className="text-lg font-bold text-primary flex items-center gap-2">
+                        <GitMerge size={20} className="text-accent"/> Merge Imported <span className="capitalize">{plan.module}</span>
+                    </h3>
+                    <button onClick={cancelPendingMerge} className="p-1 hover:bg-red-500/20 hover:text-red-400 rounded-full transition-colors">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="px-6 py-3 border-b border-subtle flex items-center justify-between text-xs">
+                    <p className="text-muted">
+                        <span className="text-yellow-400 font-bold">{conflictCount}</span> conflicts · <span className="text-green-400 font-bold">{newCount}</span> new · {plan.identicalCount} identical (unchanged)
+                    </p>
+                    {plan.items.length > 0 && (
+                        <div className="flex gap-2">
+                            <button onClick={() => setAll('current')} className="px-2 py-1 rounded bg-subtle text-primary-text hover:bg-neutral-600">All Current</button>
+                            <button onClick={() => setAll('incoming')} className="px-2 py-1 rounded bg-subtle text-primary-text hover:bg-neutral-600">All Incoming</button>
+                        </div>
+                    )}
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-6 space-y-2">
+                    {plan.items.length === 0 ? (
+                        <p className="text-sm text-muted italic">The imported file has nothing that differs from the current project.</p>
+                    ) : plan.items.map(item => (
+                        <MergeRow key={item.key} item={item} choice={choices[item.key] || 'current'} onChoose={(choice) => setChoices(prev => ({ ...prev, [item.key]: choice }))} />
+                    ))}
+                </div>
+
+                <div className="p-4 border-t border-subtle flex justify-between">
+                    <button onClick={handleReplace} className="px-4 py-2 text-sm font-medium rounded-md bg-red-500/10 text-red-400 hover:bg-red-500/20">Replace Entire Section</button>
+                    <div className="flex gap-2">
+                        <button onClick={cancelPendingMerge} className="px-4 py-2 text-sm font-medium text-primary-text bg-panel rounded-md hover:bg-subtle">Cancel</button>
+                        <button onClick={() => resolvePendingMerge('merge', choices)} className="px-4 py-2 text-sm font-bold text-neutral-900 bg-primary rounded-md hover:bg-slate-200">Apply Merge</button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default MergeImportModal;
@@ -0,0 +1,26 @@
+import React from 'react';
+import { useShowrunnerStore } from '../../store/showrunnerStore';
+import { X, History } from 'lucide-react';
+
+/** Tells the user that edits from an interrupted session were replayed from the autosave journal. */
+const RecoveryNotice: React.FC = () => {
+    const { recoveredChanges, dismissRecoveryNotice } = useShowrunnerStore();
+    if (recoveredChanges === 0) return null;
+
+    return (
+        <div className="fixed bottom-6 right-6 z-50 max-w-sm bg-surface border border-subtle rounded-xl shadow-2xl p-4 flex items-start gap-3">
+            <History size={18} className="text-accent shrink-0 mt-0.5" />
+            <div className="flex-1">
+                <p className="text-sm font-bold text-primary">
+                    Recovered unsaved changes to {recoveredChanges} part{recoveredChanges === 1 ? '' : 's'} of the project
+                </p>
+                <p className="text-xs text-muted mt-1">Your last session closed before these edits were saved. They have been restored.</p>
+            </div>
+            <button onClick={dismissRecoveryNotice} className="p-1 hover:bg-red-500/20 hover:text-red-400 rounded-full transition-colors">
+                <X size={16} />
+            </button>
+        </div>
+    );
+};
+
+export default RecoveryNotice;
@@ -20,8 +20,8 @@ const ReadOnlyScreenplayLine: React.FC<{ item: ScreenplayItem }> = ({ item }) =>
     }
 };
 
-// Editable viewer for the Scriptwriter
-export const EditableScreenplayViewer: React.FC<{ content: ScreenplayItem[], isEditable: boolean, parentItemId: string, sceneId: string }> = ({ content, isEditable, parentItemId, sceneId }) => {
+// Editable viewer for the Scriptwriter. While streaming, lines are appended as the model finishes them.
+export const EditableScreenplayViewer: React.FC<{ content: ScreenplayItem[], isEditable: boolean, isStreaming?: boolean, parentItemId: string, sceneId: string }> = ({ content, isEditable, isStreaming, parentItemId, sceneId }) => {
     const { addScreenplayLine } = useShowrunnerStore.getState();
     return (
         <div className="font-mono text-sm text-primary-text space-y-1">
@@ -35,6 +35,7 @@ export const EditableScreenplayViewer: React.FC<{ content: ScreenplayItem[], isE
                     sceneId={sceneId}
                 />
             ))}
+             {isStreaming && <span className="inline-block w-2 h-4 bg-accent animate-pulse align-middle" />}
              {isEditable && (
                  <div className="mt-4">
                     <button 
@@ -0,0 +1,33 @@
+import React from 'react';
+import { useShowrunnerStore } from '../../store/showrunnerStore';
+import { X, Copy } from 'lucide-react';
+
+/** Warns that another tab edited the same parts of the project at the same time, and whose version was kept. */
+const TabConflictNotice: React.FC = () => {
+    const { tabConflict, dismissTabConflict } = useShowrunnerStore();
+    if (!tabConflict) return null;
+
+    return (
+        <div className="fixed top-6 right-6 z-50 max-w-sm bg-surface border border-yellow-700/60 rounded-xl shadow-2xl p-4 flex items-start gap-3">
+            <Copy size={18} className="text-yellow-400 shrink-0 mt-0.5" />
+            <div className="flex-1">
+                <p className="text-sm font-bold text-primary">This project is being edited in another tab</p>
+                {tabConflict.replaced.length > 0 && (
+                    <p className="text-xs text-muted mt-1">
+                        Both tabs changed <span className="text-primary-text capitalize">{tabConflict.replaced.join(', ')}</span> at once. The other tab's version is now shown here.
+                    </p>
+                )}
+                {tabConflict.kept.length > 0 && (
+                    <p className="text-xs text-muted mt-1">
+                        Both tabs changed <span className="text-primary-text capitalize">{tabConflict.kept.join(', ')}</span> at once. This tab's version was kept in both.
+                    </p>
+                )}
+            </div>
+            <button onClick={dismissTabConflict} className="p-1 hover:bg-red-500/20 hover:text-red-400 rounded-full transition-colors">
+                <X size={16} />
+            </button>
+        </div>
+    );
+};
+
+export default TabConflictNotice;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { useShowrunnerStore } from '../../store/showrunnerStore';
+import { RoutedTask } from '../../types';
+import { ROUTED_TASKS, modelsForTask, getRoute } from '../../services/modelRoutingService';
+
+interface TaskModelSelectProps {
+    task: RoutedTask;
+    id?: string;
+    className?: string;
+    disabled?: boolean;
+}
+
+/** Picks the model a task is routed to in the open project. Fallbacks are edited under Settings > Model Routing. */
+const TaskModelSelect: React.FC<TaskModelSelectProps> = ({ task, id, className, disabled }) => {
+    const { project, listModels, getTaskModels, setModelRoute } = useShowrunnerStore();
+    const models = modelsForTask(listModels(ROUTED_TASKS[task].family), task);
+    const chain = getTaskModels(task);
+
+    const handleChange = (modelId: string) => {
+        const route = getRoute(project?.routing, task);
+        setModelRoute(task, { modelId, fallbacks: route.fallbacks?.filter(fallback => fallback !== modelId) });
+    };
+
+    return (
+        <select
+            id={id}
+            value={chain[0]?.id || ''}
+            onChange={(e) => handleChange(e.target.value)}
+            disabled={disabled || !project}
+            className={className}
+            title={chain.length > 1 ? `${ROUTED_TASKS[task].label}: ${chain.map(m => m.name).join(' → ')}` : ROUTED_TASKS[task].label}
+        >
+            {models.length === 0 && <option value="">No {ROUTED_TASKS[task].family} models. Add one in Settings.</option>}
+            {models.map(model => (
+                <option key={model.id} value={model.id}>
+                    {model.name}{model.provider !== 'google_native' ? ` (${model.provider})` : ''}
+                </option>
+            ))}
+        </select>
+    );
+};
+
+export default TaskModelSelect;
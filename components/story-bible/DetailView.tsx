@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { useShowrunnerStore } from '../../store/showrunnerStore';
-import { Asset, AssetType, Character, Location, Prop, CharacterProfile, GeminiModel } from '../../types';
+import { Asset, AssetType, Character, Location, Prop, CharacterProfile } from '../../types';
 import { ConsistencyBadge } from '../shared/Badges';
 import { AssetAppearances } from '../shared/AssetInfo';
 import { Lock, BrainCircuit, AlertTriangle } from 'lucide-react';
@@ -14,7 +14,6 @@ import { geminiService } from '../../services/geminiService';
 interface DetailViewProps {
   asset: Asset;
   type: AssetType;
-  selectedModel: GeminiModel; // New Prop
 }
 
 const CanonLockToggle: React.FC<{ asset: Asset; type: AssetType }> = ({ asset, type }) => {
@@ -35,8 +34,8 @@ const CanonLockToggle: React.FC<{ asset: Asset; type: AssetType }> = ({ asset, t
 };
 
 
-const DetailView: React.FC<DetailViewProps> = ({ asset, type, selectedModel }) => {
-    const { project, populateCharacterProfile } = useShowrunnerStore();
+const DetailView: React.FC<DetailViewProps> = ({ asset, type }) => {
+    const { project, populateCharacterProfile, getTaskModels } = useShowrunnerStore();
     const [activeTab, setActiveTab] = useState<'Overview' | 'Visuals' | 'Audio' | 'Timeline' | 'Raw Data'>('Overview');
     const [isGenerating, setIsGenerating] = useState(false);
     const [error, setError] = useState<string | null>(null);
@@ -52,8 +51,7 @@ const DetailView: React.FC<DetailViewProps> = ({ asset, type, selectedModel }) =
       setIsGenerating(true);
       setError(null);
       try {
-        // Use the selectedModel passed from props instead of global store model
-        const fullProfile = await geminiService.generateCharacterProfile(asset as Character, project, selectedModel);
+        const fullProfile = await geminiService.generateCharacterProfile(asset as Character, project, getTaskModels('character_profile'));
         populateCharacterProfile(asset.id, fullProfile);
       } catch (err) {
         setError(err instanceof Error ? err.message : "An unknown error occurred.");
@@ -127,7 +125,7 @@ const DetailView: React.FC<DetailViewProps> = ({ asset, type, selectedModel }) =
                       onClick={handleAutoPopulate} 
                       disabled={isGenerating}
                       className="flex items-center gap-2 px-4 py-2 text-sm font-bold text-neutral-900 bg-primary rounded-md hover:bg-slate-200 disabled:bg-neutral-600 disabled:text-neutral-400 disabled:cursor-wait transition-colors"
-                      title={`Auto-populate using ${selectedModel === 'gemini-2.5-flash' ? 'Flash' : 'Pro'}`}
+                      title={`Auto-populate using ${getTaskModels('character_profile')[0]?.name}`}
                     >
                       {isGenerating ? <BrainCircuit className="animate-spin h-5 w-5" /> : <BrainCircuit size={16} />}
                       {isGenerating ? 'Generating Profile...' : 'Auto-Populate with AI'}
@@ -1,35 +1,45 @@
-import React, { useState, useEffect } from 'react';
-import { Scene, Shot, ShotReferenceImage, VideoPromptJSON, GeminiModel, CharacterImage } from '../../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { Scene, Shot, ShotReferenceImage, VideoPromptJSON, CharacterImage } from '../../types';
 import { useShowrunnerStore } from '../../store/showrunnerStore';
 import { geminiService } from '../../services/geminiService';
-import { storeImageInDB } from '../../services/storageService';
+import { modelGateway } from '../../services/modelGateway';
+import { usageContext, findEpisodeForScene } from '../../services/usageLedgerService';
+import { storeImageInDB, storeMediaInDB } from '../../services/storageService';
 import { useImageResolver } from '../../hooks/useImageResolver';
+import { ImageSize } from '../../services/imageUrlCache';
 import { GalleryModal } from '../shared/GalleryModal';
-import { BrainCircuit, Image as ImageIcon, Wand2, UploadCloud, Trash2, X, Film, FileJson, FileText, Maximize2, LayoutGrid, ArrowUpCircle, ArrowDownCircle } from 'lucide-react';
+import TaskModelSelect from '../shared/TaskModelSelect';
+import { BrainCircuit, Image as ImageIcon, Wand2, UploadCloud, Trash2, X, Film, FileJson, FileText, Maximize2, LayoutGrid, ArrowUpCircle, ArrowDownCircle, Square } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
 
 interface DirectorDeckProps {
     shot: Shot;
     scene: Scene;
-    selectedTextModel: GeminiModel;
-    selectedImageModel: 'gemini-2.5-flash-image' | 'gemini-3-pro-image-preview';
     selectedResolution: string;
 }
 
 // Helper to resolve images
-const ResolvedImage: React.FC<{ urlOrId: string | undefined, className?: string }> = ({ urlOrId, className }) => {
-    const src = useImageResolver(urlOrId);
+const ResolvedImage: React.FC<{ urlOrId: string | undefined, className?: string, size?: ImageSize }> = ({ urlOrId, className, size }) => {
+    const src = useImageResolver(urlOrId, size);
     if (!src) return <div className={`bg-neutral-800 animate-pulse ${className}`} />;
     return <img src={src} className={className} alt="Shot Asset" />;
 };
 
-export const DirectorDeck: React.FC<DirectorDeckProps> = ({ shot, scene, selectedTextModel, selectedImageModel, selectedResolution }) => {
-    const { project, updateShot } = useShowrunnerStore();
+const ResolvedVideo: React.FC<{ urlOrId: string, className?: string }> = ({ urlOrId, className }) => {
+    const src = useImageResolver(urlOrId);
+    if (!src) return <div className={`bg-neutral-800 animate-pulse ${className}`} />;
+    return <video src={src} controls className={className} />;
+};
+
+export const DirectorDeck: React.FC<DirectorDeckProps> = ({ shot, scene, selectedResolution }) => {
+    const { project, updateShot, getTaskModels } = useShowrunnerStore();
     const [isWritingPrompt, setIsWritingPrompt] = useState(false);
     const [isDraftingJson, setIsDraftingJson] = useState(false);
     const [isGeneratingImg, setIsGeneratingImg] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [isKeyReady, setIsKeyReady] = useState(false);
+    const imageModels = getTaskModels('image');
+    const imageModel = imageModels[0];
     const [fullScreenImage, setFullScreenImage] = useState<string | null>(null);
     const [isGalleryOpen, setIsGalleryOpen] = useState(false);
     // 'main' for the top area, 'edit' for the editing bay
@@ -47,6 +57,14 @@ export const DirectorDeck: React.FC<DirectorDeckProps> = ({ shot, scene, selecte
     // -- Video State --
     const [videoJsonString, setVideoJsonString] = useState(shot.videoPromptJSON ? JSON.stringify(shot.videoPromptJSON, null, 2) : '');
     const [videoPlan, setVideoPlan] = useState(shot.videoPlan || '');
+    const videoModels = getTaskModels('video');
+    const [isGeneratingVideo, setIsGeneratingVideo] = useState(false);
+    const videoAbortRef = useRef<AbortController | null>(null);
+
+    // The storyboard frame animates into the clip; without one, the first active reference stands in
+    const startFrame = shot.generatedImageUrl || shot.referenceImages?.find(r => r.isActive)?.url;
+
+    useEffect(() => () => videoAbortRef.current?.abort(), []);
 
     // Sync Text Prompt
     useEffect(() => {
@@ -128,7 +146,7 @@ export const DirectorDeck: React.FC<DirectorDeckProps> = ({ shot, scene, selecte
         setIsWritingPrompt(true);
         setError(null);
         try {
-            const resultPrompt = await geminiService.generateShotImagePrompt(scene, shot, project!, selectedTextModel);
+            const resultPrompt = await geminiService.generateShotImagePrompt(scene, shot, project!, getTaskModels('art_prompt'));
             setImagePrompt(resultPrompt);
             updateShot(scene.id, shot.id, { visualPromptText: resultPrompt });
         } catch (err: any) {
@@ -142,7 +160,7 @@ export const DirectorDeck: React.FC<DirectorDeckProps> = ({ shot, scene, selecte
         setIsDraftingJson(true);
         setError(null);
         try {
-            const result = await geminiService.generateShotVideoPrompt(scene, shot, project!, selectedTextModel);
+            const result = await geminiService.generateShotVideoPrompt(scene, shot, project!, getTaskModels('shot_list'));
             setVideoJsonString(JSON.stringify(result.videoJSON, null, 2));
             setVideoPlan(result.videoPlan);
             updateShot(scene.id, shot.id, { videoPromptJSON: result.videoJSON, videoPlan: result.videoPlan });
@@ -153,6 +171,35 @@ export const DirectorDeck: React.FC<DirectorDeckProps> = ({ shot, scene, selecte
         }
     };
 
+    const handleGenerateVideo = async () => {
+        if (videoModels.length === 0) return;
+        let videoJSON: VideoPromptJSON;
+        try {
+            videoJSON = JSON.parse(videoJsonString);
+        } catch (e) {
+            setError("The video JSON is not valid. Fix it or draft a new one.");
+            return;
+        }
+
+        const abortController = new AbortController();
+        videoAbortRef.current = abortController;
+        setIsGeneratingVideo(true);
+        setError(null);
+        try {
+            const blob = await modelGateway.withFallbacks(videoModels, model => modelGateway.generateVideo(videoJSON, model, startFrame, {
+                signal: abortController.signal,
+                usage: usageContext(project!, 'Shot Video', 'The Studio', findEpisodeForScene(project!, scene.id)),
+            }));
+            const id = await storeMediaInDB(blob);
+            updateShot(scene.id, shot.id, { generatedVideoUrl: id, videoPromptJSON: videoJSON });
+        } catch (err: any) {
+            if (!abortController.signal.aborted) setError(err.message);
+        } finally {
+            videoAbortRef.current = null;
+            setIsGeneratingVideo(false);
+        }
+    };
+
     const handleGenerateImage = async () => {
         if (!imagePrompt) return;
         setIsGeneratingImg(true);
@@ -162,7 +209,11 @@ export const DirectorDeck: React.FC<DirectorDeckProps> = ({ shot, scene, selecte
             if (references.filter(r => r.isActive).length > 14) {
                 throw new Error("Too many active reference images. Max 14.");
             }
-            const base64 = await geminiService.generateShotImage(imagePrompt, references, selectedImageModel, selectedResolution); 
+            const base64 = await modelGateway.withFallbacks(imageModels, model => modelGateway.generateVisual(imagePrompt, model, {
+                referenceImages: references,
+                resolution: selectedResolution,
+                usage: usageContext(project!, 'Shot Image', 'The Studio', findEpisodeForScene(project!, scene.id)),
+            }));
             const dataUrl = `data:image/png;base64,${base64}`;
             const id = await storeImageInDB(dataUrl);
             const newHistory = [{ id: uuidv4(), url: id, timestamp: Date.now() }, ...(shot.imageHistory || [])];
@@ -186,7 +237,11 @@ export const DirectorDeck: React.FC<DirectorDeckProps> = ({ shot, scene, selecte
              if (editReferences.filter(r => r.isActive).length > 14) {
                 throw new Error("Too many active references in editing bay.");
             }
-            const base64 = await geminiService.generateShotImage(editPrompt, editReferences, selectedImageModel, selectedResolution);
+            const base64 = await modelGateway.withFallbacks(imageModels, model => modelGateway.generateVisual(editPrompt, model, {
+                referenceImages: editReferences,
+                resolution: selectedResolution,
+                usage: usageContext(project!, 'Shot Edit', 'The Studio', findEpisodeForScene(project!, scene.id)),
+            }));
             const dataUrl = `data:image/png;base64,${base64}`;
             const id = await storeImageInDB(dataUrl);
             setEditImageId(id);
@@ -354,9 +409,9 @@ export const DirectorDeck: React.FC<DirectorDeckProps> = ({ shot, scene, selecte
                             <h4 className="text-xs font-bold text-muted flex items-center gap-2"><ImageIcon size={14}/> VISUAL CONCEPTION (STEP 1)</h4>
                              <div className="flex items-center gap-1 opacity-70">
                                  <span className="text-[10px] bg-neutral-800 px-1.5 py-0.5 rounded border border-subtle">
-                                    Img: {selectedImageModel === 'gemini-2.5-flash-image' ? 'Flash' : 'Pro'}
+                                    Img: {imageModel?.name}
                                  </span>
-                                 {selectedImageModel === 'gemini-3-pro-image-preview' && (
+                                 {imageModel?.id !== 'gemini-2.5-flash-image' && (
                                     <span className="text-[10px] bg-neutral-800 px-1.5 py-0.5 rounded border border-subtle">
                                         {selectedResolution}
                                     </span>
@@ -416,7 +471,7 @@ export const DirectorDeck: React.FC<DirectorDeckProps> = ({ shot, scene, selecte
                                  <div className="flex gap-2 overflow-x-auto pb-2 scrollbar-hide">
                                     {(shot.imageHistory || []).map(img => (
                                         <div key={img.id} onClick={() => updateShot(scene.id, shot.id, { generatedImageUrl: img.url })} className="w-10 h-10 flex-shrink-0 rounded border border-subtle overflow-hidden cursor-pointer hover:border-accent">
-                                            <ResolvedImage urlOrId={img.url} className="w-full h-full object-cover" />
+                                            <ResolvedImage size="thumbnail" urlOrId={img.url} className="w-full h-full object-cover" />
                                         </div>
                                     ))}
                                 </div>
@@ -431,7 +486,7 @@ export const DirectorDeck: React.FC<DirectorDeckProps> = ({ shot, scene, selecte
                                     onClick={handleAutoWritePrompt} 
                                     disabled={isWritingPrompt} 
                                     className="text-[10px] flex items-center gap-1 text-accent hover:underline"
-                                    title={`Auto-write using ${selectedTextModel}`}
+                                    title={`Auto-write using ${getTaskModels('art_prompt')[0]?.name}`}
                                 >
                                     {isWritingPrompt ? <BrainCircuit className="w-3 h-3 animate-spin"/> : <Wand2 size={10}/>} Auto-Write
                                 </button>
@@ -447,10 +502,10 @@ export const DirectorDeck: React.FC<DirectorDeckProps> = ({ shot, scene, selecte
                         {/* Generate Button */}
                         <button 
                             onClick={handleGenerateImage} 
-                            disabled={isGeneratingImg || !imagePrompt || (!isKeyReady && selectedImageModel === 'gemini-3-pro-image-preview') || activeRefsMain > 14} 
+                            disabled={isGeneratingImg || !imagePrompt || (!isKeyReady && imageModel?.id === 'gemini-3-pro-image-preview') || activeRefsMain > 14} 
                             className="w-full py-2 bg-primary text-black font-bold text-xs rounded hover:bg-white disabled:bg-neutral-700 disabled:text-neutral-500 mb-6"
                         >
-                            {isGeneratingImg ? 'Generating...' : `Generate Image (${selectedImageModel === 'gemini-2.5-flash-image' ? 'Flash' : 'Pro'})`}
+                            {isGeneratingImg ? 'Generating...' : `Generate Image (${imageModel?.name})`}
                         </button>
 
                         {/* References (Main) - Updated UI */}
@@ -470,7 +525,7 @@ export const DirectorDeck: React.FC<DirectorDeckProps> = ({ shot, scene, selecte
                             <div className="grid grid-cols-6 gap-2 min-h-[40px]" onDragOver={(e) => e.preventDefault()} onDrop={(e) => handleDropReference(e, 'main')}>
                                 {(shot.referenceImages || []).map(ref => (
                                     <div key={ref.id} className={`aspect-square relative rounded border overflow-hidden group ${ref.isActive ? 'border-accent' : 'border-subtle opacity-50 grayscale'}`}>
-                                        <ResolvedImage urlOrId={ref.url} className="w-full h-full object-cover" />
+                                        <ResolvedImage size="thumbnail" urlOrId={ref.url} className="w-full h-full object-cover" />
                                         <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center cursor-pointer" onClick={() => toggleRef('main', ref.id)}>
                                              <button onClick={(e) => deleteRef(e, 'main', ref.id)} className="absolute top-0.5 right-0.5 text-white hover:text-red-400"><X size={10}/></button>
                                         </div>
@@ -575,7 +630,7 @@ export const DirectorDeck: React.FC<DirectorDeckProps> = ({ shot, scene, selecte
                             <div className="grid grid-cols-6 gap-2 min-h-[40px]" onDragOver={(e) => e.preventDefault()} onDrop={(e) => handleDropReference(e, 'edit')}>
                                 {editReferences.map(ref => (
                                     <div key={ref.id} className={`aspect-square relative rounded border overflow-hidden group ${ref.isActive ? 'border-accent' : 'border-subtle opacity-50 grayscale'}`}>
-                                        <ResolvedImage urlOrId={ref.url} className="w-full h-full object-cover" />
+                                        <ResolvedImage size="thumbnail" urlOrId={ref.url} className="w-full h-full object-cover" />
                                         <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center cursor-pointer" onClick={() => toggleRef('edit', ref.id)}>
                                              <button onClick={(e) => deleteRef(e, 'edit', ref.id)} className="absolute top-0.5 right-0.5 text-white hover:text-red-400"><X size={10}/></button>
                                         </div>
@@ -599,7 +654,7 @@ export const DirectorDeck: React.FC<DirectorDeckProps> = ({ shot, scene, selecte
                     
                     <div className="aspect-video bg-black rounded-lg border border-subtle mb-3 flex items-center justify-center text-muted relative">
                          {shot.generatedVideoUrl ? (
-                             <video src={shot.generatedVideoUrl} controls className="w-full h-full" />
+                             <ResolvedVideo key={shot.generatedVideoUrl} urlOrId={shot.generatedVideoUrl} className="w-full h-full" />
                          ) : (
                              <div className="text-center">
                                  <Film className="w-8 h-8 mx-auto mb-2 opacity-20"/>
@@ -608,7 +663,7 @@ export const DirectorDeck: React.FC<DirectorDeckProps> = ({ shot, scene, selecte
                          )}
                          {shot.generatedImageUrl && (
                              <div className="absolute bottom-2 right-2 w-16 h-9 border border-white/20 rounded overflow-hidden shadow-lg">
-                                 <ResolvedImage urlOrId={shot.generatedImageUrl} className="w-full h-full object-cover opacity-80" />
+                                 <ResolvedImage size="thumbnail" urlOrId={shot.generatedImageUrl} className="w-full h-full object-cover opacity-80" />
                              </div>
                          )}
                     </div>
@@ -620,7 +675,7 @@ export const DirectorDeck: React.FC<DirectorDeckProps> = ({ shot, scene, selecte
                                 onClick={handleDraftVideoJson} 
                                 disabled={isDraftingJson} 
                                 className="text-[10px] flex items-center gap-1 text-accent hover:underline"
-                                title={`Draft using ${selectedTextModel}`}
+                                title={`Draft using ${getTaskModels('shot_list')[0]?.name}`}
                             >
                                 {isDraftingJson ? <BrainCircuit className="w-3 h-3 animate-spin"/> : <FileJson size={10}/>} Draft Video JSON
                             </button>
@@ -643,10 +698,27 @@ export const DirectorDeck: React.FC<DirectorDeckProps> = ({ shot, scene, selecte
                         />
                     </div>
 
-                    <button disabled className="w-full py-2 bg-neutral-700 text-neutral-400 font-bold text-xs rounded cursor-not-allowed">
-                        Generate Video (Veo 3.1) - Coming Soon
-                    </button>
-                    <p className="text-[9px] text-muted text-center mt-2">Requires Veo access. Input Image will be used as the starting frame.</p>
+                    <TaskModelSelect
+                        task="video"
+                        disabled={isGeneratingVideo}
+                        className="w-full bg-neutral-900 border-subtle rounded p-1.5 text-xs text-primary-text mb-2"
+                    />
+                    {isGeneratingVideo ? (
+                        <button onClick={() => videoAbortRef.current?.abort()} className="w-full py-2 bg-red-900/40 border border-red-800/60 text-red-300 font-bold text-xs rounded flex items-center justify-center gap-2 hover:bg-red-900/60">
+                            <Film className="w-3 h-3 animate-pulse"/> Rendering... <Square size={10} className="ml-1"/> Cancel
+                        </button>
+                    ) : (
+                        <button
+                            onClick={handleGenerateVideo}
+                            disabled={videoModels.length === 0 || !videoJsonString}
+                            className="w-full py-2 bg-primary text-neutral-900 font-bold text-xs rounded hover:bg-slate-200 disabled:bg-neutral-700 disabled:text-neutral-400 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                        >
+                            <Film size={12}/> {shot.generatedVideoUrl ? 'Regenerate Video' : 'Generate Video'}
+                        </button>
+                    )}
+                    <p className="text-[9px] text-muted text-center mt-2">
+                        {shot.generatedImageUrl ? 'The Conception image is used as the starting frame.' : startFrame ? 'The first active reference is used as the starting frame.' : 'No start frame: the clip is generated from text only.'} Rendering can take several minutes.
+                    </p>
                 </div>
 
             </div>
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { getImageFromDB } from '../services/storageService';
+import { acquireImageUrl, releaseImageUrl, ImageSize } from '../services/imageUrlCache';
 
 // Transparent 1x1 pixel base64 to prevent broken image icons
 const FALLBACK_IMAGE = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
@@ -7,8 +7,9 @@ const FALLBACK_IMAGE = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCA
 /**
  * Hook to resolve an image ID (prefixed with 'img_') to a Blob URL.
  * If the input is already a data URI or http URL, it returns it as is.
+ * Pass size 'thumbnail' in grids and lists; object URLs are shared and cached across components.
  */
-export const useImageResolver = (urlOrId: string | undefined) => {
+export const useImageResolver = (urlOrId: string | undefined, size: ImageSize = 'original') => {
     const [resolvedUrl, setResolvedUrl] = useState<string | undefined>(urlOrId);
 
     useEffect(() => {
@@ -20,14 +21,17 @@ export const useImageResolver = (urlOrId: string | undefined) => {
         // If it's a UUID reference
         if (urlOrId.startsWith('img_')) {
             let active = true;
-            let objectUrl: string | null = null;
+            let acquired = false;
 
             const fetchImage = async () => {
                 try {
-                    const blob = await getImageFromDB(urlOrId);
-                    if (blob && active) {
-                        objectUrl = URL.createObjectURL(blob);
-                        setResolvedUrl(objectUrl);
+                    const url = await acquireImageUrl(urlOrId, size);
+                    if (url && !active) {
+                        // Unmounted while loading; give the reference straight back
+                        releaseImageUrl(urlOrId, size);
+                    } else if (url) {
+                        acquired = true;
+                        setResolvedUrl(url);
                     } else if (active) {
                         // Image missing in DB. Use fallback to prevent UI crash.
                         // We log a warning only once per session ideally, but for now standard console warn is fine.
@@ -44,13 +48,13 @@ export const useImageResolver = (urlOrId: string | undefined) => {
 
             return () => {
                 active = false;
-                if (objectUrl) URL.revokeObjectURL(objectUrl);
+                if (acquired) releaseImageUrl(urlOrId, size);
             };
         } else {
             // It's a standard URL or data URI
             setResolvedUrl(urlOrId);
         }
-    }, [urlOrId]);
+    }, [urlOrId, size]);
 
     return resolvedUrl;
 };
\ No newline at end of file
@@ -1,22 +1,27 @@
 import React, { useState, useEffect } from 'react';
 import { useShowrunnerStore } from '../store/showrunnerStore';
-import { Character, Location, Prop, AssetType, Asset, GeminiModel, ShotReferenceImage } from '../types';
+import { Character, Location, Prop, AssetType, Asset, ShotReferenceImage } from '../types';
 import { geminiService } from '../services/geminiService';
+import { modelGateway } from '../services/modelGateway';
+import { usageContext } from '../services/usageLedgerService';
 import { storeImageInDB, saveArtDept } from '../services/storageService';
+import EncryptedExportButton from '../components/shared/EncryptedExportButton';
+import TaskModelSelect from '../components/shared/TaskModelSelect';
 import { useImageResolver } from '../hooks/useImageResolver';
+import { ImageSize } from '../services/imageUrlCache';
 import { GalleryModal } from '../components/shared/GalleryModal';
 import { Download, UploadCloud, X, History, BrainCircuit, Sparkles, User, MapPin, Package, Wand2, Archive, Folder, FolderOpen, CopyPlus, LayoutGrid, Maximize2, Upload } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
 
 // Helper component to display resolved images
-const ResolvedImage: React.FC<{ urlOrId: string | undefined, className?: string }> = ({ urlOrId, className }) => {
-    const src = useImageResolver(urlOrId);
+const ResolvedImage: React.FC<{ urlOrId: string | undefined, className?: string, size?: ImageSize }> = ({ urlOrId, className, size }) => {
+    const src = useImageResolver(urlOrId, size);
     if (!src) return <div className={`bg-neutral-800 animate-pulse ${className}`} />;
     return <img src={src} className={className} alt="Asset" />;
 };
 
 const ArtDept: React.FC = () => {
-    const { project, updateCharacter, updateLocation, updateProp, importArtDept } = useShowrunnerStore();
+    const { project, updateCharacter, updateLocation, updateProp, importArtDept, getTaskModels } = useShowrunnerStore();
     const [selectedAsset, setSelectedAsset] = useState<{ id: string; type: AssetType } | null>(null);
     const [isGenerating, setIsGenerating] = useState(false);
     const [isWritingPrompt, setIsWritingPrompt] = useState(false);
@@ -25,8 +30,7 @@ const ArtDept: React.FC = () => {
     const [fullScreenImage, setFullScreenImage] = useState<string | null>(null);
     
     // --- PAGE LEVEL CONTROLS ---
-    const [selectedTextModel, setSelectedTextModel] = useState<GeminiModel>('gemini-2.5-flash');
-    const [selectedImageModel, setSelectedImageModel] = useState<'gemini-2.5-flash-image' | 'gemini-3-pro-image-preview'>('gemini-3-pro-image-preview');
+    const imageModel = getTaskModels('image')[0];
     const [selectedResolution, setSelectedResolution] = useState<string>('1K');
 
     // Collapsible states
@@ -86,7 +90,7 @@ const ArtDept: React.FC = () => {
         if (!activeAsset) return;
         setIsWritingPrompt(true);
         try {
-            const generatedPrompt = await geminiService.generateAssetArtPrompt(activeAsset, project, selectedTextModel);
+            const generatedPrompt = await geminiService.generateAssetArtPrompt(activeAsset, project, getTaskModels('art_prompt'));
             setLocalPrompt(generatedPrompt);
             handleUpdate({ visualPrompt: generatedPrompt });
         } catch (e) {
@@ -122,7 +126,11 @@ const ArtDept: React.FC = () => {
                 name: 'Reference'
             }));
 
-            const base64 = await geminiService.generateVisual(promptToUse, selectedImageModel, selectedResolution, refsForService);
+            const base64 = await modelGateway.withFallbacks(getTaskModels('image'), model => modelGateway.generateVisual(promptToUse, model, {
+                referenceImages: refsForService,
+                resolution: selectedResolution,
+                usage: usageContext(project, 'Asset Image', 'Art Dept'),
+            }));
             const dataUrl = `data:image/png;base64,${base64}`;
             await processAndStoreImage(dataUrl);
         } catch (e) {
@@ -208,35 +216,27 @@ const ArtDept: React.FC = () => {
                         <div className="px-2 text-xs font-bold text-muted uppercase tracking-wider flex items-center gap-1">
                             <Wand2 size={12}/> Writer:
                         </div>
-                        <select 
-                            value={selectedTextModel}
-                            onChange={(e) => setSelectedTextModel(e.target.value as GeminiModel)}
+                        <TaskModelSelect
+                            task="art_prompt"
                             className="bg-panel border-subtle rounded-md text-xs text-primary-text p-1.5 focus:ring-accent focus:border-accent min-w-[140px]"
-                        >
-                            <option value="gemini-2.5-flash">Gemini 2.5 Flash</option>
-                            <option value="gemini-3-pro-preview">Gemini 3.0 Pro</option>
-                        </select>
+                        />
                     </div>
 
                     <div className="flex items-center gap-2 bg-surface p-1.5 rounded-lg border border-subtle">
                          <div className="px-2 text-xs font-bold text-muted uppercase tracking-wider flex items-center gap-1">
                             <Sparkles size={12}/> Artist:
                          </div>
-                         <select 
-                            value={selectedImageModel}
-                            onChange={(e) => setSelectedImageModel(e.target.value as any)}
+                         <TaskModelSelect
+                            task="image"
                             className="bg-panel border-subtle rounded-md text-xs text-primary-text p-1.5 focus:ring-accent focus:border-accent min-w-[140px]"
-                         >
-                             <option value="gemini-2.5-flash-image">Gemini 2.5 Flash</option>
-                             <option value="gemini-3-pro-image-preview">Gemini 3.0 Pro</option>
-                         </select>
+                         />
 
                          <select
                             value={selectedResolution}
                             onChange={(e) => setSelectedResolution(e.target.value)}
-                            disabled={selectedImageModel !== 'gemini-3-pro-image-preview'}
+                            disabled={imageModel?.id === 'gemini-2.5-flash-image'}
                             className="bg-panel border-subtle rounded-md text-xs text-primary-text p-1.5 focus:ring-accent focus:border-accent disabled:opacity-50 disabled:cursor-not-allowed min-w-[80px]"
-                            title="Resolution (Pro model only)"
+                            title="Resolution (not available on Gemini 2.5 Flash)"
                          >
                              <option value="1K">1K</option>
                              <option value="2K">2K</option>
@@ -252,6 +252,7 @@ const ArtDept: React.FC = () => {
                         >
                             <Download size={14} /> Save .artdept
                         </button>
+                        <EncryptedExportButton onExport={(passphrase) => saveArtDept(project, passphrase)} />
                         <button 
                             onClick={importArtDept} 
                             className="flex items-center gap-2 px-3 py-2 text-xs font-semibold bg-panel text-primary-text rounded-md hover:bg-subtle"
@@ -403,7 +404,7 @@ const ArtDept: React.FC = () => {
                                         className="flex items-center gap-1 text-[10px] bg-subtle hover:bg-neutral-600 px-2 py-1 rounded text-accent disabled:opacity-50"
                                     >
                                         {isWritingPrompt ? <BrainCircuit className="animate-spin w-3 h-3"/> : <Wand2 size={12}/>}
-                                        Auto-Write (Uses {selectedTextModel === 'gemini-2.5-flash' ? 'Flash' : 'Pro'})
+                                        Auto-Write (Uses {getTaskModels('art_prompt')[0]?.name})
                                     </button>
                                 </div>
                                 <textarea 
@@ -415,7 +416,7 @@ const ArtDept: React.FC = () => {
                             </div>
 
                             <button onClick={handleGenerate} disabled={isGenerating} className="w-full py-3 bg-primary text-neutral-900 font-bold rounded-lg mb-6 hover:bg-slate-200 disabled:opacity-50">
-                                {isGenerating ? 'Generating...' : `Generate with ${selectedImageModel === 'gemini-2.5-flash-image' ? 'Flash' : 'Pro'}`}
+                                {isGenerating ? 'Generating...' : `Generate with ${imageModel?.name}`}
                             </button>
 
                             {imageHistory.length > 0 && (
@@ -428,7 +429,7 @@ const ArtDept: React.FC = () => {
                                                 onClick={() => handleUpdate({ generatedImageUrl: img.url })}
                                                 className="w-12 h-12 flex-shrink-0 rounded border border-subtle overflow-hidden cursor-pointer hover:border-accent"
                                             >
-                                                <ResolvedImage urlOrId={img.url} className="w-full h-full object-cover" />
+                                                <ResolvedImage size="thumbnail" urlOrId={img.url} className="w-full h-full object-cover" />
                                             </div>
                                         ))}
                                     </div>
@@ -452,7 +453,7 @@ const ArtDept: React.FC = () => {
                                 >
                                     {referenceImages.map((id, idx) => (
                                         <div key={idx} className="aspect-square rounded border border-subtle overflow-hidden relative group">
-                                            <ResolvedImage urlOrId={id} className="w-full h-full object-cover" />
+                                            <ResolvedImage size="thumbnail" urlOrId={id} className="w-full h-full object-cover" />
                                             <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
                                                 <button onClick={() => removeReference(idx)} className="text-white hover:text-red-400"><X size={12}/></button>
                                             </div>
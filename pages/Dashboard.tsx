@@ -2,7 +2,12 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useShowrunnerStore } from '../store/showrunnerStore';
 import ProjectWizard from '../components/dashboard/ProjectWizard';
-import { Edit3, FilePlus, FolderOpen } from 'lucide-react';
+import ProjectLibrary from '../components/dashboard/ProjectLibrary';
+import CheckpointPanel from '../components/dashboard/CheckpointPanel';
+import UsagePanel from '../components/dashboard/UsagePanel';
+import { StorageQuotaBanner } from '../components/settings/StorageUsagePanel';
+import { saveProjectFolder } from '../services/storageService';
+import { Edit3, FilePlus, FolderOpen, FolderTree } from 'lucide-react';
 
 const Dashboard: React.FC = () => {
   const { project, closeProject, updateProjectName, importProject } = useShowrunnerStore();
@@ -34,6 +39,7 @@ const Dashboard: React.FC = () => {
   if (project) {
     return (
       <div className="text-primary-text">
+        <StorageQuotaBanner />
         <div className="flex items-center gap-4 mb-2">
             {isEditingName ? (
                 <input
@@ -65,9 +71,23 @@ const Dashboard: React.FC = () => {
             <p><strong className="text-muted">Aspect Ratio:</strong> {project.format.aspectRatio}</p>
           </div>
         </div>
-        <button onClick={closeProject} className="mt-8 px-4 py-2 text-sm font-medium text-primary-text bg-panel rounded-md hover:bg-subtle">
-            Close Project
-        </button>
+        <div className="mt-8 flex gap-2">
+          <button onClick={closeProject} className="px-4 py-2 text-sm font-medium text-primary-text bg-panel rounded-md hover:bg-subtle">
+              Close Project
+          </button>
+          <button onClick={() => saveProjectFolder(project)} className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-primary-text bg-panel rounded-md hover:bg-subtle" title="Scripts as Fountain, assets and shot lists as JSON, for version control">
+              <FolderTree size={14} /> Export as Folder
+          </button>
+        </div>
+        <div className="mt-8">
+          <UsagePanel />
+        </div>
+        <div className="mt-8">
+          <CheckpointPanel />
+        </div>
+        <div className="mt-8">
+          <ProjectLibrary />
+        </div>
       </div>
     );
   }
@@ -75,20 +95,29 @@ const Dashboard: React.FC = () => {
   return (
     <>
       <div>
+        <StorageQuotaBanner />
         <h1 className="text-4xl font-black text-primary mb-2">Showrunner AI</h1>
         <p className="text-muted max-w-2xl mb-12">The local-first operating system for media production. Create, manage, and produce your next big idea.</p>
 
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
           <button onClick={() => setIsWizardOpen(true)} className="bg-surface border border-subtle rounded-xl p-6 text-left hover:border-accent transition-all duration-200 group">
             <FilePlus className="w-8 h-8 mb-4 text-muted group-hover:text-accent" />
             <h2 className="text-xl font-bold text-primary mb-2">Create New Project</h2>
             <p className="text-muted">Start from scratch with a guided setup for your film or series.</p>
           </button>
-          <button onClick={importProject} className="bg-surface border border-subtle rounded-xl p-6 text-left hover:border-accent transition-all duration-200 group">
+          <button onClick={() => importProject()} className="bg-surface border border-subtle rounded-xl p-6 text-left hover:border-accent transition-all duration-200 group">
             <FolderOpen className="w-8 h-8 mb-4 text-muted group-hover:text-accent" />
             <h2 className="text-xl font-bold text-primary mb-2">Open Project File</h2>
             <p className="text-muted">Load a `.showrunner` file to continue your work.</p>
           </button>
+          <button onClick={() => importProject(true)} className="bg-surface border border-subtle rounded-xl p-6 text-left hover:border-accent transition-all duration-200 group">
+            <FolderTree className="w-8 h-8 mb-4 text-muted group-hover:text-accent" />
+            <h2 className="text-xl font-bold text-primary mb-2">Open Project Folder</h2>
+            <p className="text-muted">Load an unzipped folder export, e.g. from a git repository.</p>
+          </button>
+        </div>
+        <div className="mt-8">
+          <ProjectLibrary />
         </div>
       </div>
       {isWizardOpen && <ProjectWizard onClose={() => setIsWizardOpen(false)} />}
@@ -1,31 +1,32 @@
 
 import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { useShowrunnerStore } from '../store/showrunnerStore';
-import { Episode, Act, Scene, GeminiModel, SceneAssets, Season, Sequel, ContinuityBrief, SceneHistoryEntry } from '../types';
-import { saveScript, saveContinuityBrief, loadContinuityBrief } from '../services/storageService';
+import { Episode, Act, Scene, SceneAssets, Season, Sequel, ContinuityBrief, SceneHistoryEntry, ScreenplayItem, RoutedTask } from '../types';
+import { saveScript, saveContinuityBrief, loadContinuityBrief, saveEpisodePackage } from '../services/storageService';
+import EncryptedExportButton from '../components/shared/EncryptedExportButton';
+import TaskModelSelect from '../components/shared/TaskModelSelect';
+import { ROUTED_TASKS } from '../services/modelRoutingService';
 import { geminiService } from '../services/geminiService';
 import { EditableScreenplayViewer } from '../components/shared/Screenplay';
-import { Download, Upload, Feather, BrainCircuit, RefreshCw, BotMessageSquare, User, MapPin, Package, AlertTriangle, Lock, Unlock, PlusCircle, BookLock, Sparkles, Wand2, Trash2, CheckCircle, ScanSearch, Check, Clock, Copy, LayoutGrid, RotateCcw, History, AlertOctagon, RotateCw, ReplyAll } from 'lucide-react';
+import { Download, Upload, Feather, BrainCircuit, RefreshCw, BotMessageSquare, User, MapPin, Package, AlertTriangle, Lock, Unlock, PlusCircle, BookLock, Sparkles, Wand2, Trash2, CheckCircle, ScanSearch, Check, Clock, Copy, LayoutGrid, RotateCcw, History, AlertOctagon, RotateCw, ReplyAll, Square } from 'lucide-react';
 
 const delay = (ms: number) => new Promise(res => setTimeout(res, ms));
 
-const GlobalModelSelector: React.FC = () => {
-    const { generationModel, setGenerationModel } = useShowrunnerStore();
-    return (
-        <div className="w-full max-w-xs">
-            <label htmlFor="model-select" className="block text-sm font-medium text-primary-text mb-1">AI Model</label>
-            <select
-                id="model-select"
-                value={generationModel}
-                onChange={(e) => setGenerationModel(e.target.value as GeminiModel)}
-                className="w-full bg-neutral-700 border-subtle rounded-md p-2 text-sm text-primary-text focus:ring-accent focus:border-accent"
-            >
-                <option value="gemini-3-pro-preview">Gemini 3.0 Pro (Complex/Reasoning)</option>
-                <option value="gemini-2.5-flash">Gemini 2.5 Flash (Standard)</option>
-            </select>
-        </div>
-    );
-};
+// The models this stage writes with; fallbacks are set under Settings > Model Routing
+const StageModelSelectors: React.FC<{ tasks: RoutedTask[] }> = ({ tasks }) => (
+    <div className="flex flex-wrap gap-4">
+        {tasks.map(task => (
+            <div key={task} className="w-full max-w-xs">
+                <label htmlFor={`model-select-${task}`} className="block text-sm font-medium text-primary-text mb-1">{ROUTED_TASKS[task].label} Model</label>
+                <TaskModelSelect
+                    id={`model-select-${task}`}
+                    task={task}
+                    className="w-full bg-neutral-700 border-subtle rounded-md p-2 text-sm text-primary-text focus:ring-accent focus:border-accent"
+                />
+            </div>
+        ))}
+    </div>
+);
 
 
 const Scriptwriter: React.FC = () => {
@@ -45,6 +46,7 @@ const Scriptwriter: React.FC = () => {
                     <button onClick={() => project && saveScript(project)} disabled={!project.script} className="flex items-center gap-2 px-3 py-2 text-xs font-semibold bg-panel text-primary-text rounded-md hover:bg-subtle transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
                         <Download size={14} /> Save .script
                     </button>
+                    <EncryptedExportButton onExport={(passphrase) => saveScript(project, passphrase)} disabled={!project.script} />
                     <button onClick={importScript} className="flex items-center gap-2 px-3 py-2 text-xs font-semibold bg-panel text-primary-text rounded-md hover:bg-subtle transition-colors">
                         <Upload size={14} /> Load .script
                     </button>
@@ -56,7 +58,7 @@ const Scriptwriter: React.FC = () => {
 };
 
 const GenesisWorkflow: React.FC = () => {
-    const { project, updateSynopsis, setGeneratedStructure, generationModel } = useShowrunnerStore();
+    const { project, updateSynopsis, setGeneratedStructure, getTaskModels } = useShowrunnerStore();
     const [loading, setLoading] = useState<null | 'synopsis' | 'structure'>(null);
     const [error, setError] = useState<string | null>(null);
 
@@ -111,7 +113,7 @@ const GenesisWorkflow: React.FC = () => {
         setLoading('synopsis');
         setError(null);
         try {
-            const newSynopsis = await geminiService.generateSynopsis(project, generationModel);
+            const newSynopsis = await geminiService.generateSynopsis(project, getTaskModels('synopsis'));
             if (!newSynopsis) throw new Error("The AI returned an empty synopsis.");
             handleSynopsisChange(newSynopsis);
         } catch (err) {
@@ -125,7 +127,7 @@ const GenesisWorkflow: React.FC = () => {
         setLoading('structure');
         setError(null);
         try {
-            const newStructure = await geminiService.generateInitialStructure(project, generationModel);
+            const newStructure = await geminiService.generateInitialStructure(project, getTaskModels('structure'));
             if (!newStructure || newStructure.length === 0) throw new Error("The AI failed to generate a script structure.");
             setGeneratedStructure(newStructure);
         } catch (err) {
@@ -141,7 +143,7 @@ const GenesisWorkflow: React.FC = () => {
                 Welcome to the Scriptwriter. First, let's create the narrative foundation for your project.
             </p>
             <div className="mb-8">
-                <GlobalModelSelector />
+                <StageModelSelectors tasks={['synopsis', 'structure']} />
             </div>
 
             {error && (
@@ -267,7 +269,7 @@ const ScriptEditor: React.FC = () => {
 
     return (
         <div className="mt-8">
-            <GlobalModelSelector />
+            <StageModelSelectors tasks={['scene_breakdown', 'screenplay', 'asset_analysis']} />
             <div className="flex border-b border-subtle mt-4 items-center overflow-x-auto">
                 {items.map(item => {
                      const title = isEpisodic ? `Season ${(item as Season).seasonNumber}` : `Part ${(item as Sequel).partNumber}`;
@@ -313,7 +315,7 @@ const ScriptEditor: React.FC = () => {
 };
 
 const InstallmentView: React.FC<{ installment: Season | Sequel, allInstallments: (Season[] | Sequel[]) }> = ({ installment, allInstallments }) => {
-    const { project, toggleInstallmentLock, generationModel, updateContinuityBrief, addEpisodeToSeason, addActToSequel, updateContinuityBrief: updateBriefInStore } = useShowrunnerStore();
+    const { project, toggleInstallmentLock, getTaskModels, updateContinuityBrief, addEpisodeToSeason, addActToSequel, importEpisodePackage, updateContinuityBrief: updateBriefInStore } = useShowrunnerStore();
     const [isLoading, setIsLoading] = useState<{brief?: boolean, newItem?: boolean}>({});
     const [error, setError] = useState<{brief?: string, newItem?: string}>({});
 
@@ -343,7 +345,7 @@ const InstallmentView: React.FC<{ installment: Season | Sequel, allInstallments:
         setIsLoading(prev => ({...prev, brief: true}));
         setError(prev => ({...prev, brief: undefined}));
         try {
-            const briefData = await geminiService.generateContinuityBrief(installment, project, generationModel);
+            const briefData = await geminiService.generateContinuityBrief(installment, project, getTaskModels('structure'));
             updateContinuityBrief(installment.id, briefData);
         } catch (err: any) {
             setError(prev => ({...prev, brief: err.message}));
@@ -384,9 +386,14 @@ const InstallmentView: React.FC<{ installment: Season | Sequel, allInstallments:
                      <h2 className="text-2xl font-black text-primary">{installment.title}</h2>
                      <p className="text-sm text-muted">{isEpisodic ? installment.logline : installment.summary}</p>
                 </div>
-                <button onClick={() => toggleInstallmentLock(installment.id)} className={`flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-lg transition-colors ${installment.isLocked ? 'bg-red-500/10 text-red-400 hover:bg-red-500/20' : 'bg-green-500/10 text-green-400 hover:bg-green-500/20'}`}>
-                    {installment.isLocked ? <><Lock size={14} /> Locked</> : <><Unlock size={14} /> Unlocked</>}
-                </button>
+                <div className="flex items-center gap-2">
+                    <button onClick={() => importEpisodePackage(installment.id)} disabled={installment.isLocked} title={`Import a single ${isEpisodic ? 'episode' : 'act'} package`} className="flex items-center gap-2 px-3 py-2 text-xs font-semibold bg-panel text-primary-text rounded-md hover:bg-subtle transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+                        <Upload size={14} /> Import {isEpisodic ? 'Episode' : 'Act'}
+                    </button>
+                    <button onClick={() => toggleInstallmentLock(installment.id)} className={`flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-lg transition-colors ${installment.isLocked ? 'bg-red-500/10 text-red-400 hover:bg-red-500/20' : 'bg-green-500/10 text-green-400 hover:bg-green-500/20'}`}>
+                        {installment.isLocked ? <><Lock size={14} /> Locked</> : <><Unlock size={14} /> Unlocked</>}
+                    </button>
+                </div>
             </div>
 
             {/* Continuity Brief */}
@@ -453,7 +460,7 @@ interface EpisodeActCardProps {
 
 const EpisodeActCard: React.FC<EpisodeActCardProps> = ({ item, parentInstallment, isParentLocked }) => {
     const { 
-        project, generationModel, setAllScreenplaysForItem, setAnalyzedAssets,
+        project, getTaskModels, setAllScreenplaysForItem, setAnalyzedAssets,
         setScenesForItem, updateEpisode, updateAct, deleteEpisodeFromSeason, deleteActFromSequel,
         updateSceneSummary, lockSceneSummaries, toggleSceneContentLock, approveEpisodeActScreenplay,
         addScene, deleteScene, reorderScenes, revertSceneHistory, revertToInitial,
@@ -464,6 +471,8 @@ const EpisodeActCard: React.FC<EpisodeActCardProps> = ({ item, parentInstallment
     const [isWriting, setIsWriting] = useState(false);
     const [writingStatus, setWritingStatus] = useState<string | null>(null);
     const [writingError, setWritingError] = useState<string|null>(null);
+    const [streamingScene, setStreamingScene] = useState<{ sceneId: string; lines: ScreenplayItem[] } | null>(null);
+    const writeAbortRef = useRef<AbortController | null>(null);
     const [isGeneratingScenes, setIsGeneratingScenes] = useState(false);
     const [isAnalyzing, setIsAnalyzing] = useState(false);
     const [sceneGenError, setSceneGenError] = useState<string | null>(null);
@@ -500,6 +509,9 @@ const EpisodeActCard: React.FC<EpisodeActCardProps> = ({ item, parentInstallment
         return () => window.removeEventListener('keydown', handleKeyDown);
     }, [item.id, undoSceneAction, redoSceneAction]);
 
+    // Stop streaming if the card goes away mid-write
+    useEffect(() => () => writeAbortRef.current?.abort(), []);
+
 
     if (!project) return null;
     
@@ -545,7 +557,7 @@ const EpisodeActCard: React.FC<EpisodeActCardProps> = ({ item, parentInstallment
         setIsGeneratingScenes(true);
         setSceneGenError(null);
         try {
-            const newScenes = await geminiService.generateSceneSummariesForItem(item, project, generationModel);
+            const newScenes = await geminiService.generateSceneSummariesForItem(item, project, getTaskModels('scene_breakdown'));
             setScenesForItem(item.id, newScenes);
         } catch (err: any) {
             setSceneGenError(err.message);
@@ -563,9 +575,12 @@ const EpisodeActCard: React.FC<EpisodeActCardProps> = ({ item, parentInstallment
 
         setIsWriting(true);
         setWritingError(null);
+        const abortController = new AbortController();
+        writeAbortRef.current = abortController;
 
         try {
             for (let i = 0; i < scenesToWrite.length; i++) {
+                if (abortController.signal.aborted) break;
                 const scene = scenesToWrite[i];
                 
                 // Fetch FRESH state to ensure we include the content generated in the previous iteration
@@ -599,12 +614,15 @@ const EpisodeActCard: React.FC<EpisodeActCardProps> = ({ item, parentInstallment
                 }
 
                 setWritingStatus(`Writing Scene ${scene.sceneNumber}...`);
+                setStreamingScene({ sceneId: scene.id, lines: [] });
                 
+                // Lines stream into a preview only; the scene itself changes once the full response has parsed
                 const screenplay = await geminiService.generateScreenplayForScene(
                     scene,
                     currentStore.project!,
-                    generationModel,
-                    context
+                    getTaskModels('screenplay'),
+                    context,
+                    { onLines: (lines) => setStreamingScene({ sceneId: scene.id, lines }), signal: abortController.signal }
                 );
                 
                 // Update store immediately so the next iteration sees it
@@ -614,12 +632,20 @@ const EpisodeActCard: React.FC<EpisodeActCardProps> = ({ item, parentInstallment
                 await delay(500);
             }
         } catch(err: any) {
-            setWritingError(err.message);
+            // A cancelled scene keeps its previous content, so there is nothing to report
+            if (!abortController.signal.aborted) setWritingError(err.message);
         } finally {
+            writeAbortRef.current = null;
+            setStreamingScene(null);
             setIsWriting(false);
             setWritingStatus(null);
         }
     };
+
+    const handleCancelWriting = () => {
+        writeAbortRef.current?.abort();
+        setWritingStatus("Cancelling...");
+    };
     
     const handleAnalyzeAssets = async () => {
         setIsAnalyzing(true);
@@ -632,7 +658,7 @@ const EpisodeActCard: React.FC<EpisodeActCardProps> = ({ item, parentInstallment
             const result = await geminiService.analyzeAssetsForEpisodeOrAct(
                 item, 
                 project, 
-                generationModel, 
+                getTaskModels('asset_analysis'), 
                 scenesToAnalyze.map(s => s.id)
             );
             setAnalyzedAssets(item.id, result);
@@ -688,7 +714,7 @@ const EpisodeActCard: React.FC<EpisodeActCardProps> = ({ item, parentInstallment
             setLastMovedId(movedSceneId);
 
             // Analyze impact
-            const analysis = await geminiService.analyzeReorderImpact(item.scenes, newScenes, project);
+            const analysis = await geminiService.analyzeReorderImpact(item.scenes, newScenes, project, getTaskModels('scene_breakdown'));
             
             if (analysis.significant) {
                 setImpactAnalysis(analysis);
@@ -790,6 +816,18 @@ const EpisodeActCard: React.FC<EpisodeActCardProps> = ({ item, parentInstallment
                          </button>
                     </div>
 
+                    <button
+                        onClick={() => saveEpisodePackage(project, item.id)}
+                        className="p-2 rounded-md hover:bg-panel transition-colors text-muted hover:text-primary-text"
+                        title={`Export ${isEpisodic ? 'episode' : 'act'} package (scenes, shots, assets & images)`}
+                    >
+                        <Download size={16} />
+                    </button>
+                    <EncryptedExportButton
+                        onExport={(passphrase) => saveEpisodePackage(project, item.id, passphrase)}
+                        size={16}
+                        className="p-2 rounded-md hover:bg-panel transition-colors text-muted hover:text-primary-text"
+                    />
                     <button 
                         onClick={() => setShowHistory(!showHistory)} 
                         className={`p-2 rounded-md hover:bg-panel transition-colors ${showHistory ? 'text-accent bg-panel' : 'text-muted'}`}
@@ -809,6 +847,15 @@ const EpisodeActCard: React.FC<EpisodeActCardProps> = ({ item, parentInstallment
                             )}
                         </button>
                     )}
+                    {isWriting && (
+                        <button
+                            onClick={handleCancelWriting}
+                            className="flex items-center gap-2 px-3 py-1.5 text-xs font-bold bg-red-500/10 text-red-300 rounded-md hover:bg-red-500/20"
+                            title="Stop writing. Scenes already finished are kept."
+                        >
+                            <Square size={12} /> Cancel
+                        </button>
+                    )}
                 </div>
             </div>
 
@@ -868,6 +915,7 @@ const EpisodeActCard: React.FC<EpisodeActCardProps> = ({ item, parentInstallment
             ) : (
                 <div className="space-y-4">
                     {item.scenes.map((scene, index) => {
+                        const streamingLines = streamingScene?.sceneId === scene.id ? streamingScene.lines : null;
                         const isWritten = scene.content.length > 0;
                         const isDraggable = !isParentLocked && !item.isScreenplayApproved;
                         const isBeingDragged = draggedSceneIndex === index;
@@ -926,13 +974,14 @@ const EpisodeActCard: React.FC<EpisodeActCardProps> = ({ item, parentInstallment
                                     </div>
                                 </div>
                                 
-                                {isWritten && (
+                                {(isWritten || streamingLines) && (
                                     <div className="mt-4 border-t border-subtle pt-4">
                                         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                                             <div className="md:col-span-2">
                                                  <EditableScreenplayViewer
-                                                    content={scene.content}
-                                                    isEditable={!scene.isContentLocked && !isParentLocked && !item.isScreenplayApproved}
+                                                    content={streamingLines || scene.content}
+                                                    isEditable={!streamingLines && !scene.isContentLocked && !isParentLocked && !item.isScreenplayApproved}
+                                                    isStreaming={!!streamingLines}
                                                     parentItemId={item.id}
                                                     sceneId={scene.id}
                                                 />
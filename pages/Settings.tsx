@@ -1,12 +1,20 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { useShowrunnerStore } from '../store/showrunnerStore';
 import { AIModelConfig } from '../types';
-import { Save, Key, Database, Globe, Plus, Trash2, Code2, Check, ExternalLink, Box, Terminal, UploadCloud } from 'lucide-react';
+import { MOCK_PROVIDER } from '../services/mockProviderService';
+import { Save, Key, Database, Globe, Plus, Trash2, Code2, Check, ExternalLink, Box, Terminal, UploadCloud, WifiOff, Pencil } from 'lucide-react';
 import JsonViewer from '../components/shared/JsonViewer';
+import StoragePanel from '../components/settings/StoragePanel';
+import StorageUsagePanel from '../components/settings/StorageUsagePanel';
+import MigrationPanel from '../components/settings/MigrationPanel';
+import QuarantinePanel from '../components/settings/QuarantinePanel';
+import RequestInspectorPanel from '../components/settings/RequestInspectorPanel';
+import MappingTesterPanel from '../components/settings/MappingTesterPanel';
+import ModelRoutingPanel from '../components/settings/ModelRoutingPanel';
 
 const Settings: React.FC = () => {
-    const { apiKeys, updateApiKey, availableModels, customModels, fetchModels, addCustomModel, removeCustomModel } = useShowrunnerStore();
-    const [activeTab, setActiveTab] = useState<'keys' | 'custom_models'>('keys');
+    const { apiKeys, updateApiKey, availableModels, customModels, fetchModels, addCustomModel, removeCustomModel, offlineMode, setOfflineMode } = useShowrunnerStore();
+    const [activeTab, setActiveTab] = useState<'keys' | 'custom_models' | 'routing' | 'inspector' | 'storage'>('keys');
 
     // Local state for API Keys
     const [inputValues, setInputValues] = useState<Record<string, string>>(apiKeys);
@@ -36,6 +44,7 @@ const Settings: React.FC = () => {
         const allModels = [...availableModels, ...customModels];
         const providers = new Set(allModels.map(m => m.provider));
         providers.add('google_native'); // Always present
+        providers.delete(MOCK_PROVIDER); // Needs no key
         return Array.from(providers);
     }, [availableModels, customModels]);
 
@@ -131,7 +140,7 @@ const Settings: React.FC = () => {
                 // This is a naive replacement, user might need to refine
                 setAdvancedJson(workflowStr);
                 setBuilderMode('advanced');
-                setStatus("Workflow loaded. Please locate your text input node in JSON and replace text with {{prompt}}.");
+                setStatus("Workflow loaded. Please locate your text input node in JSON and replace text with {{prompt}} (and the sampler's seed, width and height with {{seed}}, {{width}}, {{height}}).");
 
             } catch (err) {
                 alert("Invalid JSON file.");
@@ -140,93 +149,121 @@ const Settings: React.FC = () => {
         reader.readAsText(file);
     };
 
-    const handleAddCustomModel = () => {
-        try {
-            let newModel: AIModelConfig;
+    // The model the builder currently describes; throws while it is incomplete
+    const buildModelFromBuilder = (): AIModelConfig => {
+        let newModel: AIModelConfig;
 
-            if (builderMode === 'advanced') {
-                newModel = JSON.parse(advancedJson);
-            } else {
-                // Template Logic
-                if (selectedTemplate === 'openai') {
-                    newModel = {
-                        id: simpleId,
-                        name: simpleName,
-                        provider: 'openai_compatible',
-                        family: 'text',
-                        contextWindow: 128000,
-                        endpoints: {
-                            generate: {
-                                url: 'https://api.openai.com/v1/chat/completions',
-                                method: 'POST',
-                                headers: { 'Authorization': 'Bearer {{key}}', 'Content-Type': 'application/json' },
-                                paramMapping: { 'model': '{{id}}', 'messages': [ { 'role': 'user', 'content': '{{prompt}}' } ], 'temperature': 0.7 },
-                                outputMapping: { 'text': 'choices[0].message.content' }
-                            }
+        if (builderMode === 'advanced') {
+            newModel = JSON.parse(advancedJson);
+        } else {
+            // Template Logic
+            if (selectedTemplate === 'openai') {
+                newModel = {
+                    id: simpleId,
+                    name: simpleName,
+                    provider: 'openai_compatible',
+                    family: 'text',
+                    contextWindow: 128000,
+                    endpoints: {
+                        generate: {
+                            url: 'https://api.openai.com/v1/chat/completions',
+                            method: 'POST',
+                            headers: { 'Authorization': 'Bearer {{key}}', 'Content-Type': 'application/json' },
+                            paramMapping: { 'model': '{{id}}', 'messages': [ { 'role': 'user', 'content': '{{prompt}}' } ], 'temperature': 0.7 },
+                            outputMapping: { 'text': 'choices[0].message.content' }
                         }
-                    };
-                } else if (selectedTemplate === 'replicate') {
-                     newModel = {
-                        id: simpleId,
-                        name: simpleName,
-                        provider: 'replicate',
-                        family: 'image',
-                        contextWindow: 0,
-                        endpoints: {
-                            generate: {
-                                url: 'https://api.replicate.com/v1/predictions',
-                                method: 'POST',
-                                headers: { 'Authorization': 'Token {{key}}', 'Content-Type': 'application/json' },
-                                paramMapping: { 'version': '{{id}}', 'input': { 'prompt': '{{prompt}}' } },
-                                outputMapping: { 'id': 'id' }
-                            },
-                            status: {
-                                url: 'https://api.replicate.com/v1/predictions/{{id}}',
-                                method: 'GET',
-                                headers: { 'Authorization': 'Token {{key}}' },
-                                outputMapping: { 'status': 'status', 'image': 'output[0]' }
-                            }
+                    }
+                };
+            } else if (selectedTemplate === 'replicate') {
+                 newModel = {
+                    id: simpleId,
+                    name: simpleName,
+                    provider: 'replicate',
+                    family: 'image',
+                    contextWindow: 0,
+                    endpoints: {
+                        generate: {
+                            url: 'https://api.replicate.com/v1/predictions',
+                            method: 'POST',
+                            headers: { 'Authorization': 'Token {{key}}', 'Content-Type': 'application/json' },
+                            paramMapping: { 'version': '{{id}}', 'input': { 'prompt': '{{prompt}}', 'negative_prompt': '{{negative_prompt}}', 'seed': '{{seed}}', 'aspect_ratio': '{{aspect_ratio}}', 'image': '{{reference_images[0]}}' } },
+                            outputMapping: { 'id': 'id' }
+                        },
+                        status: {
+                            url: 'https://api.replicate.com/v1/predictions/{{id}}',
+                            method: 'GET',
+                            headers: { 'Authorization': 'Token {{key}}' },
+                            outputMapping: { 'status': 'status', 'image': 'output[0]' }
                         }
-                    };
-                } else if (selectedTemplate === 'fal') {
-                     newModel = {
-                        id: simpleId, // e.g. fal-ai/flux-pro
-                        name: simpleName,
-                        provider: 'fal',
-                        family: 'image',
-                        contextWindow: 0,
-                        endpoints: {
-                            generate: {
-                                url: `https://queue.fal.run/${simpleId}`, // URL Templating
-                                method: 'POST',
-                                headers: { 'Authorization': 'Key {{key}}', 'Content-Type': 'application/json' },
-                                paramMapping: { 'prompt': '{{prompt}}' },
-                                outputMapping: { 'image': 'images[0].url' }
-                            }
+                    }
+                };
+            } else if (selectedTemplate === 'fal') {
+                 newModel = {
+                    id: simpleId, // e.g. fal-ai/flux-pro
+                    name: simpleName,
+                    provider: 'fal',
+                    family: 'image',
+                    contextWindow: 0,
+                    endpoints: {
+                        generate: {
+                            url: 'https://queue.fal.run/{{id}}', // URL Templating
+                            method: 'POST',
+                            headers: { 'Authorization': 'Key {{key}}', 'Content-Type': 'application/json' },
+                            paramMapping: {
+                                'prompt': '{{prompt}}',
+                                'negative_prompt': '{{negative_prompt}}',
+                                'seed': '{{seed}}',
+                                'image_size': { 'width': '{{width}}', 'height': '{{height}}' },
+                                'image_url': '{{reference_images[0]}}' // Image-to-image models; left out without references
+                            },
+                            outputMapping: { 'image': 'images[0].url' }
                         }
-                    };
-                } else if (selectedTemplate === 'generic') {
-                     newModel = {
-                        id: simpleId,
-                        name: simpleName,
-                        provider: simpleProvider.toLowerCase(),
-                        family: 'text',
-                        contextWindow: 0,
-                        endpoints: {
-                            generate: {
-                                url: simpleUrl,
-                                method: 'POST',
-                                headers: { 'Authorization': 'Bearer {{key}}', 'Content-Type': 'application/json' },
-                                paramMapping: { 'prompt': '{{prompt}}' },
-                                outputMapping: { 'text': 'result' }
-                            }
+                    }
+                };
+            } else if (selectedTemplate === 'generic') {
+                 newModel = {
+                    id: simpleId,
+                    name: simpleName,
+                    provider: simpleProvider.toLowerCase(),
+                    family: 'text',
+                    contextWindow: 0,
+                    endpoints: {
+                        generate: {
+                            url: simpleUrl,
+                            method: 'POST',
+                            headers: { 'Authorization': 'Bearer {{key}}', 'Content-Type': 'application/json' },
+                            paramMapping: { 'prompt': '{{prompt}}' },
+                            outputMapping: { 'text': 'result' }
                         }
-                    };
-                } else {
-                    throw new Error("Unknown template");
-                }
+                    }
+                };
+            } else if (selectedTemplate === 'comfy_local') {
+                throw new Error("Upload a workflow first; it opens in the JSON editor.");
+            } else {
+                throw new Error("Unknown template");
             }
+        }
+        return newModel;
+    };
+
+    const draftModel = useMemo(() => {
+        if (builderMode === 'curl') return { config: null, error: 'Parse the cURL command to test it.' };
+        if (builderMode === 'advanced' && !advancedJson.trim()) return { config: null, error: null };
+        try {
+            return { config: buildModelFromBuilder(), error: null };
+        } catch (e: any) {
+            return { config: null, error: e.message as string };
+        }
+    }, [builderMode, selectedTemplate, simpleName, simpleId, simpleProvider, simpleUrl, advancedJson]);
+
+    const handleEditCustomModel = (model: AIModelConfig) => {
+        setAdvancedJson(JSON.stringify(model, null, 2));
+        setBuilderMode('advanced');
+    };
 
+    const handleAddCustomModel = () => {
+        try {
+            const newModel = buildModelFromBuilder();
             if (!newModel.id || !newModel.name) throw new Error("Model ID and Name are required.");
             
             addCustomModel(newModel);
@@ -246,11 +283,14 @@ const Settings: React.FC = () => {
              <div className="flex items-center justify-between mb-6">
                 <div>
                     <h1 className="text-3xl font-black text-primary mb-1">Settings</h1>
-                    <p className="text-muted">Configure AI providers, keys, and custom models.</p>
+                    <p className="text-muted">Configure AI providers, keys, custom models and local storage.</p>
                 </div>
                 <div className="flex gap-2 bg-surface p-1 rounded-lg border border-subtle">
                     <button onClick={() => setActiveTab('keys')} className={`px-4 py-2 text-sm font-bold rounded-md transition-colors ${activeTab === 'keys' ? 'bg-panel text-primary shadow-sm' : 'text-muted hover:text-primary-text'}`}>API Keys</button>
                     <button onClick={() => setActiveTab('custom_models')} className={`px-4 py-2 text-sm font-bold rounded-md transition-colors ${activeTab === 'custom_models' ? 'bg-panel text-primary shadow-sm' : 'text-muted hover:text-primary-text'}`}>Custom Models</button>
+                    <button onClick={() => setActiveTab('routing')} className={`px-4 py-2 text-sm font-bold rounded-md transition-colors ${activeTab === 'routing' ? 'bg-panel text-primary shadow-sm' : 'text-muted hover:text-primary-text'}`}>Model Routing</button>
+                    <button onClick={() => setActiveTab('inspector')} className={`px-4 py-2 text-sm font-bold rounded-md transition-colors ${activeTab === 'inspector' ? 'bg-panel text-primary shadow-sm' : 'text-muted hover:text-primary-text'}`}>Inspector</button>
+                    <button onClick={() => setActiveTab('storage')} className={`px-4 py-2 text-sm font-bold rounded-md transition-colors ${activeTab === 'storage' ? 'bg-panel text-primary shadow-sm' : 'text-muted hover:text-primary-text'}`}>Storage</button>
                 </div>
              </div>
 
@@ -281,6 +321,21 @@ const Settings: React.FC = () => {
                                     ))}
                                 </div>
                             </div>
+
+                            <div className="bg-surface border border-subtle rounded-xl p-6">
+                                <div className="flex justify-between items-center mb-2">
+                                    <h2 className="text-xl font-bold text-primary flex items-center gap-2"><WifiOff className="text-accent" size={20} /> Offline Mode</h2>
+                                    <label className="flex items-center gap-2 text-xs font-bold text-muted cursor-pointer">
+                                        <input type="checkbox" checked={offlineMode} onChange={(e) => setOfflineMode(e.target.checked)} className="rounded border-subtle bg-panel text-accent focus:ring-accent" />
+                                        {offlineMode ? 'On' : 'Off'}
+                                    </label>
+                                </div>
+                                <p className="text-xs text-muted">
+                                    Answers every generation with the built-in mock provider instead of a real model, and skips fetching the remote model list.
+                                    Text follows each task's format with placeholder content; images, video and audio are generated placeholders.
+                                    The same request always gives the same result, so demos and tests need no keys or network.
+                                </p>
+                            </div>
                         </div>
 
                         <div className="bg-surface border border-subtle rounded-xl p-6">
@@ -378,8 +433,10 @@ const Settings: React.FC = () => {
                          </div>
 
                          <div className="lg:col-span-2 space-y-6">
+                             <MappingTesterPanel config={draftModel.config} configError={draftModel.error} />
+
                              {/* List of Custom Models */}
-                             <div className="bg-surface border border-subtle rounded-xl p-6 h-full">
+                             <div className="bg-surface border border-subtle rounded-xl p-6">
                                 <h2 className="text-xl font-bold text-primary mb-4 flex items-center gap-2"><Code2 className="text-accent" size={20} /> Custom Models</h2>
                                 {customModels.length === 0 ? <div className="text-center text-muted py-10">No custom models added.</div> : (
                                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -387,7 +444,10 @@ const Settings: React.FC = () => {
                                             <div key={model.id} className="bg-panel border border-subtle rounded-lg p-4 relative group">
                                                 <h3 className="font-bold text-primary text-sm">{model.name}</h3>
                                                 <span className="text-[10px] uppercase font-bold text-muted block mt-1">{model.provider}</span>
-                                                <button onClick={() => removeCustomModel(model.id)} className="absolute top-2 right-2 text-muted hover:text-red-400"><Trash2 size={14} /></button>
+                                                <div className="absolute top-2 right-2 flex gap-2">
+                                                    <button onClick={() => handleEditCustomModel(model)} className="text-muted hover:text-primary-text" title="Edit and test in the builder"><Pencil size={14} /></button>
+                                                    <button onClick={() => removeCustomModel(model.id)} className="text-muted hover:text-red-400"><Trash2 size={14} /></button>
+                                                </div>
                                             </div>
                                         ))}
                                     </div>
@@ -396,6 +456,22 @@ const Settings: React.FC = () => {
                          </div>
                      </div>
                  )}
+
+                 {/* MODEL ROUTING TAB */}
+                 {activeTab === 'routing' && <ModelRoutingPanel />}
+
+                 {/* INSPECTOR TAB */}
+                 {activeTab === 'inspector' && <RequestInspectorPanel />}
+
+                 {/* STORAGE TAB */}
+                 {activeTab === 'storage' && (
+                     <div className="space-y-8">
+                         <StorageUsagePanel />
+                         <StoragePanel />
+                         <MigrationPanel />
+                         <QuarantinePanel />
+                     </div>
+                 )}
              </div>
         </div>
     );
@@ -1,210 +1,387 @@
-import React, { useState, useMemo, useRef } from 'react';
-import { useShowrunnerStore } from '../store/showrunnerStore';
-import { Character, GeminiModel } from '../types';
-import { geminiService } from '../services/geminiService';
-import { Mic, Play, Settings2, User, Volume2, Wand2, Loader2, AlertTriangle } from 'lucide-react';
-
-const SoundStage: React.FC = () => {
-    const { project } = useShowrunnerStore();
-    const [selectedCharId, setSelectedCharId] = useState<string | null>(null);
-    const [previewText, setPreviewText] = useState("It’s been quiet lately… I’ve had time to think, and maybe that’s what I needed most.");
-    const [isGenerating, setIsGenerating] = useState(false);
-    const [audioUrl, setAudioUrl] = useState<string | null>(null);
-    const [error, setError] = useState<string | null>(null);
-    const audioRef = useRef<HTMLAudioElement>(null);
-    
-    // Derived state for the selected character
-    const selectedCharacter = useMemo(() => 
-        project?.bible.characters.find(c => c.id === selectedCharId), 
-    [project, selectedCharId]);
-
-    // Construct the ElevenLabs Voice Design Prompt
-    const voicePrompt = useMemo(() => {
-        if (!selectedCharacter) return '';
-        const p = selectedCharacter.profile;
-        const dna = p.visualDna;
-        const voc = p.vocalProfile;
-        
-        // Formula: [Age] [Gender] with a [Tone] voice and [Accent] accent. [Occupation]. Speaking [Pacing].
-        const parts = [
-            dna?.age?.apparent,
-            dna?.gender,
-            voc?.timbre ? `with a ${voc.timbre} voice` : '',
-            voc?.accentDialect ? `and a ${voc.accentDialect} accent` : '',
-            p.vocationalProfile?.currentOccupation ? `. ${p.vocationalProfile.currentOccupation}` : '',
-            voc?.pacing ? `. Speaking ${voc.pacing}` : '',
-        ];
-        
-        return parts.filter(Boolean).join(' ').trim() + ". Perfect audio quality.";
-    }, [selectedCharacter]);
-
-    if (!project) return null;
-
-    const handleGeneratePreview = async () => {
-        if (!selectedCharacter) return;
-        setIsGenerating(true);
-        setError(null);
-        setAudioUrl(null);
-
-        try {
-            // Using Google Cloud TTS via GeminiService
-            const dataUrl = await geminiService.generateSpeech(previewText, selectedCharacter);
-            setAudioUrl(dataUrl);
-            
-            // Auto-play
-            setTimeout(() => {
-                if (audioRef.current) {
-                    audioRef.current.play().catch(e => console.warn("Auto-play prevented:", e));
-                }
-            }, 100);
-
-        } catch (err: any) {
-            console.error("Speech Gen Error:", err);
-            setError(err.message || "Failed to generate audio.");
-        } finally {
-            setIsGenerating(false);
-        }
-    };
-
-    return (
-        <div className="h-[calc(100vh-60px)] flex flex-col">
-            <header className="flex justify-between items-center mb-6 shrink-0">
-                <h1 className="text-3xl font-black text-primary">Sound Stage</h1>
-                <div className="flex gap-2">
-                     <span className="text-xs font-mono bg-panel px-2 py-1 rounded text-muted flex items-center gap-2">
-                        <Volume2 size={12}/> ElevenLabs Voice Design
-                     </span>
-                </div>
-            </header>
-
-            <div className="flex-1 flex gap-6 overflow-hidden">
-                {/* Left: Character Selector */}
-                <aside className="w-64 flex-shrink-0 bg-surface border border-subtle rounded-xl overflow-hidden flex flex-col">
-                    <div className="p-4 border-b border-subtle bg-panel">
-                        <h2 className="font-bold text-primary flex items-center gap-2"><User size={18} /> Cast</h2>
-                    </div>
-                    <div className="flex-1 overflow-y-auto p-2 space-y-1">
-                        {project.bible.characters.map(char => (
-                            <button 
-                                key={char.id} 
-                                onClick={() => { setSelectedCharId(char.id); setAudioUrl(null); setError(null); }}
-                                className={`w-full text-left px-3 py-2 text-sm rounded-md transition-colors ${selectedCharId === char.id ? 'bg-primary text-neutral-900 font-bold' : 'text-primary-text hover:bg-subtle'}`}
-                            >
-                                {char.profile.name}
-                            </button>
-                        ))}
-                        {project.bible.characters.length === 0 && (
-                            <p className="p-4 text-xs text-muted text-center">No characters found. Create them in the Story Bible first.</p>
-                        )}
-                    </div>
-                </aside>
-
-                {/* Right: Voice Designer */}
-                <main className="flex-1 bg-surface border border-subtle rounded-xl p-6 overflow-y-auto">
-                    {selectedCharacter ? (
-                        <div className="max-w-3xl mx-auto space-y-8">
-                            <div className="flex items-start justify-between">
-                                <div>
-                                    <h2 className="text-2xl font-bold text-primary">{selectedCharacter.profile.name}</h2>
-                                    <p className="text-muted text-sm">{selectedCharacter.profile.coreIdentity.primaryNarrativeRole}</p>
-                                </div>
-                            </div>
-
-                            {/* Prompt Construction Area */}
-                            <div className="bg-panel border border-subtle rounded-lg p-6">
-                                <h3 className="text-sm font-bold text-muted uppercase tracking-wider mb-4 flex items-center gap-2">
-                                    <Settings2 size={14}/> Voice Attributes (Source Data)
-                                </h3>
-                                
-                                <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-6">
-                                    <div className="bg-base/50 p-3 rounded border border-subtle">
-                                        <label className="text-[10px] text-muted block uppercase">Gender</label>
-                                        <p className="text-primary-text text-sm font-medium">{selectedCharacter.profile.visualDna?.gender || 'Not set'}</p>
-                                    </div>
-                                    <div className="bg-base/50 p-3 rounded border border-subtle">
-                                        <label className="text-[10px] text-muted block uppercase">Age</label>
-                                        <p className="text-primary-text text-sm font-medium">{selectedCharacter.profile.visualDna?.age?.apparent || 'Not set'}</p>
-                                    </div>
-                                    <div className="bg-base/50 p-3 rounded border border-subtle">
-                                        <label className="text-[10px] text-muted block uppercase">Accent</label>
-                                        <p className="text-primary-text text-sm font-medium">{selectedCharacter.profile.vocalProfile?.accentDialect || 'Not set'}</p>
-                                    </div>
-                                    <div className="bg-base/50 p-3 rounded border border-subtle">
-                                        <label className="text-[10px] text-muted block uppercase">Timbre/Tone</label>
-                                        <p className="text-primary-text text-sm font-medium">{selectedCharacter.profile.vocalProfile?.timbre || 'Not set'}</p>
-                                    </div>
-                                    <div className="bg-base/50 p-3 rounded border border-subtle">
-                                        <label className="text-[10px] text-muted block uppercase">Pacing</label>
-                                        <p className="text-primary-text text-sm font-medium">{selectedCharacter.profile.vocalProfile?.pacing || 'Not set'}</p>
-                                    </div>
-                                    <div className="bg-base/50 p-3 rounded border border-subtle">
-                                        <label className="text-[10px] text-muted block uppercase">Occupation</label>
-                                        <p className="text-primary-text text-sm font-medium">{selectedCharacter.profile.vocationalProfile?.currentOccupation || 'Not set'}</p>
-                                    </div>
-                                </div>
-
-                                <div className="space-y-2">
-                                    <label className="text-xs font-bold text-accent block">GENERATED ELEVENLABS PROMPT</label>
-                                    <div className="w-full bg-base border border-accent/50 rounded-md p-4 text-sm font-mono text-green-400">
-                                        {voicePrompt}
-                                    </div>
-                                    <p className="text-[10px] text-muted">This prompt is auto-constructed from the Story Bible data above.</p>
-                                </div>
-                            </div>
-
-                            {/* Testing Area */}
-                            <div className="bg-panel border border-subtle rounded-lg p-6">
-                                <h3 className="text-sm font-bold text-muted uppercase tracking-wider mb-4 flex items-center gap-2">
-                                    <Mic size={14}/> Google Cloud Voice Preview (Placeholder)
-                                </h3>
-                                
-                                <div className="mb-4">
-                                    <label className="text-xs font-bold text-muted block mb-2">PREVIEW TEXT</label>
-                                    <textarea 
-                                        value={previewText}
-                                        onChange={(e) => setPreviewText(e.target.value)}
-                                        className="w-full h-24 bg-base border-subtle rounded-md p-3 text-sm text-primary-text focus:ring-accent focus:border-accent"
-                                    />
-                                    <p className="text-[10px] text-muted mt-1">Use text that matches the character's personality for best results.</p>
-                                </div>
-
-                                <div className="flex items-center gap-4">
-                                    <button 
-                                        onClick={handleGeneratePreview}
-                                        disabled={isGenerating || !previewText}
-                                        className="flex items-center gap-2 px-6 py-3 bg-primary text-neutral-900 font-bold rounded-md hover:bg-white transition-colors disabled:bg-neutral-600 disabled:text-neutral-400 disabled:cursor-not-allowed"
-                                    >
-                                        {isGenerating ? <Loader2 size={16} className="animate-spin" /> : <Play size={16} fill="currentColor" />}
-                                        {isGenerating ? "Generating..." : "Generate Voice Preview"}
-                                    </button>
-                                    
-                                    {audioUrl && (
-                                        <audio ref={audioRef} controls src={audioUrl} className="h-10" />
-                                    )}
-                                </div>
-                                
-                                {error && (
-                                    <div className="mt-4 p-3 bg-red-500/10 border border-red-500/30 rounded flex items-start gap-2 text-xs text-red-300">
-                                        <AlertTriangle size={14} className="mt-0.5 shrink-0"/>
-                                        <div>
-                                            <p className="font-bold">Generation Failed</p>
-                                            <p>{error}</p>
-                                            <p className="mt-1 opacity-70">Note: This feature requires a Google Cloud API Key with "Cloud Text-to-Speech API" enabled.</p>
-                                        </div>
-                                    </div>
-                                )}
-                            </div>
-                        </div>
-                    ) : (
-                        <div className="h-full flex flex-col items-center justify-center text-muted">
-                            <Wand2 size={48} className="mb-4 opacity-20"/>
-                            <p>Select a character to design their voice.</p>
-                        </div>
-                    )}
-                </main>
-            </div>
-        </div>
-    );
-};
-
-export default SoundStage;
\ No newline at end of file
+import React, { useState, useMemo, useEffect } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { useShowrunnerStore } from '../store/showrunnerStore';
+import { AudioRequest, AudioTake, AudioTask } from '../types';
+import { geminiService } from '../services/geminiService';
+import { modelGateway, AUDIO_TASK_LABELS } from '../services/modelGateway';
+import { storeMediaInDB } from '../services/storageService';
+import { usageContext } from '../services/usageLedgerService';
+import { useImageResolver } from '../hooks/useImageResolver';
+import TaskModelSelect from '../components/shared/TaskModelSelect';
+import { Mic, Play, Settings2, User, Volume2, Wand2, Loader2, AlertTriangle, Music, Trash2 } from 'lucide-react';
+
+// Sidebar entry for takes that don't belong to a character
+const EFFECTS_ID = 'music_sfx';
+
+const TakePlayer: React.FC<{ take: AudioTake; autoPlay: boolean; onDelete: () => void }> = ({ take, autoPlay, onDelete }) => {
+    const src = useImageResolver(take.audioId);
+    return (
+        <div className="bg-base/50 border border-subtle rounded-md p-3">
+            <div className="flex justify-between items-start gap-2 mb-2">
+                <div className="min-w-0">
+                    <p className="text-[10px] text-muted uppercase font-bold">
+                        {AUDIO_TASK_LABELS[take.task]} · {take.modelId} · {new Date(take.createdAt).toLocaleString()}
+                    </p>
+                    <p className="text-xs text-primary-text truncate" title={take.text}>{take.text}</p>
+                </div>
+                <button onClick={onDelete} className="text-muted hover:text-red-400 shrink-0" title="Delete take"><Trash2 size={14} /></button>
+            </div>
+            {src ? <audio controls src={src} autoPlay={autoPlay} className="w-full h-8" /> : <div className="h-8 bg-neutral-800 rounded animate-pulse" />}
+        </div>
+    );
+};
+
+const SoundStage: React.FC = () => {
+    const { project, listModels, getTaskModels, addAudioTake, removeAudioTake } = useShowrunnerStore();
+    const [selectedCharId, setSelectedCharId] = useState<string | null>(null);
+    const [previewText, setPreviewText] = useState("It’s been quiet lately… I’ve had time to think, and maybe that’s what I needed most.");
+    const [effectsPrompt, setEffectsPrompt] = useState('');
+    const [duration, setDuration] = useState(10);
+    const [task, setTask] = useState<AudioTask>('tts');
+    const [selectedModelId, setSelectedModelId] = useState('');
+    const [voice, setVoice] = useState('');
+    const [isGenerating, setIsGenerating] = useState(false);
+    const [latestTakeId, setLatestTakeId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    // Derived state for the selected character
+    const selectedCharacter = useMemo(() =>
+        project?.bible.characters.find(c => c.id === selectedCharId),
+    [project, selectedCharId]);
+    const isEffects = selectedCharId === EFFECTS_ID;
+
+    // Speech follows the project's model routing; the other tasks are picked here
+    const audioModels = listModels('audio');
+    const isRouted = task === 'tts';
+    const taskModels = isRouted ? getTaskModels('speech') : audioModels.filter(m => !m.audioTasks || m.audioTasks.includes(task));
+    const selectedModel = isRouted ? taskModels[0] : taskModels.find(m => m.id === selectedModelId) || taskModels[0];
+
+    // Google picks a stock voice from the profile; other providers reuse the last voice id given for this character
+    useEffect(() => {
+        if (!selectedCharacter || task !== 'tts') return;
+        if (selectedModel?.provider === 'google_native') {
+            setVoice(geminiService.voiceForCharacter(selectedCharacter));
+        } else {
+            const lastTake = project?.audioTakes?.find(t => t.characterId === selectedCharacter.id && t.task === 'tts' && t.modelId === selectedModel?.id);
+            setVoice(lastTake?.voice || '');
+        }
+    }, [selectedCharacter?.id, selectedModel?.id, task]);
+
+    // Construct the ElevenLabs Voice Design Prompt
+    const voicePrompt = useMemo(() => {
+        if (!selectedCharacter) return '';
+        const p = selectedCharacter.profile;
+        const dna = p.visualDna;
+        const voc = p.vocalProfile;
+
+        // Formula: [Age] [Gender] with a [Tone] voice and [Accent] accent. [Occupation]. Speaking [Pacing].
+        const parts = [
+            dna?.age?.apparent,
+            dna?.gender,
+            voc?.timbre ? `with a ${voc.timbre} voice` : '',
+            voc?.accentDialect ? `and a ${voc.accentDialect} accent` : '',
+            p.vocationalProfile?.currentOccupation ? `. ${p.vocationalProfile.currentOccupation}` : '',
+            voc?.pacing ? `. Speaking ${voc.pacing}` : '',
+        ];
+
+        return parts.filter(Boolean).join(' ').trim() + ". Perfect audio quality.";
+    }, [selectedCharacter]);
+
+    if (!project) return null;
+
+    const takes = (project.audioTakes || []).filter(t => isEffects ? !t.characterId : t.characterId === selectedCharId);
+
+    const selectView = (id: string, defaultTask: AudioTask) => {
+        setSelectedCharId(id);
+        setTask(defaultTask);
+        setLatestTakeId(null);
+        setError(null);
+    };
+
+    const handleGenerate = async () => {
+        if (!selectedModel) return;
+        // Voice design sends the constructed description as the voice and speaks the preview line with it
+        const request: AudioRequest = isEffects
+            ? { task, text: effectsPrompt, duration }
+            : { task, text: previewText, voice: task === 'voice_design' ? voicePrompt : voice || undefined };
+
+        setIsGenerating(true);
+        setError(null);
+        try {
+            // A routed chain may fall back, so the take records the model that produced it
+            let takeModel = selectedModel;
+            const blob = await modelGateway.withFallbacks(isRouted ? taskModels : [selectedModel], model => {
+                takeModel = model;
+                return modelGateway.generateAudio(request, model, {
+                    usage: usageContext(project, AUDIO_TASK_LABELS[task], 'Sound Stage'),
+                });
+            });
+            const audioId = await storeMediaInDB(blob);
+            const take: AudioTake = {
+                id: uuidv4(),
+                audioId,
+                task,
+                text: request.text,
+                voice: request.voice,
+                characterId: selectedCharacter?.id,
+                modelId: takeModel.id,
+                createdAt: Date.now(),
+            };
+            addAudioTake(take);
+            setLatestTakeId(take.id);
+        } catch (err: any) {
+            console.error("Audio Gen Error:", err);
+            setError(err.message || "Failed to generate audio.");
+        } finally {
+            setIsGenerating(false);
+        }
+    };
+
+    const renderGenerateControls = (tasks: AudioTask[], canGenerate: boolean) => (
+        <>
+            <div className="flex flex-wrap items-end gap-4 mb-4">
+                <div>
+                    <label className="text-xs font-bold text-muted block mb-2">TYPE</label>
+                    <div className="flex gap-1 bg-base p-1 rounded-md border border-subtle">
+                        {tasks.map(t => (
+                            <button key={t} onClick={() => setTask(t)} className={`px-3 py-1 text-xs font-bold rounded ${task === t ? 'bg-panel text-primary' : 'text-muted hover:text-primary-text'}`}>
+                                {AUDIO_TASK_LABELS[t]}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <div className="flex-1 min-w-[200px]">
+                    <label className="text-xs font-bold text-muted block mb-2">MODEL</label>
+                    {isRouted ? (
+                        <TaskModelSelect task="speech" className="w-full bg-base border-subtle rounded-md p-2 text-sm text-primary-text" />
+                    ) : (
+                        <select
+                            value={selectedModel?.id || ''}
+                            onChange={(e) => setSelectedModelId(e.target.value)}
+                            className="w-full bg-base border-subtle rounded-md p-2 text-sm text-primary-text"
+                        >
+                            {taskModels.length === 0 && <option value="">No {AUDIO_TASK_LABELS[task].toLowerCase()} models. Add one in Settings.</option>}
+                            {taskModels.map(model => (
+                                <option key={model.id} value={model.id}>{model.name}{model.provider !== 'google_native' ? ` (${model.provider})` : ''}</option>
+                            ))}
+                        </select>
+                    )}
+                </div>
+            </div>
+
+            <button
+                onClick={handleGenerate}
+                disabled={isGenerating || !canGenerate || !selectedModel}
+                className="flex items-center gap-2 px-6 py-3 bg-primary text-neutral-900 font-bold rounded-md hover:bg-white transition-colors disabled:bg-neutral-600 disabled:text-neutral-400 disabled:cursor-not-allowed"
+            >
+                {isGenerating ? <Loader2 size={16} className="animate-spin" /> : <Play size={16} fill="currentColor" />}
+                {isGenerating ? "Generating..." : `Generate ${AUDIO_TASK_LABELS[task]}`}
+            </button>
+
+            {error && (
+                <div className="mt-4 p-3 bg-red-500/10 border border-red-500/30 rounded flex items-start gap-2 text-xs text-red-300">
+                    <AlertTriangle size={14} className="mt-0.5 shrink-0"/>
+                    <div>
+                        <p className="font-bold">Generation Failed</p>
+                        <p>{error}</p>
+                        {selectedModel?.provider === 'google_native' && (
+                            <p className="mt-1 opacity-70">Note: Google Cloud TTS requires an API Key with "Cloud Text-to-Speech API" enabled.</p>
+                        )}
+                    </div>
+                </div>
+            )}
+        </>
+    );
+
+    const takeList = takes.length > 0 && (
+        <div className="bg-panel border border-subtle rounded-lg p-6">
+            <h3 className="text-sm font-bold text-muted uppercase tracking-wider mb-4 flex items-center gap-2">
+                <Volume2 size={14}/> Takes ({takes.length})
+            </h3>
+            <div className="space-y-2">
+                {takes.map(take => (
+                    <TakePlayer key={take.id} take={take} autoPlay={take.id === latestTakeId} onDelete={() => removeAudioTake(take.id)} />
+                ))}
+            </div>
+        </div>
+    );
+
+    return (
+        <div className="h-[calc(100vh-60px)] flex flex-col">
+            <header className="flex justify-between items-center mb-6 shrink-0">
+                <h1 className="text-3xl font-black text-primary">Sound Stage</h1>
+                <div className="flex gap-2">
+                     <span className="text-xs font-mono bg-panel px-2 py-1 rounded text-muted flex items-center gap-2">
+                        <Volume2 size={12}/> {audioModels.length} audio model{audioModels.length === 1 ? '' : 's'}
+                     </span>
+                </div>
+            </header>
+
+            <div className="flex-1 flex gap-6 overflow-hidden">
+                {/* Left: Character Selector */}
+                <aside className="w-64 flex-shrink-0 bg-surface border border-subtle rounded-xl overflow-hidden flex flex-col">
+                    <div className="p-4 border-b border-subtle bg-panel">
+                        <h2 className="font-bold text-primary flex items-center gap-2"><User size={18} /> Cast</h2>
+                    </div>
+                    <div className="flex-1 overflow-y-auto p-2 space-y-1">
+                        <button
+                            onClick={() => selectView(EFFECTS_ID, 'music')}
+                            className={`w-full text-left px-3 py-2 mb-2 text-sm rounded-md transition-colors flex items-center gap-2 ${isEffects ? 'bg-primary text-neutral-900 font-bold' : 'text-primary-text hover:bg-subtle'}`}
+                        >
+                            <Music size={14} /> Music & SFX
+                        </button>
+                        {project.bible.characters.map(char => (
+                            <button
+                                key={char.id}
+                                onClick={() => selectView(char.id, 'tts')}
+                                className={`w-full text-left px-3 py-2 text-sm rounded-md transition-colors ${selectedCharId === char.id ? 'bg-primary text-neutral-900 font-bold' : 'text-primary-text hover:bg-subtle'}`}
+                            >
+                                {char.profile.name}
+                            </button>
+                        ))}
+                        {project.bible.characters.length === 0 && (
+                            <p className="p-4 text-xs text-muted text-center">No characters found. Create them in the Story Bible first.</p>
+                        )}
+                    </div>
+                </aside>
+
+                {/* Right: Voice Designer */}
+                <main className="flex-1 bg-surface border border-subtle rounded-xl p-6 overflow-y-auto">
+                    {isEffects ? (
+                        <div className="max-w-3xl mx-auto space-y-8">
+                            <div>
+                                <h2 className="text-2xl font-bold text-primary">Music & Sound Effects</h2>
+                                <p className="text-muted text-sm">Score cues and effects for the whole project.</p>
+                            </div>
+
+                            <div className="bg-panel border border-subtle rounded-lg p-6">
+                                <div className="mb-4">
+                                    <label className="text-xs font-bold text-muted block mb-2">PROMPT</label>
+                                    <textarea
+                                        value={effectsPrompt}
+                                        onChange={(e) => setEffectsPrompt(e.target.value)}
+                                        placeholder={task === 'music' ? 'Tense synth pulse building under a rainy night chase...' : 'Heavy wooden door creaking open in a stone hall...'}
+                                        className="w-full h-24 bg-base border-subtle rounded-md p-3 text-sm text-primary-text focus:ring-accent focus:border-accent"
+                                    />
+                                </div>
+                                <div className="mb-4">
+                                    <label className="text-xs font-bold text-muted block mb-2">DURATION (SECONDS)</label>
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        max={300}
+                                        value={duration}
+                                        onChange={(e) => setDuration(Math.max(1, Number(e.target.value) || 1))}
+                                        className="w-32 bg-base border-subtle rounded-md p-2 text-sm text-primary-text"
+                                    />
+                                </div>
+                                {renderGenerateControls(['music', 'sfx'], !!effectsPrompt.trim())}
+                            </div>
+
+                            {takeList}
+                        </div>
+                    ) : selectedCharacter ? (
+                        <div className="max-w-3xl mx-auto space-y-8">
+                            <div className="flex items-start justify-between">
+                                <div>
+                                    <h2 className="text-2xl font-bold text-primary">{selectedCharacter.profile.name}</h2>
+                                    <p className="text-muted text-sm">{selectedCharacter.profile.coreIdentity.primaryNarrativeRole}</p>
+                                </div>
+                            </div>
+
+                            {/* Prompt Construction Area */}
+                            <div className="bg-panel border border-subtle rounded-lg p-6">
+                                <h3 className="text-sm font-bold text-muted uppercase tracking-wider mb-4 flex items-center gap-2">
+                                    <Settings2 size={14}/> Voice Attributes (Source Data)
+                                </h3>
+
+                                <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-6">
+                                    <div className="bg-base/50 p-3 rounded border border-subtle">
+                                        <label className="text-[10px] text-muted block uppercase">Gender</label>
+                                        <p className="text-primary-text text-sm font-medium">{selectedCharacter.profile.visualDna?.gender || 'Not set'}</p>
+                                    </div>
+                                    <div className="bg-base/50 p-3 rounded border border-subtle">
+                                        <label className="text-[10px] text-muted block uppercase">Age</label>
+                                        <p className="text-primary-text text-sm font-medium">{selectedCharacter.profile.visualDna?.age?.apparent || 'Not set'}</p>
+                                    </div>
+                                    <div className="bg-base/50 p-3 rounded border border-subtle">
+                                        <label className="text-[10px] text-muted block uppercase">Accent</label>
+                                        <p className="text-primary-text text-sm font-medium">{selectedCharacter.profile.vocalProfile?.accentDialect || 'Not set'}</p>
+                                    </div>
+                                    <div className="bg-base/50 p-3 rounded border border-subtle">
+                                        <label className="text-[10px] text-muted block uppercase">Timbre/Tone</label>
+                                        <p className="text-primary-text text-sm font-medium">{selectedCharacter.profile.vocalProfile?.timbre || 'Not set'}</p>
+                                    </div>
+                                    <div className="bg-base/50 p-3 rounded border border-subtle">
+                                        <label className="text-[10px] text-muted block uppercase">Pacing</label>
+                                        <p className="text-primary-text text-sm font-medium">{selectedCharacter.profile.vocalProfile?.pacing || 'Not set'}</p>
+                                    </div>
+                                    <div className="bg-base/50 p-3 rounded border border-subtle">
+                                        <label className="text-[10px] text-muted block uppercase">Occupation</label>
+                                        <p className="text-primary-text text-sm font-medium">{selectedCharacter.profile.vocationalProfile?.currentOccupation || 'Not set'}</p>
+                                    </div>
+                                </div>
+
+                                <div className="space-y-2">
+                                    <label className="text-xs font-bold text-accent block">GENERATED VOICE DESIGN PROMPT</label>
+                                    <div className="w-full bg-base border border-accent/50 rounded-md p-4 text-sm font-mono text-green-400">
+                                        {voicePrompt}
+                                    </div>
+                                    <p className="text-[10px] text-muted">This prompt is auto-constructed from the Story Bible data above.</p>
+                                </div>
+                            </div>
+
+                            {/* Testing Area */}
+                            <div className="bg-panel border border-subtle rounded-lg p-6">
+                                <h3 className="text-sm font-bold text-muted uppercase tracking-wider mb-4 flex items-center gap-2">
+                                    <Mic size={14}/> Voice Preview
+                                </h3>
+
+                                <div className="mb-4">
+                                    <label className="text-xs font-bold text-muted block mb-2">PREVIEW TEXT</label>
+                                    <textarea
+                                        value={previewText}
+                                        onChange={(e) => setPreviewText(e.target.value)}
+                                        className="w-full h-24 bg-base border-subtle rounded-md p-3 text-sm text-primary-text focus:ring-accent focus:border-accent"
+                                    />
+                                    <p className="text-[10px] text-muted mt-1">Use text that matches the character's personality for best results.</p>
+                                </div>
+
+                                {task === 'tts' ? (
+                                    <div className="mb-4">
+                                        <label className="text-xs font-bold text-muted block mb-2">VOICE</label>
+                                        <input
+                                            type="text"
+                                            value={voice}
+                                            onChange={(e) => setVoice(e.target.value)}
+                                            placeholder="Provider voice id"
+                                            className="w-full bg-base border-subtle rounded-md p-2 text-sm font-mono text-primary-text"
+                                        />
+                                        <p className="text-[10px] text-muted mt-1">
+                                            {selectedModel?.provider === 'google_native'
+                                                ? 'Picked from the profile. Enter a voice name (en-GB-Neural2-A) or language:gender (en-US:MALE).'
+                                                : "The provider's voice id, sent as {{voice}}."}
+                                        </p>
+                                    </div>
+                                ) : (
+                                    <p className="text-[10px] text-muted mb-4">The prompt above is sent as {'{{voice}}'} and the preview text as {'{{text}}'}.</p>
+                                )}
+
+                                {renderGenerateControls(['tts', 'voice_design'], !!previewText.trim())}
+                            </div>
+
+                            {takeList}
+                        </div>
+                    ) : (
+                        <div className="h-full flex flex-col items-center justify-center text-muted">
+                            <Wand2 size={48} className="mb-4 opacity-20"/>
+                            <p>Select a character to design their voice, or Music & SFX for score and effects.</p>
+                        </div>
+                    )}
+                </main>
+            </div>
+        </div>
+    );
+};
+
+export default SoundStage;
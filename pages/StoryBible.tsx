@@ -1,16 +1,15 @@
 import React, { useState, useMemo } from 'react';
 import { useShowrunnerStore } from '../store/showrunnerStore';
 import { saveBible } from '../services/storageService';
+import EncryptedExportButton from '../components/shared/EncryptedExportButton';
+import TaskModelSelect from '../components/shared/TaskModelSelect';
 import { Book, Building, User, MapPin, Download, Upload, Package, Wand2 } from 'lucide-react';
-import { Asset, AssetType, GeminiModel } from '../types';
+import { Asset, AssetType } from '../types';
 import DetailView from '../components/story-bible/DetailView';
 
 const StoryBible: React.FC = () => {
     const { project, importBible } = useShowrunnerStore();
     const [selectedAssetInfo, setSelectedAssetInfo] = useState<{ id: string; type: AssetType; } | null>(null);
-    
-    // --- PAGE LEVEL CONTROLS ---
-    const [selectedTextModel, setSelectedTextModel] = useState<GeminiModel>('gemini-2.5-flash');
 
     // Safe accessors to prevent crashes if bible or arrays are undefined
     const characters = project?.bible?.characters || [];
@@ -55,16 +54,12 @@ const StoryBible: React.FC = () => {
                     {/* TEXT MODEL SELECTOR */}
                     <div className="flex items-center gap-2 bg-surface p-1.5 rounded-lg border border-subtle">
                         <div className="px-2 text-xs font-bold text-muted uppercase tracking-wider flex items-center gap-1">
-                            <Wand2 size={12}/> AI Model:
+                            <Wand2 size={12}/> Profiles:
                         </div>
-                        <select 
-                            value={selectedTextModel}
-                            onChange={(e) => setSelectedTextModel(e.target.value as GeminiModel)}
+                        <TaskModelSelect
+                            task="character_profile"
                             className="bg-panel border-subtle rounded-md text-xs text-primary-text p-1.5 focus:ring-accent focus:border-accent min-w-[140px]"
-                        >
-                            <option value="gemini-2.5-flash">Gemini 2.5 Flash</option>
-                            <option value="gemini-3-pro-preview">Gemini 3.0 Pro</option>
-                        </select>
+                        />
                     </div>
 
                     <div className="flex gap-2 border-l border-subtle pl-4">
@@ -75,6 +70,7 @@ const StoryBible: React.FC = () => {
                         >
                             <Download size={14} /> Save .bible
                         </button>
+                        <EncryptedExportButton onExport={(passphrase) => saveBible(project, passphrase)} disabled={!project.bible?.synopsis} />
                         <button 
                             onClick={importBible} 
                             className="flex items-center gap-2 px-3 py-2 text-xs font-semibold bg-panel text-primary-text rounded-md hover:bg-subtle transition-colors"
@@ -127,7 +123,6 @@ const StoryBible: React.FC = () => {
                             key={selectedAsset.id} 
                             asset={selectedAsset} 
                             type={selectedAssetInfo.type} 
-                            selectedModel={selectedTextModel} // Pass the selected model
                         />
                     ) : (
                         <div className="flex flex-col items-center justify-center h-full text-center text-muted">
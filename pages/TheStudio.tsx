@@ -1,19 +1,19 @@
 import React, { useState } from 'react';
 import { useShowrunnerStore } from '../store/showrunnerStore';
-import { Scene, Shot, GeminiModel } from '../types';
+import { Scene, Shot } from '../types';
 import { DirectorDeck } from '../components/studio/DirectorDeck';
 import { Clapperboard, Film, PlusCircle, Archive, BrainCircuit, Wand2, Sparkles, Download, Upload, Trash2, Lock, Unlock } from 'lucide-react';
 import { saveStudio } from '../services/storageService';
+import EncryptedExportButton from '../components/shared/EncryptedExportButton';
+import TaskModelSelect from '../components/shared/TaskModelSelect';
 
 const TheStudio: React.FC = () => {
-    const { project, addShot, updateShot, deleteShot, generateShotsForScene, importStudio } = useShowrunnerStore(); 
+    const { project, addShot, updateShot, deleteShot, generateShotsForScene, importStudio, getTaskModels } = useShowrunnerStore(); 
     const [activeSceneId, setActiveSceneId] = useState<string | null>(null);
     const [activeShotId, setActiveShotId] = useState<string | null>(null);
     const [isGeneratingShots, setIsGeneratingShots] = useState(false);
 
     // --- PAGE LEVEL CONTROLS (Global to The Studio) ---
-    const [selectedTextModel, setSelectedTextModel] = useState<GeminiModel>('gemini-2.5-flash');
-    const [selectedImageModel, setSelectedImageModel] = useState<'gemini-2.5-flash-image' | 'gemini-3-pro-image-preview'>('gemini-3-pro-image-preview');
     const [selectedResolution, setSelectedResolution] = useState<string>('1K');
 
     if (!project) return null;
@@ -100,14 +100,10 @@ const TheStudio: React.FC = () => {
                         <div className="px-2 text-xs font-bold text-muted uppercase tracking-wider flex items-center gap-1">
                             Writer:
                         </div>
-                        <select 
-                            value={selectedTextModel}
-                            onChange={(e) => setSelectedTextModel(e.target.value as GeminiModel)}
+                        <TaskModelSelect
+                            task="shot_list"
                             className="bg-panel border-subtle rounded-md text-xs text-primary-text p-1.5 focus:ring-accent focus:border-accent min-w-[140px]"
-                        >
-                            <option value="gemini-2.5-flash">Gemini 2.5 Flash</option>
-                            <option value="gemini-3-pro-preview">Gemini 3.0 Pro</option>
-                        </select>
+                        />
                     </div>
 
                     {/* IMAGE MODEL SELECTOR */}
@@ -115,21 +111,17 @@ const TheStudio: React.FC = () => {
                          <div className="px-2 text-xs font-bold text-muted uppercase tracking-wider flex items-center gap-1">
                             <Sparkles size={12}/> Artist:
                          </div>
-                         <select 
-                            value={selectedImageModel}
-                            onChange={(e) => setSelectedImageModel(e.target.value as any)}
+                         <TaskModelSelect
+                            task="image"
                             className="bg-panel border-subtle rounded-md text-xs text-primary-text p-1.5 focus:ring-accent focus:border-accent min-w-[140px]"
-                         >
-                             <option value="gemini-2.5-flash-image">Gemini 2.5 Flash</option>
-                             <option value="gemini-3-pro-image-preview">Gemini 3.0 Pro</option>
-                         </select>
+                         />
 
                          <select
                             value={selectedResolution}
                             onChange={(e) => setSelectedResolution(e.target.value)}
-                            disabled={selectedImageModel !== 'gemini-3-pro-image-preview'}
+                            disabled={getTaskModels('image')[0]?.id === 'gemini-2.5-flash-image'}
                             className="bg-panel border-subtle rounded-md text-xs text-primary-text p-1.5 focus:ring-accent focus:border-accent disabled:opacity-50 disabled:cursor-not-allowed min-w-[80px]"
-                            title="Resolution (Pro model only)"
+                            title="Resolution (not available on Gemini 2.5 Flash)"
                          >
                              <option value="1K">1K</option>
                              <option value="2K">2K</option>
@@ -145,6 +137,7 @@ const TheStudio: React.FC = () => {
                         >
                             <Download size={14} /> Save .thestudio
                         </button>
+                        <EncryptedExportButton onExport={(passphrase) => saveStudio(project, passphrase)} />
                         <button 
                             onClick={importStudio} 
                             className="flex items-center gap-2 px-3 py-2 text-xs font-semibold bg-panel text-primary-text rounded-md hover:bg-subtle"
@@ -232,7 +225,7 @@ const TheStudio: React.FC = () => {
                                     >
                                         <div className="flex justify-between items-start mb-2">
                                             <span className={`font-bold text-xs flex items-center gap-2 ${isUserShot ? 'text-yellow-500' : 'text-primary'}`}>
-                                                Shot {idx + 1} {shot.generatedImageUrl && <span className="text-[9px] bg-green-900/50 text-green-400 px-1 rounded">IMG</span>}
+                                                Shot {idx + 1} {shot.generatedImageUrl && <span className="text-[9px] bg-green-900/50 text-green-400 px-1 rounded">IMG</span>} {shot.generatedVideoUrl && <span className="text-[9px] bg-blue-900/50 text-blue-400 px-1 rounded">VID</span>}
                                             </span>
                                             <div className="flex gap-1">
                                                 <button onClick={(e) => { e.stopPropagation(); toggleShotLock(shot); }} className={`p-1 rounded ${shot.isLocked ? 'text-red-400 hover:bg-red-900/20' : 'text-muted hover:text-green-400 hover:bg-green-900/20'}`}>
@@ -276,8 +269,6 @@ const TheStudio: React.FC = () => {
                             key={activeShot.id} 
                             shot={activeShot} 
                             scene={activeScene} 
-                            selectedTextModel={selectedTextModel}
-                            selectedImageModel={selectedImageModel}
                             selectedResolution={selectedResolution}
                         />
                     ) : (
@@ -0,0 +1,85 @@
+import { Project, Scene, DiffBucket, ProjectDiff } from '../types';
+
+// Flattens the script into labelled scenes (e.g. "S1E2 Sc3 - INT. KITCHEN")
+export const collectScenes = (project: Project): Map<string, { label: string; scene: Scene }> => {
+    const scenes = new Map<string, { label: string; scene: Scene }>();
+
+    project.script.seasons?.forEach(season => {
+        season.episodes.forEach(episode => {
+            episode.scenes.forEach(scene => {
+                scenes.set(scene.id, { label: `S${season.seasonNumber}E${episode.episodeNumber} Sc${scene.sceneNumber} - ${scene.setting}`, scene });
+            });
+        });
+    });
+
+    project.script.sequels?.forEach(sequel => {
+        sequel.acts.forEach(act => {
+            act.scenes.forEach(scene => {
+                scenes.set(scene.id, { label: `P${sequel.partNumber}A${act.actNumber} Sc${scene.sceneNumber} - ${scene.setting}`, scene });
+            });
+        });
+    });
+
+    return scenes;
+};
+
+const collectShots = (project: Project): Map<string, { label: string; data: unknown }> => {
+    const scenes = collectScenes(project);
+    const shots = new Map<string, { label: string; data: unknown }>();
+
+    Object.entries(project.studio?.shotsByScene || {}).forEach(([sceneId, sceneShots]) => {
+        const sceneLabel = scenes.get(sceneId)?.label.split(' - ')[0] || 'Unlinked Scene';
+        sceneShots.forEach(shot => {
+            shots.set(shot.id, { label: `${sceneLabel} Shot ${shot.shotNumber}`, data: shot });
+        });
+    });
+
+    return shots;
+};
+
+// Generic keyed comparison. Items are "changed" when their serialized form differs.
+const diffMaps = (before: Map<string, { label: string; data: unknown }>, after: Map<string, { label: string; data: unknown }>): DiffBucket => {
+    const bucket: DiffBucket = { added: [], removed: [], changed: [] };
+
+    after.forEach((item, id) => {
+        const previous = before.get(id);
+        if (!previous) bucket.added.push(item.label);
+        else if (JSON.stringify(previous.data) !== JSON.stringify(item.data)) bucket.changed.push(item.label);
+    });
+    before.forEach((item, id) => {
+        if (!after.has(id)) bucket.removed.push(item.label);
+    });
+
+    return bucket;
+};
+
+const toMap = <T extends { id: string }>(items: T[] | undefined, getLabel: (item: T) => string) => {
+    return new Map((items || []).map(item => [item.id, { label: getLabel(item), data: item }]));
+};
+
+/**
+ * Compares two project states and summarises what changed from `before` to `after`.
+ * Used by the checkpoint history browser.
+ */
+export const diffProjects = (before: Project, after: Project): ProjectDiff => {
+    const sceneMap = (project: Project) => {
+        const result = new Map<string, { label: string; data: unknown }>();
+        collectScenes(project).forEach(({ label, scene }, id) => result.set(id, { label, data: scene }));
+        return result;
+    };
+
+    return {
+        synopsisChanged: before.bible.synopsis !== after.bible.synopsis,
+        characters: diffMaps(toMap(before.bible.characters, c => c.profile.name), toMap(after.bible.characters, c => c.profile.name)),
+        locations: diffMaps(toMap(before.bible.locations, l => l.baseProfile.identity.name), toMap(after.bible.locations, l => l.baseProfile.identity.name)),
+        props: diffMaps(toMap(before.bible.props, p => p.baseProfile.identity.name), toMap(after.bible.props, p => p.baseProfile.identity.name)),
+        scenes: diffMaps(sceneMap(before), sceneMap(after)),
+        shots: diffMaps(collectShots(before), collectShots(after)),
+    };
+};
+
+export const isDiffEmpty = (diff: ProjectDiff): boolean => {
+    if (diff.synopsisChanged) return false;
+    return [diff.characters, diff.locations, diff.props, diff.scenes, diff.shots]
+        .every(bucket => bucket.added.length === 0 && bucket.removed.length === 0 && bucket.changed.length === 0);
+};
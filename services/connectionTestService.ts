@@ -0,0 +1,83 @@
+import { AIModelConfig } from '../types';
+import { InspectedRequest } from './requestInspectorService';
+import { isAbortError } from './requestScheduler';
+import { findUnfilledPlaceholders } from './requestTemplateService';
+
+// --- CONNECTION TEST DIAGNOSTICS ---
+// Turns the outcome of a custom model's test request into plain advice. Most failures
+// are a wrong URL, a key header without {{key}}, a CORS block or a guessed output path.
+
+export interface RequestPreview {
+    url: string;
+    method: string;
+    headers: Record<string, string>; // Key masked
+    payload: any;
+    hasKey: boolean;
+}
+
+export interface ConnectionTestResult {
+    entry: InspectedRequest; // The test call, as recorded in the request inspector
+    ok: boolean; // The request succeeded and the result field resolved
+    diagnostics: string[];
+}
+
+/** The top-level keys of a response, to suggest where a missing path should point. */
+export const describeResponseShape = (response: any): string => {
+    if (Array.isArray(response)) return `an array of ${response.length}`;
+    if (response && typeof response === 'object') return `keys ${Object.keys(response).map(k => `"${k}"`).join(', ') || '(none)'}`;
+    return typeof response === 'string' ? 'text, not JSON' : String(response);
+};
+
+const headersUseKey = (config: AIModelConfig) =>
+    Object.values(config.endpoints?.generate.headers || {}).some(value => value.includes('{{key}}'));
+
+export const diagnoseConnectionTest = (config: AIModelConfig, entry: InspectedRequest, error?: any): string[] => {
+    const hints: string[] = [];
+    const status = entry.status;
+
+    if (error) {
+        const message = String(error.message || error);
+        if (isAbortError(error)) return ['The test was cancelled.'];
+        if (message.startsWith('Missing API Key')) {
+            return [`No key is saved for "${config.provider}". Add one under API Keys; the header template's {{key}} is replaced with it.`];
+        }
+        if (error instanceof TypeError && status === undefined) {
+            hints.push('The request never got an answer. The host may be wrong or down, or the provider refuses browser requests (CORS). Local servers need CORS enabled; hosted APIs without CORS need a proxy.');
+        } else if (status === 401 || status === 403) {
+            hints.push(headersUseKey(config)
+                ? 'The provider rejected the key. Check the saved key and the header format (e.g. "Bearer {{key}}", "Key {{key}}", "Token {{key}}").'
+                : 'The provider rejected the request and no header includes {{key}}, so the key was never sent. Add e.g. "Authorization": "Bearer {{key}}".');
+        } else if (status === 404) {
+            hints.push(`Not found. Check the URL (${entry.url}) and the model id ("${config.id}"), which replaces {{id}}.`);
+        } else if (status === 400 || status === 422) {
+            hints.push('The provider rejected the payload. Compare the payload below with its API docs: field names, nesting and required fields.');
+        } else if (status === 429) {
+            hints.push('Rate limited. The connection works; wait a little or lower maxConcurrent in the requestPolicy.');
+        } else if (status !== undefined && status >= 500) {
+            hints.push('The provider failed on its side. The request may be fine; try again later.');
+        } else if (message.includes('Task ID')) {
+            hints.push(`The first response has no task id at "${config.endpoints?.generate.outputMapping?.id || 'id'}" (it has ${describeResponseShape(entry.initialResponse)}). Set outputMapping.id on the generate endpoint.`);
+        } else if (message.includes('status:') || message.includes('timed out')) {
+            hints.push(`Polling the status endpoint failed: ${message}`);
+        } else {
+            hints.push(message);
+        }
+    }
+
+    const unfilled = findUnfilledPlaceholders([entry.url, entry.payload]);
+    if (unfilled.length > 0) {
+        hints.push(`Sent literally, with no input to fill them: ${unfilled.map(n => `{{${n}}}`).join(', ')}.`);
+    }
+
+    if (!error) {
+        hints.push(`Connected: HTTP ${status} in ${entry.durationMs} ms.`);
+        Object.entries(entry.extracted).forEach(([key, field]) => {
+            if (field.value === undefined) {
+                hints.push(`outputMapping "${key}" → "${field.path}" found nothing. The response has ${describeResponseShape(entry.response)}.`);
+            }
+        });
+        const result = entry.extracted[config.family];
+        if (result?.value !== undefined) hints.push(`The ${config.family} result resolved at "${result.path}".`);
+    }
+    return hints;
+};
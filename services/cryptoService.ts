@@ -0,0 +1,77 @@
+// Passphrase encryption for exported archives.
+// Layout: MAGIC (8 bytes) | salt (16) | iv (12) | AES-GCM ciphertext + auth tag.
+// The header is passed as additional authenticated data, so editing any byte of
+// the file (header included) makes decryption fail instead of yielding bad data.
+
+const MAGIC = new TextEncoder().encode('SHWRENC1');
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const HEADER_LENGTH = MAGIC.length + SALT_LENGTH + IV_LENGTH;
+const PBKDF2_ITERATIONS = 310000;
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+const deriveKey = async (passphrase: string, salt: Uint8Array): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+};
+
+/** Checks the magic bytes without reading the whole file. */
+export const isEncryptedArchive = async (file: Blob): Promise<boolean> => {
+    if (file.size < HEADER_LENGTH) return false;
+    const head = new Uint8Array(await file.slice(0, MAGIC.length).arrayBuffer());
+    return MAGIC.every((byte, i) => head[i] === byte);
+};
+
+export const encryptArchive = async (archive: Blob, passphrase: string): Promise<Blob> => {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const header = new Uint8Array(HEADER_LENGTH);
+    header.set(MAGIC, 0);
+    header.set(salt, MAGIC.length);
+    header.set(iv, MAGIC.length + SALT_LENGTH);
+
+    const key = await deriveKey(passphrase, salt);
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData: header }, key, await archive.arrayBuffer());
+    return new Blob([header, ciphertext], { type: 'application/octet-stream' });
+};
+
+/** Throws a user-facing error if the passphrase is wrong or the file was altered. */
+export const decryptArchive = async (file: Blob, passphrase: string): Promise<Blob> => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const header = bytes.slice(0, HEADER_LENGTH);
+    const salt = header.slice(MAGIC.length, MAGIC.length + SALT_LENGTH);
+    const iv = header.slice(MAGIC.length + SALT_LENGTH);
+
+    const key = await deriveKey(passphrase, salt);
+    try {
+        const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv, additionalData: header }, key, bytes.slice(HEADER_LENGTH));
+        return new Blob([plaintext], { type: 'application/zip' });
+    } catch (error) {
+        // AES-GCM can't tell a wrong key from a modified file; both fail the auth tag check
+        throw new Error("Could not decrypt the archive. The passphrase is wrong, or the file is corrupted or has been tampered with.");
+    }
+};
+
+/** Asks for a new passphrase twice. Returns null if the user cancels or the entries don't match. */
+export const promptForNewPassphrase = (): string | null => {
+    const passphrase = prompt(`Enter a passphrase to encrypt this export (at least ${MIN_PASSPHRASE_LENGTH} characters).\nIt cannot be recovered if lost.`);
+    if (passphrase === null) return null;
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        alert(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+        return null;
+    }
+    const confirmation = prompt("Re-enter the passphrase to confirm.");
+    if (confirmation === null) return null;
+    if (confirmation !== passphrase) {
+        alert("Passphrases do not match. Export cancelled.");
+        return null;
+    }
+    return passphrase;
+};
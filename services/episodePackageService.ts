@@ -0,0 +1,116 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Project, Episode, Act, Scene, Shot, Character, Location, Prop, Bible, EpisodePackage, StateSnapshot } from '../types';
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Collects one episode/act with its scenes, its shots and every bible asset
+ * named in its scenes' `assets` lists.
+ */
+export const buildEpisodePackage = (project: Project, itemId: string): EpisodePackage | null => {
+    const isEpisodic = project.format.type === 'EPISODIC';
+    const item: Episode | Act | undefined = isEpisodic
+        ? project.script.seasons?.flatMap(s => s.episodes).find(e => e.id === itemId)
+        : project.script.sequels?.flatMap(s => s.acts).find(a => a.id === itemId);
+    if (!item) return null;
+
+    // 1. Shots for this item's scenes
+    const shotsByScene: Record<string, Shot[]> = {};
+    item.scenes.forEach(scene => {
+        const shots = project.studio.shotsByScene[scene.id];
+        if (shots && shots.length > 0) shotsByScene[scene.id] = shots;
+    });
+
+    // 2. Referenced assets (scene.assets holds names, not ids)
+    const names = { characters: new Set<string>(), locations: new Set<string>(), props: new Set<string>() };
+    item.scenes.forEach(scene => {
+        scene.assets?.characters.forEach(n => names.characters.add(normalizeName(n)));
+        scene.assets?.locations.forEach(n => names.locations.add(normalizeName(n)));
+        scene.assets?.props.forEach(n => names.props.add(normalizeName(n)));
+    });
+
+    return {
+        kind: isEpisodic ? 'episode' : 'act',
+        sourceProjectName: project.metadata.name,
+        // Undo history points at scene snapshots that are meaningless elsewhere
+        item: { ...item, sceneHistory: [], sceneRedoStack: [] },
+        shotsByScene,
+        assets: {
+            characters: project.bible.characters.filter(c => names.characters.has(normalizeName(c.profile.name))),
+            locations: project.bible.locations.filter(l => names.locations.has(normalizeName(l.baseProfile.identity.name))),
+            props: project.bible.props.filter(p => names.props.has(normalizeName(p.baseProfile.identity.name))),
+        },
+    };
+};
+
+export interface UnpackedEpisode {
+    item: Episode | Act;
+    shotsByScene: Record<string, Shot[]>;
+    bible: Bible;
+    addedAssets: number;
+    matchedAssets: number;
+}
+
+/**
+ * Remaps every id in a package so it can live alongside existing data, and
+ * merges its assets into the bible. Assets are matched by name; matched assets
+ * keep the target's profile and only gain timeline snapshots for the new scenes.
+ */
+export const unpackEpisodePackage = (pkg: EpisodePackage, project: Project, itemNumber: number): UnpackedEpisode => {
+    // 1. Scene ids
+    const sceneIdMap = new Map<string, string>();
+    const scenes: Scene[] = pkg.item.scenes.map(scene => {
+        const newId = uuidv4();
+        sceneIdMap.set(scene.id, newId);
+        return { ...scene, id: newId };
+    });
+
+    const item = pkg.kind === 'episode'
+        ? { ...(pkg.item as Episode), id: uuidv4(), episodeNumber: itemNumber, scenes, sceneHistory: [], sceneRedoStack: [] }
+        : { ...(pkg.item as Act), id: uuidv4(), actNumber: itemNumber, scenes, sceneHistory: [], sceneRedoStack: [] };
+
+    // 2. Shots (re-keyed by the new scene ids)
+    const shotsByScene: Record<string, Shot[]> = {};
+    Object.entries(pkg.shotsByScene).forEach(([oldSceneId, shots]) => {
+        const newSceneId = sceneIdMap.get(oldSceneId);
+        if (!newSceneId) return;
+        shotsByScene[newSceneId] = shots.map(shot => ({
+            ...shot,
+            id: uuidv4(),
+            referenceImages: shot.referenceImages?.map(ref => ({ ...ref, id: uuidv4() })),
+        }));
+    });
+
+    // 3. Assets
+    // Only snapshots tied to this package's scenes survive the move
+    const remapTimeline = (timeline: StateSnapshot[]) => timeline
+        .filter(snapshot => sceneIdMap.has(snapshot.sceneId))
+        .map(snapshot => ({ ...snapshot, id: uuidv4(), sceneId: sceneIdMap.get(snapshot.sceneId)! }));
+
+    let addedAssets = 0;
+    let matchedAssets = 0;
+
+    const mergeAssets = <T extends Character | Location | Prop>(existing: T[], incoming: T[], getName: (asset: T) => string): T[] => {
+        const result = [...existing];
+        incoming.forEach(asset => {
+            const index = result.findIndex(e => normalizeName(getName(e)) === normalizeName(getName(asset)));
+            if (index !== -1) {
+                matchedAssets++;
+                result[index] = { ...result[index], timeline: [...result[index].timeline, ...remapTimeline(asset.timeline)] };
+            } else {
+                addedAssets++;
+                result.push({ ...asset, id: uuidv4(), timeline: remapTimeline(asset.timeline) });
+            }
+        });
+        return result;
+    };
+
+    const bible: Bible = {
+        ...project.bible,
+        characters: mergeAssets(project.bible.characters, pkg.assets.characters, c => c.profile.name),
+        locations: mergeAssets(project.bible.locations, pkg.assets.locations, l => l.baseProfile.identity.name),
+        props: mergeAssets(project.bible.props, pkg.assets.props, p => p.baseProfile.identity.name),
+    };
+
+    return { item, shotsByScene, bible, addedAssets, matchedAssets };
+};
@@ -1,7 +1,11 @@
 import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { Project, Episode, Act, Character, Location, GeminiModel, ScreenplayItem, Shot, Scene, SceneAssets, Season, Sequel, ContinuityBrief, ShotReferenceImage, VideoPromptJSON, Asset, LocationVisuals, PropVisuals, CharacterProfile, AssetAnalysisResult } from '../types';
+import { Project, Episode, Act, Character, Location, ScreenplayItem, Shot, Scene, SceneAssets, Season, Sequel, ContinuityBrief, ShotReferenceImage, VideoPromptJSON, Asset, LocationVisuals, PropVisuals, CharacterProfile, AssetAnalysisResult, GenerationOptions, UsageContext, ModelChoice } from '../types';
 import { v4 as uuidv4 } from 'uuid';
 import { getImageFromDB } from './storageService';
+import { modelGateway } from './modelGateway';
+import { requestScheduler, isAbortError } from './requestScheduler';
+import { usageContext, findEpisodeForScene, checkBudget, recordUsage } from './usageLedgerService';
+import { isOfflineMode, SHOT_VIDEO_PROMPT_TASK } from './mockProviderService';
 
 const FORBIDDEN_NAMES = `Elara, Lyra, Aria, Astra, Seren, Selene, Elowen, Maeve, Mira, Mirae, Liora, Riven, Cassian, Kael, Kaelen, Kaelar, Thorne, Rowan, Ronan, Briar, Bryn, Brynn, Nyra, Nyla, Nera, Kora, Cora, Aeris, Eris, Elsin, Eveline, Evaline, Celes, Calder, Sorrel, Thea, Talia, Lilith, Lunara, Ravena, Ravenna, Soren, Drystan, Aldric, Aldrin, Leoric, Gareth, Galen, Cedric, Alistair, Sable, Seraphine, Seraphina, Ophelia, Isolde, Nerissa, Kaida, Darian, Darien, Elandra, Tamsin, Thalia, Ysolde, Vance, Zephyr, Zara, Nova, Orion, Axton, Kade, Kaiden, Zarek, Talos, Xylo, Xyla, Nexa, Zyra, Vira, Astraeus, Astraea, Talon, Draven, Aleron, Virel, Zeren, Nox, Lumen, Luna, Cyra, Cyris, Rexis, Rivan, Talonis, Zivra, Zorion, Cyrex, Vayla, Zorin, Xander, Dax, Daxon, Zeth, Varyn, Taren, Calyx, Lyron, Nyx, Nyxa, Solara, Solin, Pip, Milo, Finn, Willa, Willow, Juniper, Lottie, Benny, Tilly, Clover, Sunny, Sprout, Merry, Nibbles, Buttons, Bubbles, Penny, Rosie, Lulu, Ellie, Bambi, Fawn, Flora, Peaches, Dotty, Daisy, Mimi, Nina, Toto, Pippo, Zuzu, Moomoo, Puff, Mittens, Snowy, Maple, Hazel, Chip, Barnaby, Edmund, Edgar, Thaddeus, Percival, Archibald, Cornelius, Gideon, Lucinda, Evangeline, Agatha, Beatrice, Josephine, Eloise, Cordelia, Isadora, Rosalind, Adelaide, Henrietta, Clarence, Mortimer, Hawthorne, Ambrose, Wilfred, Reginald, Horace, Theodore, Geraldine, Prudence, Constance, Felix, Jasper, Elias, Cecil, Primrose, Winifred, Nigel, Rupert, Clementine, Dexter, Silas, Magnus, Harlan, Luther, Vivienne, Marlowe, Damien, Vincent, Roman, Clive, Donovan, Dorian, Tristan, Hollis, Reeves, Garrison, Fletcher, Grayson, Carmichael, Arthur, Clara, Eleanor, Charlotte, William, Henry, Olivia, Sophia, Amelia, Julia, Samuel, Adrian, Gabriel, Victor, Sebastian, Charles, Elizabeth, Isabelle, Isabel, Alice, Theo, George, Caroline, Anna, Kate, Eva, James, Lucas, Benjamin, Michael, Daniel, Chloe, Liam, Noah, Ava, Emma, Mason, Harper, Ethan, Grace, Nathan, Lily, Jackson, Ella, Zoe, Hannah, Leah, Ryan, Logan, Maya, Nora, Ruby, Leo, Ivy, Pipkin, Pogo, Squeaks, Whiskers, Binky, Fluffy, Snickers, Paws, Niblet, Puddles, Munchkin, Chirpy, Tuppy, Buzzy, Chippy, Fuzzy, Squiggles, Doodle, Arachne, Nyx, Helios, Iris, Echo, Aether, Gaia, Eros, Erevan, Erebus, Hecate, Zephyrus, Perseus, Calliope, Evadne, Nerine, Calypso, Eos, Aldrin, Roderick, Roderic, Eldrin, Eldrien, Elion, Elrin, Caladon, Rolan, Torin, Alaric, Caden, Gavin, Roderan, Eryn, Torwyn, Maelis, Ariwyn, Thandor, Balin, Balinor, Thamir, Eldwyn, Seraphiel, Meliora, Vaelis, Thrain, Varyn, Keldor, Rowena, Gwenna, Ylva, Eydis, Bryndis, Freya, Elena, Marcus, Kenji, Tanaka`;
 
@@ -30,6 +34,43 @@ Names may draw inspiration from natural geography, linguistic blending, cultural
 If the model produces ANY name that resembles the forbidden examples, the forbidden structures, the forbidden vibe, or real-world entities, it must discard the name and generate a completely new one.
 `;
 
+// Pulls the screenplay lines that have fully arrived out of a partial `{"screenplay":[...` response.
+// Walks the array tracking string/brace state, so a half-written line is simply left out.
+const parseStreamedScreenplay = (text: string): ScreenplayItem[] => {
+    const arrayStart = text.indexOf('[', text.indexOf('"screenplay"'));
+    if (text.indexOf('"screenplay"') === -1 || arrayStart === -1) return [];
+
+    const items: ScreenplayItem[] = [];
+    let depth = 0;
+    let objectStart = -1;
+    let inString = false;
+    for (let i = arrayStart + 1; i < text.length; i++) {
+        const ch = text[i];
+        if (inString) {
+            if (ch === '\\') i++;
+            else if (ch === '"') inString = false;
+            continue;
+        }
+        if (ch === '"') inString = true;
+        else if (ch === '{') { if (depth++ === 0) objectStart = i; }
+        else if (ch === '}' && depth > 0 && --depth === 0) {
+            try {
+                const item = JSON.parse(text.substring(objectStart, i + 1));
+                if (item && typeof item.type === 'string' && typeof item.text === 'string') items.push(item);
+            } catch { /* Skip malformed line */ }
+        }
+        else if (ch === ']' && depth === 0) break;
+    }
+    return items;
+};
+
+export type GeminiImageModel = 'gemini-2.5-flash-image' | 'gemini-3-pro-image-preview';
+const GEMINI_IMAGE_MODELS: readonly string[] = ['gemini-2.5-flash-image', 'gemini-3-pro-image-preview'];
+export const isGeminiImageModel = (id: string): id is GeminiImageModel => GEMINI_IMAGE_MODELS.includes(id);
+
+// Image prompts carry their framing as "Aspect Ratio: 1:1"; everything else is widescreen
+export const aspectRatioFromPrompt = (prompt: string): string => prompt.includes("Aspect Ratio: 1:1") ? "1:1" : "16:9";
+
 class GeminiService {
   private ai: GoogleGenAI;
 
@@ -77,6 +118,12 @@ class GeminiService {
         });
   }
 
+  /** Active references as the resized JPEG data URLs image models are sent, in order. */
+  public async prepareReferenceImages(referenceImages: ShotReferenceImage[]): Promise<string[]> {
+      const active = referenceImages.filter(ref => ref.isActive);
+      return Promise.all(active.map(async ref => this.resizeImage(await this.resolveImageForAI(ref.url), 1024, 0.7)));
+  }
+
   private async resolveImageForAI(urlOrId: string): Promise<string> {
       if (urlOrId.startsWith('img_')) {
           try {
@@ -121,76 +168,15 @@ class GeminiService {
     `;
   }
 
-  // Safe JSON extraction to prevent Regex RangeErrors on massive strings
-  private extractJSON(text: string): string {
-      const jsonStartMarker = '```json';
-      const jsonEndMarker = '```';
-      
-      const startIndex = text.indexOf(jsonStartMarker);
-      if (startIndex !== -1) {
-          const start = startIndex + jsonStartMarker.length;
-          const end = text.lastIndexOf(jsonEndMarker);
-          if (end > start) {
-              return text.substring(start, end).trim();
-          }
-      }
-
-      const firstOpen = text.indexOf('{');
-      const lastClose = text.lastIndexOf('}');
-      if (firstOpen !== -1 && lastClose !== -1 && lastClose > firstOpen) {
-          return text.substring(firstOpen, lastClose + 1);
-      }
-      
-      return text;
-  }
-
-  private async executeGeneration<T>(prompt: string, schema: any | undefined, modelName: string, maxTokens?: number): Promise<T> {
+  // Every text generation goes through the gateway, so custom text models work for all story flows
+  // A routed chain falls back to its next model when one fails
+  private async executeGeneration<T>(prompt: string, schema: any | undefined, model: ModelChoice, usage: UsageContext, options: GenerationOptions & { maxTokens?: number } = {}): Promise<T> {
+      const chain = Array.isArray(model) ? model : [model];
       try {
-          // Re-instantiate to ensure fresh config if needed (e.g. user changed key)
-          const apiKey = this.getApiKey();
-          if (!apiKey) throw new Error("No API Key found. Please configure it in Settings.");
-          
-          this.ai = new GoogleGenAI({ apiKey });
-          
-          const config: any = {
-              responseMimeType: "application/json",
-              temperature: 0.7,
-          };
-          
-          if (schema) {
-              config.responseSchema = schema;
-          }
-          
-          if (maxTokens) {
-              config.maxOutputTokens = maxTokens;
-          }
-
-          const response = await this.ai.models.generateContent({
-              model: modelName,
-              contents: prompt,
-              config: config,
-          });
-          
-          if (!response.text) throw new Error("Empty response from AI");
-          
-          let text = response.text;
-          
-          if (text.length > 2000000) {
-              console.warn("Response too large, truncating for safety.");
-              text = text.substring(0, 2000000);
-          }
-
-          const jsonString = this.extractJSON(text);
-          
-          try {
-            return JSON.parse(jsonString) as T;
-          } catch (parseError) {
-             console.error("JSON Parse Error. Raw Text Snippet:", text.substring(0, 500));
-             throw new Error("Failed to parse AI response as JSON.");
-          }
-
+          return await modelGateway.withFallbacks(chain, config => modelGateway.generateJSON<T>(prompt, config, { schema, ...options, usage }));
       } catch (error: any) {
-          console.error("Gemini Generation Error:", error);
+          if (isAbortError(error)) throw error;
+          console.error(`[${chain.map(m => m.name).join(' → ')}] Generation Error:`, error);
            if (error.message && (error.message.includes('429') || error.message.includes('RESOURCE_EXHAUSTED'))) {
             throw new Error("API Rate Limit Exceeded.");
         }
@@ -198,15 +184,14 @@ class GeminiService {
       }
   }
 
-    // --- AUDIO GENERATION (Google Cloud TTS) ---
-    async generateSpeech(text: string, character: Character): Promise<string> {
-        // 1. Determine Voice Params based on Character Profile
+    // --- VOICE CASTING (Google Cloud TTS) ---
+    // Picks a stock voice from the character profile, in the "languageCode:GENDER" form the gateway's TTS path takes
+    voiceForCharacter(character: Character): string {
         const gender = character.profile.visualDna?.gender?.toLowerCase() || 'neutral';
         const accent = character.profile.vocalProfile?.accentDialect?.toLowerCase() || 'american';
 
         let languageCode = 'en-US';
         let ssmlGender = 'NEUTRAL';
-        let voiceName = ''; // Optional specific voice override
 
         // Simple mapping logic
         if (accent.includes('british') || accent.includes('uk') || accent.includes('english')) {
@@ -225,46 +210,12 @@ class GeminiService {
             ssmlGender = 'MALE';
         }
 
-        const apiKey = this.getApiKey();
-        if (!apiKey) throw new Error("No API Key found. Please configure it in Settings.");
-
-        // 2. Call Google Cloud Text-to-Speech API
-        const url = `https://texttospeech.googleapis.com/v1/text:synthesize?key=${apiKey}`;
-
-        const payload = {
-            input: { text: text },
-            voice: { languageCode, ssmlGender },
-            audioConfig: { audioEncoding: "MP3" }
-        };
-
-        try {
-            const response = await fetch(url, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify(payload)
-            });
-
-            if (!response.ok) {
-                const errData = await response.json();
-                console.error("TTS API Error:", errData);
-                throw new Error(errData.error?.message || "Google TTS Request Failed");
-            }
-
-            const data = await response.json();
-            if (data.audioContent) {
-                return `data:audio/mp3;base64,${data.audioContent}`;
-            }
-            throw new Error("No audio content received.");
-
-        } catch (e) {
-            console.warn("Cloud TTS failed, falling back to browser synthesis mock for preview.", e);
-            throw e;
-        }
+        return `${languageCode}:${ssmlGender}`;
     }
 
     // --- TEXT GENERATION ---
 
-    async generateSynopsis(project: Project, model: GeminiModel): Promise<string> {
+    async generateSynopsis(project: Project, model: ModelChoice): Promise<string> {
       const prompt = `
           ${this.getProjectContext(project)}
           
@@ -282,11 +233,11 @@ class GeminiService {
           properties: { synopsis: { type: Type.STRING } },
           required: ['synopsis']
       };
-      const result = await this.executeGeneration<{ synopsis: string }>(prompt, schema, model);
+      const result = await this.executeGeneration<{ synopsis: string }>(prompt, schema, model, usageContext(project, 'Synopsis', 'Scriptwriter'));
       return result.synopsis;
   }
 
-  async generateInitialStructure(project: Project, model: GeminiModel): Promise<(Episode | Act)[]> {
+  async generateInitialStructure(project: Project, model: ModelChoice): Promise<(Episode | Act)[]> {
       const isEpisodic = project.format.type === 'EPISODIC';
       const count = Number(project.format.episodeCount) || (isEpisodic ? 8 : 3);
       const totalDuration = parseInt(project.format.duration) || 90;
@@ -334,7 +285,7 @@ class GeminiService {
       };
 
       try {
-        const result = await this.executeGeneration<{ items: any[] }>(prompt, schema, model);
+        const result = await this.executeGeneration<{ items: any[] }>(prompt, schema, model, usageContext(project, 'Structure', 'Scriptwriter'));
         
         if (!result.items || !Array.isArray(result.items)) {
             throw new Error("AI returned invalid structure format.");
@@ -362,7 +313,7 @@ class GeminiService {
       }
   }
 
-  async generateContinuityBrief(installment: Season | Sequel, project: Project, model: GeminiModel): Promise<Omit<ContinuityBrief, 'id' | 'isLocked' | 'projectId' | 'installmentId' | 'installmentTitle' | 'generatedAt'>> {
+  async generateContinuityBrief(installment: Season | Sequel, project: Project, model: ModelChoice): Promise<Omit<ContinuityBrief, 'id' | 'isLocked' | 'projectId' | 'installmentId' | 'installmentTitle' | 'generatedAt'>> {
       let contentContext = "";
       const isEpisodic = 'episodes' in installment;
 
@@ -415,10 +366,10 @@ class GeminiService {
           required: ['summary', 'characterResolutions', 'worldStateChanges', 'lingeringHooks']
       };
       
-      return this.executeGeneration(prompt, schema, model);
+      return this.executeGeneration(prompt, schema, model, usageContext(project, 'Continuity Brief', 'Scriptwriter'));
   }
 
-  async generateNextItemSynopsis(project: Project, currentInstallment: Season | Sequel, model: GeminiModel, previousBrief?: ContinuityBrief | null): Promise<{ title: string; logline?: string; summary?: string }> {
+  async generateNextItemSynopsis(project: Project, currentInstallment: Season | Sequel, model: ModelChoice, previousBrief?: ContinuityBrief | null): Promise<{ title: string; logline?: string; summary?: string }> {
       const isEpisodic = project.format.type === 'EPISODIC';
       const prompt = `
           ${this.getProjectContext(project)}
@@ -441,7 +392,7 @@ class GeminiService {
           },
           required: ['title', isEpisodic ? 'logline' : 'summary']
       };
-      const result = await this.executeGeneration<{ title: string; logline?: string; summary?: string }>(prompt, schema, model);
+      const result = await this.executeGeneration<{ title: string; logline?: string; summary?: string }>(prompt, schema, model, usageContext(project, 'Next Installment', 'Scriptwriter'));
       
       return {
           ...result,
@@ -452,7 +403,7 @@ class GeminiService {
       };
   }
 
-  async generateSceneSummariesForItem(item: Episode | Act, project: Project, model: GeminiModel): Promise<Scene[]> {
+  async generateSceneSummariesForItem(item: Episode | Act, project: Project, model: ModelChoice): Promise<Scene[]> {
       const isEpisodic = 'episodeNumber' in item;
       const duration = parseInt(project.format.duration) || 90;
       const count = project.format.episodeCount || (isEpisodic ? 8 : 3);
@@ -492,7 +443,7 @@ class GeminiService {
           required: ['scenes']
       };
       
-      const result = await this.executeGeneration<{ scenes: { setting: string; summary: string }[] }>(prompt, schema, model);
+      const result = await this.executeGeneration<{ scenes: { setting: string; summary: string }[] }>(prompt, schema, model, usageContext(project, 'Scene Summaries', 'Scriptwriter', item.id));
       return result.scenes.map((s, i) => ({
           id: uuidv4(),
           sceneNumber: i + 1,
@@ -507,8 +458,9 @@ class GeminiService {
   async generateScreenplayForScene(
       scene: Scene, 
       project: Project, 
-      model: GeminiModel, 
-      previousContext: string
+      model: ModelChoice, 
+      previousContext: string,
+      options: { onLines?: (lines: ScreenplayItem[]) => void; signal?: AbortSignal } = {}
   ): Promise<ScreenplayItem[]> {
       const knownCharacters = project.bible.characters.map(c => c.profile.name).join(", ");
       const knownLocs = project.bible.locations.map(l => l.baseProfile.identity.name).join(", ");
@@ -561,19 +513,32 @@ class GeminiService {
           required: ['screenplay']
       };
 
-      const result = await this.executeGeneration<{ screenplay: ScreenplayItem[] }>(prompt, schema, model);
+      // Stream when the caller wants live lines; only re-render when a new line has completed
+      let shownLines = 0;
+      const onText = options.onLines && ((text: string) => {
+          const lines = parseStreamedScreenplay(text);
+          if (lines.length === shownLines) return;
+          shownLines = lines.length;
+          options.onLines!(lines);
+      });
+
+      const result = await this.executeGeneration<{ screenplay: ScreenplayItem[] }>(
+          prompt, schema, model,
+          usageContext(project, 'Screenplay', 'Scriptwriter', findEpisodeForScene(project, scene.id)),
+          { onText, signal: options.signal }
+      );
       return result.screenplay;
   }
 
   // Deprecated/Legacy method used for reference - functionality moved to sequential generation
-  async generateScreenplayForEpisodeOrAct(item: Episode | Act, project: Project, model: GeminiModel, sceneIds: string[]): Promise<{ scenes: { sceneId: string; screenplay: ScreenplayItem[] }[] }> {
+  async generateScreenplayForEpisodeOrAct(item: Episode | Act, project: Project, model: ModelChoice, sceneIds: string[]): Promise<{ scenes: { sceneId: string; screenplay: ScreenplayItem[] }[] }> {
       // This function is kept for backward compatibility if needed, but the UI now uses sequential generation.
       // Logic mirrors generateScreenplayForScene but for batch.
       // We will reuse single scene generation logic iteratively in the UI.
       return { scenes: [] }; 
   }
 
-  async analyzeAssetsForEpisodeOrAct(item: Episode | Act, project: Project, model: GeminiModel, sceneIds: string[]): Promise<AssetAnalysisResult> {
+  async analyzeAssetsForEpisodeOrAct(item: Episode | Act, project: Project, model: ModelChoice, sceneIds: string[]): Promise<AssetAnalysisResult> {
       const scenes = item.scenes.filter(s => sceneIds.includes(s.id));
       const existingCharacterDB = project.bible.characters.map(c => c.profile.name).join(", ");
       const existingLocationDB = project.bible.locations.map(l => l.baseProfile.identity.name).join(", ");
@@ -645,7 +610,7 @@ ${script}
           required: ['identifiedCharacters', 'identifiedLocations', 'identifiedProps', 'sceneAssetMapping', 'assetStateChanges']
       };
 
-      const result = await this.executeGeneration<any>(prompt, schema, model, 8192);
+      const result = await this.executeGeneration<any>(prompt, schema, model, usageContext(project, 'Asset Analysis', 'Scriptwriter', item.id), { maxTokens: 8192 });
 
       // SAFE GUARDS for undefined arrays
       const changes = result.assetStateChanges || [];
@@ -686,7 +651,7 @@ ${script}
       };
   }
 
-  async generateCharacterProfile(character: Character, project: Project, model: GeminiModel): Promise<CharacterProfile> {
+  async generateCharacterProfile(character: Character, project: Project, model: ModelChoice): Promise<CharacterProfile> {
       const prompt = `
           ${this.getProjectContext(project)}
           
@@ -764,13 +729,13 @@ ${script}
         required: ['name', 'coreIdentity', 'visualDna', 'vocalProfile', 'outfitMatrix']
       };
       
-      const partial = await this.executeGeneration<any>(prompt, schema, model);
+      const partial = await this.executeGeneration<any>(prompt, schema, model, usageContext(project, 'Character Profile', 'Story Bible'));
       return { ...character.profile, ...partial };
   }
 
   // --- ART DEPT PROMPTS ---
 
-  async generateAssetArtPrompt(asset: Asset, project: Project, model: GeminiModel = 'gemini-2.5-flash'): Promise<string> {
+  async generateAssetArtPrompt(asset: Asset, project: Project, model: ModelChoice): Promise<string> {
       const isCharacter = 'profile' in asset;
       const name = isCharacter ? asset.profile.name : asset.baseProfile.identity.name;
       
@@ -852,13 +817,13 @@ ${script}
           required: ['imagePrompt']
       };
       
-      const result = await this.executeGeneration<{ imagePrompt: string }>(prompt, schema, model);
+      const result = await this.executeGeneration<{ imagePrompt: string }>(prompt, schema, model, usageContext(project, 'Art Prompt', 'Art Dept'));
       return result.imagePrompt;
   }
 
   // --- SHOT PROMPTS ---
 
-  async generateShotListForScene(scene: Scene, project: Project, model: GeminiModel): Promise<{ description: string, keyAssets: string[] }[]> {
+  async generateShotListForScene(scene: Scene, project: Project, model: ModelChoice): Promise<{ description: string, keyAssets: string[] }[]> {
       const allAssetNames = [
           ...project.bible.characters.map(c => c.profile.name),
           ...project.bible.locations.map(l => l.baseProfile.identity.name),
@@ -913,11 +878,11 @@ ${script}
           required: ['shots']
       };
 
-      const result = await this.executeGeneration<{ shots: { description: string, keyAssets: string[] }[] }>(prompt, schema, model);
+      const result = await this.executeGeneration<{ shots: { description: string, keyAssets: string[] }[] }>(prompt, schema, model, usageContext(project, 'Shot List', 'The Studio', findEpisodeForScene(project, scene.id)));
       return result.shots;
   }
 
-  async generateShotImagePrompt(scene: Scene, shot: Shot, project: Project, model: GeminiModel): Promise<string> {
+  async generateShotImagePrompt(scene: Scene, shot: Shot, project: Project, model: ModelChoice): Promise<string> {
       const prompt = `
           ${this.getProjectContext(project)}
 
@@ -937,11 +902,11 @@ ${script}
           required: ['imagePrompt']
       };
       
-      const result = await this.executeGeneration<{ imagePrompt: string }>(prompt, schema, model);
+      const result = await this.executeGeneration<{ imagePrompt: string }>(prompt, schema, model, usageContext(project, 'Shot Image Prompt', 'The Studio', findEpisodeForScene(project, scene.id)));
       return result.imagePrompt;
   }
 
-  async generateShotVideoPrompt(scene: Scene, shot: Shot, project: Project, model: GeminiModel): Promise<{ videoJSON: VideoPromptJSON, videoPlan: string }> {
+  async generateShotVideoPrompt(scene: Scene, shot: Shot, project: Project, model: ModelChoice): Promise<{ videoJSON: VideoPromptJSON, videoPlan: string }> {
       const structureTemplate = `{
   "metadata": { "title": "Shot Title", "description": "Shot Description", "intended_use": "Visual Reference" },
   "task": { "type": "text_to_video", "high_level_intent": "Cinematic Shot", "primary_subject": "Main character or element" },
@@ -988,18 +953,20 @@ ${script}
           Return JSON with 'videoJSON' (structure matching template) and 'videoPlan' (string).
       `;
       
-      return await this.executeGeneration<{ videoJSON: VideoPromptJSON, videoPlan: string }>(prompt, undefined, model);
+      return await this.executeGeneration<{ videoJSON: VideoPromptJSON, videoPlan: string }>(prompt, undefined, model, usageContext(project, SHOT_VIDEO_PROMPT_TASK, 'The Studio', findEpisodeForScene(project, scene.id)));
   }
 
-  async generateVisual(prompt: string, model: 'gemini-2.5-flash-image' | 'gemini-3-pro-image-preview' = 'gemini-2.5-flash-image', resolution: string = '1K', referenceImages: ShotReferenceImage[] = []): Promise<string> {
+  async generateVisual(prompt: string, model: GeminiImageModel = 'gemini-2.5-flash-image', resolution: string = '1K', referenceImages: ShotReferenceImage[] = [], usage?: UsageContext): Promise<string> {
+      const modelConfig = modelGateway.resolveModel(model, []);
+      if (isOfflineMode()) return modelGateway.generateVisual(prompt, modelConfig, { usage });
+      await checkBudget(usage);
       try {
           const apiKey = this.getApiKey();
           if (!apiKey) throw new Error("No API Key found. Please configure it in Settings.");
 
           this.ai = new GoogleGenAI({ apiKey });
 
-          let aspectRatio = "16:9";
-          if (prompt.includes("Aspect Ratio: 1:1")) aspectRatio = "1:1";
+          const aspectRatio = aspectRatioFromPrompt(prompt);
           
           const config: any = {};
           let tools: any[] = [];
@@ -1019,20 +986,17 @@ ${script}
           let promptText = prompt;
           
           if (referenceImages.length > 0) {
-              for (const ref of referenceImages) {
-                  if (ref.isActive) {
-                      const resolvedUrl = await this.resolveImageForAI(ref.url);
-                      const resizedDataUrl = await this.resizeImage(resolvedUrl, 1024, 0.7);
-                      
-                      parts.push({ text: ref.sourceType === 'character' ? "Reference Character:" : "Reference Style/Structure:" });
-                      parts.push({
-                          inlineData: {
-                              mimeType: "image/jpeg", 
-                              data: resizedDataUrl.split(',')[1] 
-                          }
-                      });
-                  }
-              }
+              const activeRefs = referenceImages.filter(ref => ref.isActive);
+              const resizedDataUrls = await this.prepareReferenceImages(activeRefs);
+              activeRefs.forEach((ref, i) => {
+                  parts.push({ text: ref.sourceType === 'character' ? "Reference Character:" : "Reference Style/Structure:" });
+                  parts.push({
+                      inlineData: {
+                          mimeType: "image/jpeg", 
+                          data: resizedDataUrls[i].split(',')[1] 
+                      }
+                  });
+              });
               // CRITICAL FIX: Explicitly tell the model what to do with the images
               promptText = `INSTRUCTIONS: Use the provided reference images as the STRUCTURAL BASIS and COMPOSITION for this generation. Do not just take inspiration; maintain the layout and key elements of the reference, but apply the style described below.\n\nPROMPT: ${prompt}`;
           }
@@ -1049,7 +1013,13 @@ ${script}
               requestParams.tools = tools;
           }
 
-          const response = await this.ai.models.generateContent(requestParams);
+          const ai = this.ai;
+          const response = await requestScheduler.run(modelConfig, () => ai.models.generateContent(requestParams));
+          await recordUsage(usage, modelConfig, {
+              inputTokens: response.usageMetadata?.promptTokenCount,
+              outputTokens: response.usageMetadata?.candidatesTokenCount,
+              images: 1,
+          });
           
           for (const part of response.candidates?.[0]?.content?.parts || []) {
               if (part.inlineData) {
@@ -1069,16 +1039,17 @@ ${script}
       }
   }
 
-  async generateShotImage(prompt: string, referenceImages: ShotReferenceImage[], modelName: 'gemini-2.5-flash-image' | 'gemini-3-pro-image-preview' = 'gemini-3-pro-image-preview', resolution: string = '1K'): Promise<string> {
+  async generateShotImage(prompt: string, referenceImages: ShotReferenceImage[], modelName: GeminiImageModel = 'gemini-3-pro-image-preview', resolution: string = '1K', usage?: UsageContext): Promise<string> {
       // Re-using the logic from generateVisual since it now handles references robustly
-      return this.generateVisual(prompt, modelName, resolution, referenceImages);
+      return this.generateVisual(prompt, modelName, resolution, referenceImages, usage);
   }
 
   // New method for smart reorder checks
   async analyzeReorderImpact(
       originalScenes: Scene[],
       newScenes: Scene[],
-      project: Project
+      project: Project,
+      model: ModelChoice
   ): Promise<{ significant: boolean; reason: string }> {
       // Don't waste tokens if it's just one scene or no content
       const hasContent = originalScenes.some(s => s.summary.length > 10);
@@ -1107,7 +1078,6 @@ ${script}
           Return JSON: { "significant": boolean, "reason": "Short explanation of impact" }
       `;
 
-      // Use Flash for speed
       const schema = {
           type: Type.OBJECT,
           properties: {
@@ -1121,7 +1091,8 @@ ${script}
           return await this.executeGeneration<{ significant: boolean, reason: string }>(
               prompt, 
               schema, 
-              'gemini-2.5-flash'
+              model,
+              usageContext(project, 'Reorder Check', 'Scriptwriter', findEpisodeForScene(project, originalScenes[0].id))
           );
       } catch (e) {
           console.error("Reorder analysis failed", e);
@@ -0,0 +1,77 @@
+import { getImageFromDB, getThumbnailFromDB } from './storageService';
+
+export type ImageSize = 'thumbnail' | 'original';
+
+interface CacheEntry {
+    url: string;
+    refs: number; // Mounted components currently showing this URL
+}
+
+// How many unused object URLs to keep around for quick remounts (scrolling, tab switches)
+const MAX_IDLE_ENTRIES = 150;
+
+// Map iteration follows insertion order, so re-inserting on use keeps it least-recently-used first
+const entries = new Map<string, CacheEntry>();
+const inFlight = new Map<string, Promise<string | null>>();
+
+const cacheKey = (id: string, size: ImageSize) => `${size}:${id}`;
+
+// Revokes the oldest idle URLs beyond the limit. URLs still referenced are never revoked.
+const prune = () => {
+    let idle = 0;
+    entries.forEach(entry => { if (entry.refs === 0) idle++; });
+    for (const [key, entry] of entries) {
+        if (idle <= MAX_IDLE_ENTRIES) break;
+        if (entry.refs > 0) continue;
+        URL.revokeObjectURL(entry.url);
+        entries.delete(key);
+        idle--;
+    }
+};
+
+const load = (id: string, size: ImageSize): Promise<string | null> => {
+    const key = cacheKey(id, size);
+    let pending = inFlight.get(key);
+    if (!pending) {
+        pending = (size === 'thumbnail' ? getThumbnailFromDB(id) : getImageFromDB(id))
+            .then(blob => {
+                if (!blob) return null;
+                // Another caller may have filled the entry while this one was loading
+                const existing = entries.get(key);
+                if (existing) return existing.url;
+                const url = URL.createObjectURL(blob);
+                entries.set(key, { url, refs: 0 });
+                return url;
+            })
+            .finally(() => inFlight.delete(key));
+        inFlight.set(key, pending);
+    }
+    return pending;
+};
+
+/**
+ * Resolves an image id to a shared object URL and takes a reference on it.
+ * Every successful acquire must be paired with releaseImageUrl.
+ * Returns null if the image isn't in the database.
+ */
+export const acquireImageUrl = async (id: string, size: ImageSize = 'original'): Promise<string | null> => {
+    const key = cacheKey(id, size);
+    if (!entries.has(key)) {
+        const url = await load(id, size);
+        if (!url) return null;
+    }
+
+    const entry = entries.get(key);
+    if (!entry) return null;
+    entry.refs++;
+    entries.delete(key);
+    entries.set(key, entry);
+    return entry.url;
+};
+
+export const releaseImageUrl = (id: string, size: ImageSize = 'original') => {
+    const entry = entries.get(cacheKey(id, size));
+    if (!entry) return;
+    entry.refs = Math.max(0, entry.refs - 1);
+    if (entry.refs === 0) prune();
+};
@@ -0,0 +1,224 @@
+import { Bible, Script, Studio, Season, Sequel, Episode, Act, Shot, MergeItem, MergePlan, MergeChoice, MergeSection } from '../types';
+
+// --- HELPERS ---
+
+const isPlainObject = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const sameJSON = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const normalizeName = (name: string | undefined) => (name || '').trim().toLowerCase();
+
+// Lists the dotted paths that differ between two values, descending `depth` levels into objects
+const diffFields = (a: any, b: any, prefix = '', depth = 2): string[] => {
+    if (sameJSON(a, b)) return [];
+    if (depth === 0 || !isPlainObject(a) || !isPlainObject(b)) return [prefix || '(value)'];
+
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    const fields: string[] = [];
+    keys.forEach(key => {
+        if (key === 'id') return;
+        fields.push(...diffFields(a[key], b[key], prefix ? `${prefix}.${key}` : key, depth - 1));
+    });
+    return fields;
+};
+
+const withoutId = <T extends { id: string }>(item: T) => {
+    const { id, ...rest } = item;
+    return rest;
+};
+
+/**
+ * Matches incoming items against current ones by id first, then by a secondary key
+ * (name for assets, number for episodes/acts). Returns new and conflicting items;
+ * identical matches are only counted.
+ */
+const planList = <T extends { id: string }>(
+    section: MergeSection,
+    currentList: T[],
+    incomingList: T[],
+    getSecondaryKey: (item: T) => string,
+    getLabel: (item: T) => string,
+    parentId?: string
+): { items: MergeItem[]; identicalCount: number } => {
+    const items: MergeItem[] = [];
+    let identicalCount = 0;
+
+    incomingList.forEach(incoming => {
+        let matchedBy: 'id' | 'name' | undefined;
+        let current = currentList.find(c => c.id === incoming.id);
+        if (current) {
+            matchedBy = 'id';
+        } else {
+            const secondaryKey = getSecondaryKey(incoming);
+            current = secondaryKey ? currentList.find(c => getSecondaryKey(c) === secondaryKey) : undefined;
+            if (current) matchedBy = 'name';
+        }
+
+        const key = parentId ? `${section}:${parentId}/${incoming.id}` : `${section}:${incoming.id}`;
+        if (!current) {
+            items.push({ key, section, parentId, label: getLabel(incoming), status: 'new', incoming, changedFields: [] });
+        } else if (sameJSON(withoutId(current), withoutId(incoming))) {
+            identicalCount++;
+        } else {
+            items.push({ key, section, parentId, label: getLabel(current), status: 'conflict', matchedBy, current, incoming, changedFields: diffFields(withoutId(current), withoutId(incoming)) });
+        }
+    });
+
+    return { items, identicalCount };
+};
+
+/** New items are added and conflicts keep the current version unless a choice says otherwise. */
+export const defaultMergeChoice = (item: MergeItem): MergeChoice => item.status === 'new' ? 'incoming' : 'current';
+
+const chosenSide = (item: MergeItem, choices: Record<string, MergeChoice>): MergeChoice => choices[item.key] || defaultMergeChoice(item);
+
+// Applies the chosen side for one list. Incoming winners keep the current id so references stay valid.
+const applyList = <T extends { id: string }>(currentList: T[], items: MergeItem[], choices: Record<string, MergeChoice>): T[] => {
+    const result = [...currentList];
+    items.forEach(item => {
+        if (chosenSide(item, choices) !== 'incoming') return;
+        if (item.status === 'conflict') {
+            const index = result.findIndex(c => c.id === item.current.id);
+            if (index !== -1) result[index] = { ...item.incoming, id: item.current.id };
+        } else {
+            result.push(item.incoming);
+        }
+    });
+    return result;
+};
+
+// --- BIBLE ---
+
+export const planBibleMerge = (current: Bible, incoming: Bible): MergePlan => {
+    const characters = planList('characters', current.characters, incoming.characters, c => normalizeName(c.profile.name), c => c.profile.name);
+    const locations = planList('locations', current.locations, incoming.locations, l => normalizeName(l.baseProfile.identity.name), l => l.baseProfile.identity.name);
+    const props = planList('props', current.props, incoming.props, p => normalizeName(p.baseProfile.identity.name), p => p.baseProfile.identity.name);
+
+    return {
+        module: 'bible',
+        items: [...characters.items, ...locations.items, ...props.items],
+        identicalCount: characters.identicalCount + locations.identicalCount + props.identicalCount,
+    };
+};
+
+export const applyBibleMerge = (current: Bible, plan: MergePlan, choices: Record<string, MergeChoice>, incoming: Bible): Bible => {
+    const itemsFor = (section: MergeSection) => plan.items.filter(i => i.section === section);
+    return {
+        // Synopsis and lore aren't per-asset; the current project wins unless it has none
+        synopsis: current.synopsis || incoming.synopsis,
+        lore: { ...incoming.lore, ...current.lore },
+        characters: applyList(current.characters, itemsFor('characters'), choices),
+        locations: applyList(current.locations, itemsFor('locations'), choices),
+        props: applyList(current.props, itemsFor('props'), choices),
+    };
+};
+
+// --- SCRIPT ---
+// Episodes/acts are the unit of choice. They are matched inside the season/sequel
+// that matches by id or number; unmatched containers are created on apply.
+
+const findContainer = <T extends { id: string }>(list: T[], incoming: T, getNumber: (item: T) => number) =>
+    list.find(c => c.id === incoming.id) || list.find(c => getNumber(c) === getNumber(incoming));
+
+export const planScriptMerge = (current: Script, incoming: Script): MergePlan => {
+    const items: MergeItem[] = [];
+    let identicalCount = 0;
+    // Only merge the structure the current project uses (seasons for series, sequels otherwise)
+    const acceptsSeasons = current.seasons !== undefined || current.sequels === undefined;
+    const acceptsSequels = current.sequels !== undefined || current.seasons === undefined;
+
+    (acceptsSeasons ? incoming.seasons || [] : []).forEach(season => {
+        const target = findContainer(current.seasons || [], season, s => s.seasonNumber);
+        const result = planList<Episode>('episodes', target?.episodes || [], season.episodes, e => String(e.episodeNumber), e => `S${season.seasonNumber}E${e.episodeNumber}: ${e.title}`, season.id);
+        items.push(...result.items);
+        identicalCount += result.identicalCount;
+    });
+
+    (acceptsSequels ? incoming.sequels || [] : []).forEach(sequel => {
+        const target = findContainer(current.sequels || [], sequel, s => s.partNumber);
+        const result = planList<Act>('acts', target?.acts || [], sequel.acts, a => String(a.actNumber), a => `Part ${sequel.partNumber} Act ${a.actNumber}: ${a.title}`, sequel.id);
+        items.push(...result.items);
+        identicalCount += result.identicalCount;
+    });
+
+    return { module: 'script', items, identicalCount };
+};
+
+export const applyScriptMerge = (current: Script, plan: MergePlan, choices: Record<string, MergeChoice>, incoming: Script): Script => {
+    const mergeContainers = <C extends { id: string }, I extends { id: string }>(
+        currentContainers: C[] | undefined,
+        incomingContainers: C[] | undefined,
+        section: MergeSection,
+        getNumber: (c: C) => number,
+        getChildren: (c: C) => I[],
+        setChildren: (c: C, children: I[]) => C
+    ): C[] | undefined => {
+        if (!incomingContainers || incomingContainers.length === 0) return currentContainers;
+        const result = [...(currentContainers || [])];
+
+        incomingContainers.forEach(incomingContainer => {
+            const items = plan.items.filter(i => i.section === section && i.parentId === incomingContainer.id);
+            if (items.length === 0) return;
+
+            const target = findContainer(result, incomingContainer, getNumber);
+            if (target) {
+                const index = result.indexOf(target);
+                result[index] = setChildren(target, applyList(getChildren(target), items, choices));
+            } else {
+                const children = applyList<I>([], items, choices);
+                if (children.length > 0) result.push(setChildren(incomingContainer, children));
+            }
+        });
+        return result;
+    };
+
+    return {
+        seasons: mergeContainers<Season, Episode>(current.seasons, incoming.seasons, 'episodes', s => s.seasonNumber, s => s.episodes, (s, episodes) => ({ ...s, episodes })),
+        sequels: mergeContainers<Sequel, Act>(current.sequels, incoming.sequels, 'acts', s => s.partNumber, s => s.acts, (s, acts) => ({ ...s, acts })),
+    };
+};
+
+// --- STUDIO ---
+// A scene's whole shot list is the unit of choice.
+
+const describeShotChanges = (current: Shot[], incoming: Shot[]): string[] => {
+    const changes: string[] = [];
+    incoming.forEach(shot => {
+        const match = current.find(s => s.id === shot.id) || current.find(s => s.shotNumber === shot.shotNumber);
+        if (!match) changes.push(`Shot ${shot.shotNumber} (added)`);
+        else if (!sameJSON(withoutId(match), withoutId(shot))) changes.push(...diffFields(withoutId(match), withoutId(shot), `Shot ${shot.shotNumber}`, 1));
+    });
+    current.forEach(shot => {
+        if (!incoming.some(s => s.id === shot.id || s.shotNumber === shot.shotNumber)) changes.push(`Shot ${shot.shotNumber} (not in incoming)`);
+    });
+    return changes;
+};
+
+export const planStudioMerge = (current: Studio, incoming: Studio, getSceneLabel: (sceneId: string) => string): MergePlan => {
+    const items: MergeItem[] = [];
+    let identicalCount = 0;
+
+    Object.entries(incoming.shotsByScene).forEach(([sceneId, shots]) => {
+        const currentShots = current.shotsByScene[sceneId];
+        const key = `shots:${sceneId}`;
+        if (!currentShots || currentShots.length === 0) {
+            items.push({ key, section: 'shots', label: getSceneLabel(sceneId), status: 'new', incoming: shots, changedFields: [] });
+        } else if (sameJSON(currentShots, shots)) {
+            identicalCount++;
+        } else {
+            items.push({ key, section: 'shots', label: getSceneLabel(sceneId), status: 'conflict', matchedBy: 'id', current: currentShots, incoming: shots, changedFields: describeShotChanges(currentShots, shots) });
+        }
+    });
+
+    return { module: 'studio', items, identicalCount };
+};
+
+export const applyStudioMerge = (current: Studio, plan: MergePlan, choices: Record<string, MergeChoice>): Studio => {
+    const shotsByScene = { ...current.shotsByScene };
+    plan.items.forEach(item => {
+        if (chosenSide(item, choices) === 'incoming') {
+            shotsByScene[item.key.slice('shots:'.length)] = item.incoming;
+        }
+    });
+    return { ...current, shotsByScene };
+};
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Project } from '../types';
+
+// IndexedDB is replaced by an in-memory image store
+const storedImages = new Map<string, string>();
+
+vi.mock('./storageService', () => ({
+    storeImageInDB: vi.fn(async (dataUri: string) => {
+        const id = `img_stored-${storedImages.size + 1}`;
+        storedImages.set(id, dataUri);
+        return id;
+    }),
+    listImageIdsInDB: vi.fn(async () => new Set(storedImages.keys())),
+}));
+
+import { runProjectMigrations, LATEST_DATA_VERSION } from './migrationService';
+import { storeImageInDB } from './storageService';
+
+const INLINE_IMAGE = 'data:image/png;base64,iVBORw0KGgo=';
+
+const makeProject = (overrides: { dataVersion: number; characterImage?: string; shotImage?: string; history?: string[] }): Project => ({
+    dataVersion: overrides.dataVersion,
+    metadata: { id: 'project-1', name: 'Test Project', createdAt: 0, updatedAt: 0 },
+    bible: {
+        characters: [{
+            id: 'char-1',
+            profile: {
+                name: 'Ada',
+                generatedImageUrl: overrides.characterImage,
+                imageHistory: (overrides.history || []).map(url => ({ url, createdAt: 0 })),
+            },
+        }],
+        locations: [],
+        props: [],
+    },
+    studio: {
+        shotsByScene: {
+            'scene-1': [{ id: 'shot-1', shotNumber: 1, generatedImageUrl: overrides.shotImage }],
+        },
+    },
+} as unknown as Project);
+
+const snapshot = (project: Project) => JSON.parse(JSON.stringify(project));
+
+beforeEach(() => {
+    storedImages.clear();
+    vi.mocked(storeImageInDB).mockClear();
+});
+
+describe('v1: inline Base64 images', () => {
+    it('reports pending moves in a dry run without touching the project or the image store', async () => {
+        const project = makeProject({ dataVersion: 0, characterImage: INLINE_IMAGE, history: [INLINE_IMAGE] });
+        const before = snapshot(project);
+
+        const result = await runProjectMigrations(project, { dryRun: true });
+
+        expect(project).toEqual(before);
+        expect(result.dryRun).toBe(true);
+        expect(result.fromVersion).toBe(0);
+        expect(result.steps[0].version).toBe(1);
+        expect(result.steps[0].changes).toEqual([
+            'Character "Ada": stored inline image',
+            'Character "Ada" history: stored inline image',
+        ]);
+        expect(storeImageInDB).not.toHaveBeenCalled();
+        expect(storedImages.size).toBe(0);
+    });
+
+    it('moves the images into IndexedDB, bumps dataVersion and is a no-op on a second run', async () => {
+        const project = makeProject({ dataVersion: 0, characterImage: INLINE_IMAGE, history: [INLINE_IMAGE] });
+
+        const first = await runProjectMigrations(project);
+        const profile = first.project.bible.characters[0].profile;
+
+        expect(first.project.dataVersion).toBe(LATEST_DATA_VERSION);
+        expect(first.toVersion).toBe(LATEST_DATA_VERSION);
+        expect(profile.generatedImageUrl).toMatch(/^img_stored-/);
+        expect(profile.imageHistory?.[0].url).toMatch(/^img_stored-/);
+        expect(storedImages.size).toBe(2);
+        // Images stored by v1 must not look missing to the later migrations
+        expect(first.project.quarantine).toBeUndefined();
+
+        const second = await runProjectMigrations(first.project);
+
+        expect(second.steps).toEqual([]);
+        expect(second.project).toEqual(first.project);
+        expect(storedImages.size).toBe(2);
+    });
+});
+
+describe('v2: missing image references', () => {
+    it('reports pending quarantines in a dry run without changing the project', async () => {
+        storedImages.set('img_present', INLINE_IMAGE);
+        const project = makeProject({ dataVersion: 1, characterImage: 'img_present', shotImage: 'img_missing' });
+        const before = snapshot(project);
+
+        const result = await runProjectMigrations(project, { dryRun: true });
+
+        expect(project).toEqual(before);
+        expect(result.steps.find(step => step.version === 2)?.changes).toEqual([]);
+        expect(result.steps.find(step => step.version === 3)?.changes).toEqual(['Shot 1: quarantined img_missing']);
+    });
+
+    it('quarantines the references instead of deleting them, bumps dataVersion and is a no-op on a second run', async () => {
+        storedImages.set('img_present', INLINE_IMAGE);
+        const project = makeProject({ dataVersion: 1, characterImage: 'img_present', shotImage: 'img_missing' });
+
+        const first = await runProjectMigrations(project);
+
+        expect(first.project.dataVersion).toBe(LATEST_DATA_VERSION);
+        expect(first.project.bible.characters[0].profile.generatedImageUrl).toBe('img_present');
+        expect(first.project.studio.shotsByScene['scene-1'][0].generatedImageUrl).toBeUndefined();
+        expect(first.project.quarantine).toHaveLength(1);
+        expect(first.project.quarantine?.[0]).toMatchObject({ imageId: 'img_missing', ownerId: 'shot-1', field: 'generatedImageUrl' });
+
+        const second = await runProjectMigrations(first.project);
+
+        expect(second.steps).toEqual([]);
+        expect(second.project).toEqual(first.project);
+    });
+});
+
+describe('v3: quarantining missing image references', () => {
+    it('reports pending quarantines in a dry run without changing the project', async () => {
+        const project = makeProject({ dataVersion: 2, shotImage: 'img_lost', history: ['img_lost-history'] });
+        const before = snapshot(project);
+
+        const result = await runProjectMigrations(project, { dryRun: true });
+
+        expect(project).toEqual(before);
+        expect(result.steps.map(step => step.version)).toEqual([3]);
+        expect(result.steps[0].changes).toEqual([
+            'Character "Ada" - history: quarantined img_lost-history',
+            'Shot 1: quarantined img_lost',
+        ]);
+    });
+
+    it('moves the references into project.quarantine, bumps dataVersion and is a no-op on a second run', async () => {
+        const project = makeProject({ dataVersion: 2, shotImage: 'img_lost' });
+
+        const first = await runProjectMigrations(project);
+
+        expect(first.project.dataVersion).toBe(3);
+        expect(first.project.studio.shotsByScene['scene-1'][0].generatedImageUrl).toBeUndefined();
+        expect(first.project.quarantine).toHaveLength(1);
+        expect(first.project.quarantine?.[0]).toMatchObject({ imageId: 'img_lost', ownerType: 'shot', ownerId: 'shot-1', sceneId: 'scene-1', field: 'generatedImageUrl' });
+
+        const second = await runProjectMigrations(first.project);
+
+        expect(second.steps).toEqual([]);
+        expect(second.project).toEqual(first.project);
+    });
+});
@@ -1,227 +1,154 @@
-import { Project } from '../types';
-import { storeImageInDB, initDB } from './storageService';
-
-/**
- * Traverses the project, migrates Base64 images to IndexedDB,
- * AND cleans up "Ghost" references (IDs that point to missing images).
- */
-export const migrateProjectImages = async (project: Project): Promise<Project> => {
-    let hasChanges = false;
-    // Deep clone to avoid mutating the original object immediately
-    let newProject = JSON.parse(JSON.stringify(project)); 
-
-    // --- STEP 1: MIGRATE BASE64 TO INDEXEDDB ---
-    
-    // Helper to process a potential image string
-    const processImage = async (val: string | undefined): Promise<string | undefined> => {
-        if (!val) return val;
-        // If it's already an ID, skip
-        if (val.startsWith('img_')) return val;
-        // If it's a data URI
-        if (val.startsWith('data:image')) {
-            hasChanges = true;
-            return await storeImageInDB(val);
-        }
-        return val;
-    };
-
-    // 1. Bible Characters
-    if (newProject.bible?.characters) {
-        for (const char of newProject.bible.characters) {
-            if (char.profile) {
-                char.profile.generatedImageUrl = await processImage(char.profile.generatedImageUrl);
-                if (char.profile.imageHistory) {
-                    for (const h of char.profile.imageHistory) {
-                        h.url = await processImage(h.url) || h.url;
-                    }
+import { Project, MigrationResult, MigrationStepReport } from '../types';
+import { storeImageInDB, listImageIdsInDB } from './storageService';
+import { quarantineBrokenReferences } from './quarantineService';
+
+// --- MIGRATION REGISTRY ---
+// Each migration runs once per project and bumps `project.dataVersion` to its own
+// version. To change the stored shape of a Shot, Scene, CharacterProfile etc., append
+// a migration here rather than guarding old shapes with `?.` across the pages.
+
+interface MigrationContext {
+    dryRun: boolean;
+    // Stores a data URI and returns its image id. In a dry run nothing is written.
+    storeImage: (dataUri: string) => Promise<string>;
+    // Image ids in IndexedDB, plus any stored earlier in this run
+    imageIds: Set<string>;
+}
+
+export interface ProjectMigration {
+    version: number;
+    description: string;
+    // Mutates `project` (a private deep copy) and describes each change it made
+    migrate: (project: Project, context: MigrationContext) => Promise<string[]>;
+}
+
+export const MIGRATIONS: ProjectMigration[] = [
+    {
+        version: 1,
+        description: 'Move inline Base64 images into IndexedDB',
+        migrate: async (project, context) => {
+            const changes: string[] = [];
+
+            // Helper to process a potential image string
+            const processImage = async (val: string | undefined, where: string): Promise<string | undefined> => {
+                if (!val || !val.startsWith('data:image')) return val;
+                changes.push(`${where}: stored inline image`);
+                return await context.storeImage(val);
+            };
+
+            // 1. Bible Characters
+            for (const char of project.bible?.characters || []) {
+                if (!char.profile) continue;
+                const where = `Character "${char.profile.name}"`;
+                char.profile.generatedImageUrl = await processImage(char.profile.generatedImageUrl, where);
+                for (const h of char.profile.imageHistory || []) {
+                    h.url = await processImage(h.url, `${where} history`) || h.url;
                 }
             }
-        }
-    }
 
-    // 2. Bible Locations
-    if (newProject.bible?.locations) {
-        for (const loc of newProject.bible.locations) {
-            if (loc.baseProfile?.visuals) {
-                loc.baseProfile.visuals.generatedImageUrl = await processImage(loc.baseProfile.visuals.generatedImageUrl);
-                if (loc.baseProfile.visuals.imageHistory) {
-                    for (const h of loc.baseProfile.visuals.imageHistory) {
-                        h.url = await processImage(h.url) || h.url;
-                    }
+            // 2. Bible Locations & Props
+            const assets = [
+                ...(project.bible?.locations || []).map(l => ({ label: `Location "${l.baseProfile?.identity?.name}"`, visuals: l.baseProfile?.visuals })),
+                ...(project.bible?.props || []).map(p => ({ label: `Prop "${p.baseProfile?.identity?.name}"`, visuals: p.baseProfile?.visuals })),
+            ];
+            for (const { label, visuals } of assets) {
+                if (!visuals) continue;
+                visuals.generatedImageUrl = await processImage(visuals.generatedImageUrl, label);
+                for (const h of visuals.imageHistory || []) {
+                    h.url = await processImage(h.url, `${label} history`) || h.url;
                 }
-                if (loc.baseProfile.visuals.referenceImages) {
-                     const newRefs = [];
-                     for (const ref of loc.baseProfile.visuals.referenceImages) {
-                         const id = await processImage(ref);
-                         if (id) newRefs.push(id);
-                     }
-                     loc.baseProfile.visuals.referenceImages = newRefs;
-                }
-            }
-        }
-    }
-
-    // 3. Bible Props
-    if (newProject.bible?.props) {
-        for (const prop of newProject.bible.props) {
-            if (prop.baseProfile?.visuals) {
-                prop.baseProfile.visuals.generatedImageUrl = await processImage(prop.baseProfile.visuals.generatedImageUrl);
-                if (prop.baseProfile.visuals.imageHistory) {
-                    for (const h of prop.baseProfile.visuals.imageHistory) {
-                        h.url = await processImage(h.url) || h.url;
+                if (visuals.referenceImages) {
+                    const newRefs: string[] = [];
+                    for (const ref of visuals.referenceImages) {
+                        const id = await processImage(ref, `${label} reference`);
+                        if (id) newRefs.push(id);
                     }
-                }
-                if (prop.baseProfile.visuals.referenceImages) {
-                     const newRefs = [];
-                     for (const ref of prop.baseProfile.visuals.referenceImages) {
-                         const id = await processImage(ref);
-                         if (id) newRefs.push(id);
-                     }
-                     prop.baseProfile.visuals.referenceImages = newRefs;
+                    visuals.referenceImages = newRefs;
                 }
             }
-        }
-    }
 
-    // 4. Studio Shots
-    if (newProject.studio?.shotsByScene) {
-        for (const sceneId in newProject.studio.shotsByScene) {
-            const shots = newProject.studio.shotsByScene[sceneId];
-            for (const shot of shots) {
-                shot.generatedImageUrl = await processImage(shot.generatedImageUrl);
-                if (shot.imageHistory) {
-                     for (const h of shot.imageHistory) {
-                        h.url = await processImage(h.url) || h.url;
+            // 3. Studio Shots
+            for (const shots of Object.values(project.studio?.shotsByScene || {})) {
+                for (const shot of shots) {
+                    const where = `Shot ${shot.shotNumber}`;
+                    shot.generatedImageUrl = await processImage(shot.generatedImageUrl, where);
+                    for (const h of shot.imageHistory || []) {
+                        h.url = await processImage(h.url, `${where} history`) || h.url;
                     }
-                }
-                if (shot.referenceImages) {
-                    for (const ref of shot.referenceImages) {
-                        ref.url = await processImage(ref.url) || ref.url;
+                    for (const ref of shot.referenceImages || []) {
+                        ref.url = await processImage(ref.url, `${where} reference`) || ref.url;
                     }
                 }
             }
-        }
-    }
 
-    if (hasChanges) {
-        console.log("Migration complete: Legacy Base64 images moved to IndexedDB.");
-    }
+            return changes;
+        },
+    },
+    {
+        version: 2,
+        description: 'Check references to images missing from IndexedDB (handled by v3)',
+        // Used to delete missing references outright. It now keeps its slot so projects
+        // below v2 reach v3, which quarantines them instead and nothing is lost.
+        migrate: async () => [],
+    },
+    {
+        version: 3,
+        description: 'Quarantine references to images missing from IndexedDB',
+        migrate: async (project, context) => {
+            // Missing images keep their links in project.quarantine so they can be re-linked later
+            const moved = quarantineBrokenReferences(project, context.imageIds);
+            return moved.map(ref => `${ref.label}: quarantined ${ref.imageId}`);
+        },
+    },
+];
+
+export const LATEST_DATA_VERSION = MIGRATIONS.reduce((max, m) => Math.max(max, m.version), 0);
 
-    // --- STEP 2: CLEAN UP GHOST REFERENCES (Dead Links) ---
-    // This removes references to images that do NOT exist in the DB.
-    try {
-        newProject = await cleanupBrokenReferences(newProject);
-    } catch (e) {
-        console.error("Cleanup failed, proceeding with project load:", e);
+/**
+ * Applies every migration newer than `project.dataVersion`, in order.
+ * With `dryRun`, nothing is written to IndexedDB and the returned project is
+ * only a preview; the report lists what a real run would change.
+ */
+export const runProjectMigrations = async (project: Project, options: { dryRun?: boolean } = {}): Promise<MigrationResult> => {
+    const dryRun = !!options.dryRun;
+    const fromVersion = project.dataVersion || 0;
+    const pending = MIGRATIONS.filter(m => m.version > fromVersion).sort((a, b) => a.version - b.version);
+    if (pending.length === 0) return { project, fromVersion, toVersion: fromVersion, steps: [], dryRun };
+
+    // Deep clone so a failed migration never leaves the original half-changed
+    const draft: Project = JSON.parse(JSON.stringify(project));
+    const imageIds = await listImageIdsInDB();
+    let placeholderCount = 0;
+    const context: MigrationContext = {
+        dryRun,
+        // Newly stored ids join the known set so later migrations don't treat them as missing
+        storeImage: async (dataUri) => {
+            const id = dryRun ? `img_dry-run-${++placeholderCount}` : await storeImageInDB(dataUri);
+            imageIds.add(id);
+            return id;
+        },
+        imageIds,
+    };
+
+    const steps: MigrationStepReport[] = [];
+    for (const migration of pending) {
+        const changes = await migration.migrate(draft, context);
+        draft.dataVersion = migration.version;
+        steps.push({ version: migration.version, description: migration.description, changes });
     }
 
-    return newProject;
-};
+    const changed = steps.reduce((sum, step) => sum + step.changes.length, 0);
+    if (!dryRun) console.log(`[Migration] "${project.metadata.name}" v${fromVersion} -> v${draft.dataVersion} (${changed} changes).`);
 
-// --- HELPER: CLEANUP LOGIC ---
-const cleanupBrokenReferences = async (project: Project): Promise<Project> => {
-    // FIX: Using native Promise wrapper because 'store.getAllKeys()' returns an IDBRequest, not a Promise.
-    const getKeys = async (store: IDBObjectStore): Promise<IDBValidKey[]> => {
-        return new Promise((resolve, reject) => {
-            const request = store.getAllKeys();
-            request.onsuccess = () => resolve(request.result);
-            request.onerror = () => reject(request.error);
-        });
-    };
+    return { project: draft, fromVersion, toVersion: draft.dataVersion!, steps, dryRun };
+};
 
+/** Brings a stored or imported project up to LATEST_DATA_VERSION. */
+export const migrateProject = async (project: Project): Promise<Project> => {
     try {
-        const db = await initDB();
-        const tx = db.transaction('images', 'readonly');
-        const store = tx.objectStore('images');
-        
-        // Get ALL valid Image IDs currently in the database
-        const keys = await getKeys(store); 
-        const validImageIds = new Set(keys.map(k => String(k)));
-        
-        let cleanedCount = 0;
-
-        // Check function: Returns the ID if valid, or undefined if invalid
-        const verifyId = (id: string | undefined): string | undefined => {
-            if (!id) return undefined;
-            // Only check our generated IDs (starting with img_)
-            if (id.startsWith('img_')) {
-                if (!validImageIds.has(id)) {
-                    cleanedCount++;
-                    return undefined; // Remove it!
-                }
-            }
-            return id;
-        };
-
-        // Check function for Arrays: Filters out invalid IDs
-        const verifyArray = (ids: string[] | undefined): string[] => {
-            if (!ids) return [];
-            return ids.filter(id => {
-                const isValid = !id.startsWith('img_') || validImageIds.has(id);
-                if (!isValid) cleanedCount++;
-                return isValid;
-            });
-        };
-
-        // --- TRAVERSE AND CLEAN ---
-
-        // 1. Characters
-        project.bible.characters.forEach(c => {
-            c.profile.generatedImageUrl = verifyId(c.profile.generatedImageUrl);
-            if (c.profile.imageHistory) {
-                c.profile.imageHistory = c.profile.imageHistory.filter(h => validImageIds.has(h.url));
-            }
-            // Add referenceImages cleanup if CharacterProfile has it (future proofing)
-            if (c.profile.referenceImages) {
-                c.profile.referenceImages = verifyArray(c.profile.referenceImages);
-            }
-        });
-
-        // 2. Locations
-        project.bible.locations.forEach(l => {
-            const v = l.baseProfile.visuals;
-            v.generatedImageUrl = verifyId(v.generatedImageUrl);
-            v.referenceImageUrl = verifyId(v.referenceImageUrl);
-            if (v.imageHistory) v.imageHistory = v.imageHistory.filter(h => validImageIds.has(h.url));
-            if (v.referenceImages) v.referenceImages = verifyArray(v.referenceImages);
-        });
-
-        // 3. Props
-        project.bible.props.forEach(p => {
-            const v = p.baseProfile.visuals;
-            v.generatedImageUrl = verifyId(v.generatedImageUrl);
-            v.referenceImageUrl = verifyId(v.referenceImageUrl);
-            if (v.imageHistory) v.imageHistory = v.imageHistory.filter(h => validImageIds.has(h.url));
-            if (v.referenceImages) v.referenceImages = verifyArray(v.referenceImages);
-        });
-
-        // 4. Studio Shots
-        if (project.studio?.shotsByScene) {
-            Object.values(project.studio.shotsByScene).forEach(shots => {
-                shots.forEach(shot => {
-                    shot.generatedImageUrl = verifyId(shot.generatedImageUrl);
-                    if (shot.imageHistory) {
-                        shot.imageHistory = shot.imageHistory.filter(h => validImageIds.has(h.url));
-                    }
-                    if (shot.referenceImages) {
-                        // Shot references are objects, check the .url property
-                        shot.referenceImages = shot.referenceImages.filter(ref => {
-                            const isValid = !ref.url.startsWith('img_') || validImageIds.has(ref.url);
-                            if (!isValid) cleanedCount++;
-                            return isValid;
-                        });
-                    }
-                });
-            });
-        }
-
-        if (cleanedCount > 0) {
-            console.log(`[Project Health] Removed ${cleanedCount} broken image references from the project.`);
-        }
-
+        return (await runProjectMigrations(project)).project;
     } catch (e) {
-        console.error("Error during project cleanup:", e);
+        console.error("[Migration] Failed, proceeding with project load:", e);
+        return project;
     }
-
-    return project;
-};
\ No newline at end of file
+};
@@ -0,0 +1,317 @@
+import { AIModelConfig, AudioRequest } from '../types';
+import { sleep } from './requestScheduler';
+
+// --- LOCAL MOCK PROVIDER ---
+// Offline stand-in for every model family. Output is seeded from the model and the request,
+// so the same request always gives the same result: demos, onboarding and tests need no keys
+// or network. Text follows the requested schema; media are generated placeholders.
+
+export const MOCK_PROVIDER = 'local_mock';
+
+const OFFLINE_MODE_KEY = 'offline_mode';
+
+export const MOCK_MODELS: AIModelConfig[] = [
+    { id: 'mock-text', name: 'Mock Writer (Offline)', provider: MOCK_PROVIDER, family: 'text', contextWindow: 1000000 },
+    { id: 'mock-image', name: 'Mock Image (Offline)', provider: MOCK_PROVIDER, family: 'image', contextWindow: 0 },
+    { id: 'mock-video', name: 'Mock Video (Offline)', provider: MOCK_PROVIDER, family: 'video', contextWindow: 0 },
+    { id: 'mock-audio', name: 'Mock Audio (Offline)', provider: MOCK_PROVIDER, family: 'audio', contextWindow: 0 },
+];
+
+/** In offline mode every generation is answered by the mock provider and no remote model list is fetched. */
+export const isOfflineMode = (): boolean => localStorage.getItem(OFFLINE_MODE_KEY) === 'true';
+
+export const saveOfflineMode = (enabled: boolean) => {
+    if (enabled) localStorage.setItem(OFFLINE_MODE_KEY, 'true');
+    else localStorage.removeItem(OFFLINE_MODE_KEY);
+};
+
+export const mockModelFor = (family: AIModelConfig['family']): AIModelConfig => MOCK_MODELS.find(m => m.family === family)!;
+
+// Long enough for spinners to show, short enough for tests
+const MOCK_LATENCY_MS = 400;
+
+export const simulateLatency = (signal?: AbortSignal) => sleep(MOCK_LATENCY_MS, signal);
+
+// --- SEEDING ---
+
+type Random = () => number;
+
+// cyrb53: a fast string hash with good spread
+const hashString = (text: string): number => {
+    let h1 = 0xdeadbeef, h2 = 0x41c6ce57;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+};
+
+// mulberry32
+export const seededRandom = (seed: string): Random => {
+    let state = hashString(seed) >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+const pick = <T>(rand: Random, items: T[]): T => items[Math.floor(rand() * items.length)];
+const between = (rand: Random, min: number, max: number) => min + Math.floor(rand() * (max - min + 1));
+
+// --- TEXT ---
+
+const NAMES = ['Anya Petrova', 'Elias Thorne', 'Maya Singh', 'Kenji Tanaka', 'Rosa Delgado', 'Kiko', 'Tomas Brandt', 'Ines Okafor'];
+const PLACES = ['LIGHTHOUSE', 'TRAIN STATION', 'ROOFTOP GARDEN', 'FOREST CLEARING', 'NIGHT MARKET', 'OBSERVATORY'];
+const PROPS = ['Brass Compass', 'Torn Map', 'Old Radio', 'Silver Locket', 'Lantern'];
+const WORDS = [
+    'quiet', 'storm', 'letter', 'harbor', 'promise', 'shadow', 'signal', 'river', 'echo', 'lantern',
+    'secret', 'winter', 'bridge', 'engine', 'garden', 'memory', 'distant', 'hollow', 'golden', 'broken',
+    'the', 'a', 'of', 'and', 'beneath', 'toward', 'after', 'before', 'waits', 'returns', 'finds', 'leaves',
+];
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const sentence = (rand: Random, minWords = 8, maxWords = 16) => {
+    const words = Array.from({ length: between(rand, minWords, maxWords) }, () => pick(rand, WORDS));
+    return `${capitalize(words.join(' '))}.`;
+};
+
+const paragraph = (rand: Random, sentences = 4) => Array.from({ length: sentences }, () => sentence(rand)).join(' ');
+
+const UUID_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi;
+
+export const mockText = (seed: string): string => {
+    const rand = seededRandom(seed);
+    return Array.from({ length: between(rand, 2, 3) }, () => paragraph(rand)).join('\n\n');
+};
+
+interface SchemaContext {
+    rand: Random;
+    ids: string[]; // Ids quoted in the prompt, so scene references point at real scenes
+}
+
+// Field names drive plausible values; anything unrecognized becomes a sentence
+const mockString = (key: string, ctx: SchemaContext): string => {
+    const { rand } = ctx;
+    if (/id$/i.test(key) && ctx.ids.length > 0) return pick(rand, ctx.ids);
+    if (/^(name|assetName)$/.test(key)) return pick(rand, NAMES);
+    if (/title/i.test(key)) return `The ${capitalize(pick(rand, WORDS.slice(0, 20)))} ${capitalize(pick(rand, WORDS.slice(0, 20)))}`;
+    if (/setting/i.test(key)) return `${pick(rand, ['INT.', 'EXT.'])} ${pick(rand, PLACES)} - ${pick(rand, ['DAY', 'NIGHT', 'DUSK'])}`;
+    if (/prompt/i.test(key)) return `${pick(rand, NAMES)}, ${sentence(rand, 6, 10)} Cinematic lighting, Aspect Ratio: 16:9.`;
+    if (/synopsis|summary|description|reasoning|logline/i.test(key)) return paragraph(rand, key === 'synopsis' ? 8 : 2);
+    return sentence(rand, 3, 8);
+};
+
+const mockNumber = (key: string, index: number, ctx: SchemaContext): number => {
+    if (/number$/i.test(key)) return index + 1;
+    if (/start_time/i.test(key)) return index * 4;
+    if (/duration/i.test(key)) return 4;
+    return between(ctx.rand, 1, 10);
+};
+
+/** Builds a value that passes validateStructuredOutput for a Gemini-style schema. */
+const fromSchema = (schema: any, ctx: SchemaContext, key = '', index = 0): any => {
+    switch (String(schema?.type || '').toUpperCase()) {
+        case 'OBJECT':
+            return Object.fromEntries(Object.entries(schema.properties || {}).map(([k, s]) => [k, fromSchema(s, ctx, k, index)]));
+        case 'ARRAY': {
+            // Arrays of names get distinct assets; everything else 2–4 items
+            if (schema.items?.type?.toUpperCase?.() === 'STRING' && /characters|keyAssets/.test(key)) return NAMES.slice(0, between(ctx.rand, 1, 3));
+            if (schema.items?.type?.toUpperCase?.() === 'STRING' && /props/.test(key)) return PROPS.slice(0, between(ctx.rand, 1, 2));
+            return Array.from({ length: between(ctx.rand, 2, 4) }, (_, i) => fromSchema(schema.items, ctx, key, i));
+        }
+        case 'STRING':
+            return schema.enum ? pick(ctx.rand, schema.enum) : mockString(key, ctx);
+        case 'NUMBER':
+        case 'INTEGER':
+            return mockNumber(key, index, ctx);
+        case 'BOOLEAN':
+            return ctx.rand() < 0.5;
+        default:
+            return mockString(key, ctx);
+    }
+};
+
+/** Usage task label of the shot video prompt, which asks for VideoPromptJSON without a schema. */
+export const SHOT_VIDEO_PROMPT_TASK = 'Shot Video Prompt';
+
+// Tasks that ask for JSON without sending a schema, keyed by their usage task label.
+// Callers label their usage with the exported constant so the two can't drift apart.
+const UNSCHEMATIZED_OUTPUTS: Record<string, (rand: Random) => any> = {
+    [SHOT_VIDEO_PROMPT_TASK]: (rand) => {
+        const segments = Array.from({ length: between(rand, 1, 3) }, (_, i) => ({
+            segment_id: `seg_0${i + 1}`,
+            start_time_seconds: i * 4,
+            duration_seconds: 4,
+            segment_purpose: sentence(rand, 3, 5),
+            segment_description: sentence(rand),
+            camera: { shot_type: pick(rand, ['Wide', 'Medium', 'Close-up']), camera_position: 'Eye level', camera_movement: pick(rand, ['Static', 'Pan Right', 'Dolly In']) },
+        }));
+        return {
+            videoJSON: {
+                metadata: { title: `The ${capitalize(pick(rand, WORDS.slice(0, 20)))}`, description: sentence(rand), intended_use: 'Visual Reference' },
+                task: { type: 'text_to_video', high_level_intent: 'Cinematic Shot', primary_subject: pick(rand, NAMES) },
+                model_config: { model_name: 'mock-video', generation_mode: 'text_to_video' },
+                video_spec: { total_duration_seconds: segments.length * 4, fps: 24, aspect_ratio: '16:9', output_format: 'mp4' },
+                global_style: { visual_style: 'Cinematic', mood_and_tone: pick(rand, ['Dramatic', 'Tender', 'Tense']), lighting_style: 'Soft', camera_feel: 'Steady' },
+                global_text_prompt: { scene_description: sentence(rand), primary_subject_description: sentence(rand), camera_and_movement_overview: sentence(rand, 4, 8), keywords: ['cinematic', pick(rand, WORDS.slice(0, 20))] },
+                animation_plan: { overall_motion_goal: 'Smooth', subject_motion_plan: sentence(rand, 4, 8), environment_change_plan: 'None' },
+                segments,
+            },
+            videoPlan: segments.map(s => `${s.start_time_seconds.toFixed(2)}–${(s.start_time_seconds + s.duration_seconds).toFixed(2)} — '${s.segment_purpose}' (${s.camera.shot_type}, ${s.camera.camera_movement})\n${s.segment_description}`).join('\n\n'),
+        };
+    },
+};
+
+/**
+ * Seeded JSON for a structured request. Follows the schema when there is one,
+ * otherwise a fixture for the usage task, otherwise a single text field.
+ */
+export const mockStructuredOutput = (seed: string, prompt: string, schema?: any, task?: string): any => {
+    const rand = seededRandom(seed);
+    if (schema) return fromSchema(schema, { rand, ids: [...new Set(prompt.match(UUID_PATTERN) || [])] });
+    const fixture = task && UNSCHEMATIZED_OUTPUTS[task];
+    return fixture ? fixture(rand) : { text: paragraph(rand) };
+};
+
+// --- MEDIA ---
+
+// 1×1 grey PNG, for environments without a canvas
+const FALLBACK_PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+const paintFrame = (ctx: CanvasRenderingContext2D, rand: Random, label: string, progress = 0) => {
+    const { width, height } = ctx.canvas;
+    const hue = Math.floor(rand() * 360);
+    const gradient = ctx.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, `hsl(${hue}, 45%, 25%)`);
+    gradient.addColorStop(1, `hsl(${(hue + 60 + progress * 90) % 360}, 55%, 45%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+
+    for (let i = 0; i < 6; i++) {
+        ctx.fillStyle = `hsla(${(hue + i * 40) % 360}, 70%, 70%, 0.25)`;
+        ctx.beginPath();
+        ctx.arc((rand() * width + progress * width * 0.3) % width, rand() * height, 20 + rand() * height / 4, 0, Math.PI * 2);
+        ctx.fill();
+    }
+
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+    ctx.font = `bold ${Math.round(height / 18)}px sans-serif`;
+    ctx.fillText('MOCK', width * 0.05, height * 0.12);
+    ctx.font = `${Math.round(height / 30)}px sans-serif`;
+    ctx.fillText(label.slice(0, 80), width * 0.05, height * 0.92);
+};
+
+const createCanvas = (prompt: string): HTMLCanvasElement | null => {
+    if (typeof document === 'undefined') return null;
+    const canvas = document.createElement('canvas');
+    const square = prompt.includes('Aspect Ratio: 1:1');
+    canvas.width = square ? 768 : 1024;
+    canvas.height = square ? 768 : 576;
+    return canvas;
+};
+
+/** A seeded placeholder picture, as base64 PNG like the image models return. */
+export const mockImage = (seed: string, prompt: string): string => {
+    const canvas = createCanvas(prompt);
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return FALLBACK_PNG;
+    paintFrame(ctx, seededRandom(seed), prompt);
+    return canvas.toDataURL('image/png').split(',')[1];
+};
+
+const MOCK_CLIP_SECONDS = 2;
+const MOCK_FPS = 24;
+
+/**
+ * Records a short animated placeholder as WebM. Without MediaRecorder (tests, old browsers)
+ * resolves with an empty WebM blob so callers still get something to store.
+ */
+export const mockVideo = async (seed: string, prompt: string, signal?: AbortSignal): Promise<Blob> => {
+    const canvas = createCanvas(prompt);
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || typeof MediaRecorder === 'undefined') {
+        await simulateLatency(signal);
+        return new Blob([], { type: 'video/webm' });
+    }
+
+    const recorder = new MediaRecorder(canvas.captureStream(MOCK_FPS), { mimeType: 'video/webm' });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => chunks.push(e.data);
+    const stopped = new Promise(resolve => { recorder.onstop = resolve; });
+
+    recorder.start();
+    try {
+        const frames = MOCK_CLIP_SECONDS * MOCK_FPS;
+        for (let frame = 0; frame < frames; frame++) {
+            // Same seed every frame so only `progress` moves the picture
+            const rand = seededRandom(seed);
+            paintFrame(ctx, rand, prompt, frame / frames);
+            await sleep(1000 / MOCK_FPS, signal);
+        }
+    } finally {
+        recorder.stop();
+        await stopped;
+    }
+    return new Blob(chunks, { type: 'video/webm' });
+};
+
+const SAMPLE_RATE = 22050;
+
+const encodeWav = (samples: Float32Array): Blob => {
+    const buffer = new ArrayBuffer(44 + samples.length * 2);
+    const view = new DataView(buffer);
+    const writeString = (offset: number, text: string) => [...text].forEach((c, i) => view.setUint8(offset + i, c.charCodeAt(0)));
+
+    writeString(0, 'RIFF');
+    view.setUint32(4, 36 + samples.length * 2, true);
+    writeString(8, 'WAVE');
+    writeString(12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, 1, true); // Mono
+    view.setUint32(24, SAMPLE_RATE, true);
+    view.setUint32(28, SAMPLE_RATE * 2, true);
+    view.setUint16(32, 2, true);
+    view.setUint16(34, 16, true);
+    writeString(36, 'data');
+    view.setUint32(40, samples.length * 2, true);
+    samples.forEach((s, i) => view.setInt16(44 + i * 2, Math.max(-1, Math.min(1, s)) * 0x7fff, true));
+
+    return new Blob([buffer], { type: 'audio/wav' });
+};
+
+/**
+ * A seeded WAV placeholder: blips at speaking pace for speech and voice design,
+ * a looping arpeggio for music and a decaying noise burst for effects.
+ */
+export const mockAudio = (seed: string, request: AudioRequest): Blob => {
+    const rand = seededRandom(seed);
+    const spoken = request.task === 'tts' || request.task === 'voice_design';
+    const seconds = spoken
+        ? Math.min(20, Math.max(1, request.text.split(/\s+/).length * 0.3))
+        : Math.min(30, request.duration || (request.task === 'music' ? 10 : 3));
+    const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+
+    if (request.task === 'sfx') {
+        samples.forEach((_, i) => { samples[i] = (rand() * 2 - 1) * Math.exp(-3 * i / samples.length) * 0.5; });
+        return encodeWav(samples);
+    }
+
+    const baseFrequency = spoken ? 140 + rand() * 120 : 220;
+    const notes = Array.from({ length: 4 }, () => baseFrequency * 2 ** (between(rand, 0, 7) / 12));
+    const noteLength = Math.round(SAMPLE_RATE * (spoken ? 0.18 : 0.25));
+    samples.forEach((_, i) => {
+        const note = Math.floor(i / noteLength);
+        const inNote = (i % noteLength) / noteLength;
+        const envelope = Math.sin(Math.PI * inNote) * (spoken && note % 5 === 4 ? 0 : 0.3); // Pauses between words
+        samples[i] = Math.sin(2 * Math.PI * notes[note % notes.length] * i / SAMPLE_RATE) * envelope;
+    });
+    return encodeWav(samples);
+};
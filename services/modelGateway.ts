@@ -1,14 +1,80 @@
 import { get } from 'lodash-es';
-import { AIModelConfig, APIEndpointDefinition } from '../types';
-import { geminiService } from './geminiService';
+import { AIModelConfig, APIEndpointDefinition, GenerationOptions, VisualOptions, VideoPromptJSON, AudioRequest } from '../types';
+import { geminiService, aspectRatioFromPrompt, isGeminiImageModel } from './geminiService';
+import { extractJSON, withSchemaInstructions, validateStructuredOutput } from './structuredOutputService';
+import { checkBudget, recordUsage, BudgetExceededError } from './usageLedgerService';
+import { getImageFromDB } from './storageService';
+import { requestScheduler, ProviderRequestError, resolvePolicy, isRetryableError, isAbortError, backoffDelay, sleep } from './requestScheduler';
+import { beginInspection, updateInspection, redactHeaders, redactKey, InspectedRequest, InspectedRequestKind } from './requestInspectorService';
+import { renderTemplate, renderHeaders, interpolate, imageDimensions } from './requestTemplateService';
+import { RequestPreview, ConnectionTestResult, diagnoseConnectionTest } from './connectionTestService';
+import { MOCK_MODELS, MOCK_PROVIDER, isOfflineMode, mockModelFor, simulateLatency, mockText, mockStructuredOutput, mockImage, mockVideo, mockAudio } from './mockProviderService';
+
+export interface StructuredRequestOptions extends GenerationOptions {
+    schema?: any; // Gemini-style schema; emulated through the prompt for other providers
+    maxTokens?: number;
+}
 
 // Helper to resolve deep paths in objects
 const resolvePath = (obj: any, path: string): any => {
     return get(obj, path);
 };
 
+// Where each result is read from when the model's outputMapping doesn't say
+const DEFAULT_RESULT_PATHS: Record<InspectedRequestKind, string> = {
+    text: 'text',
+    image: 'image_url',
+    video: 'video_url',
+    audio: 'audio_url',
+};
+
+// Fallback types for media that arrives as bare base64 or an untyped download
+const DEFAULT_MIME_TYPES: Record<'video' | 'audio', string> = {
+    video: 'video/mp4',
+    audio: 'audio/mpeg',
+};
+
+const base64ToBlob = (base64: string, mimeType: string): Blob => {
+    const bytes = atob(base64);
+    const buffer = new Uint8Array(bytes.length);
+    for (let i = 0; i < bytes.length; i++) buffer[i] = bytes.charCodeAt(i);
+    return new Blob([buffer], { type: mimeType });
+};
+
+export const AUDIO_TASK_LABELS: Record<AudioRequest['task'], string> = {
+    tts: 'Speech',
+    voice_design: 'Voice Design',
+    music: 'Music',
+    sfx: 'Sound Effects',
+};
+
+// Veo only renders these clip lengths
+const VEO_DURATIONS = [4, 6, 8];
+
+/** Flattens a shot's video JSON into the prose prompt video models follow best. */
+export const describeVideoPrompt = (video: VideoPromptJSON): string => {
+    const text = video.global_text_prompt;
+    const style = video.global_style;
+    const lines = [
+        text?.scene_description,
+        text?.primary_subject_description,
+        text?.environment_description,
+        text?.story_or_action_overview,
+        text?.camera_and_movement_overview && `Camera: ${text.camera_and_movement_overview}`,
+        style && `Style: ${[style.visual_style, style.mood_and_tone, style.lighting_style, style.color_palette, style.camera_feel].filter(Boolean).join(', ')}.`,
+        video.animation_plan?.overall_motion_goal && `Motion: ${video.animation_plan.overall_motion_goal}`,
+        ...(video.segments || []).map(segment => {
+            const camera = segment.camera ? ` (${[segment.camera.shot_type, segment.camera.camera_movement].filter(Boolean).join(', ')})` : '';
+            return `${segment.start_time_seconds ?? 0}s–${(segment.start_time_seconds ?? 0) + (segment.duration_seconds ?? 0)}s${camera}: ${segment.segment_description || segment.segment_purpose || ''}`;
+        }),
+        text?.keywords?.length ? `Keywords: ${text.keywords.join(', ')}` : undefined,
+    ];
+    return lines.filter(Boolean).join('\n');
+};
+
 export class ModelGateway {
-    // Hardcoded fallback models in case remote fetch fails
+    // Hardcoded fallback models in case remote fetch fails.
+    // Prices are list prices in USD, used for the cost ledger's estimates.
     private static LOCAL_FALLBACK_MODELS: AIModelConfig[] = [
         {
             id: 'gemini-2.5-flash',
@@ -16,6 +82,8 @@ export class ModelGateway {
             provider: 'google_native',
             family: 'text',
             contextWindow: 1000000,
+            costPerMillionInputTokens: 0.3,
+            costPerMillionOutputTokens: 2.5,
             isDefault: true
         },
         {
@@ -23,36 +91,70 @@ export class ModelGateway {
             name: 'Gemini 3.0 Pro',
             provider: 'google_native',
             family: 'text',
-            contextWindow: 2000000
+            contextWindow: 2000000,
+            costPerMillionInputTokens: 2,
+            costPerMillionOutputTokens: 12
         },
         {
             id: 'gemini-2.5-flash-image',
             name: 'Gemini 2.5 Flash (Image)',
             provider: 'google_native',
             family: 'image',
-            contextWindow: 0
+            contextWindow: 0,
+            costPerGen: 0.039
         },
         {
             id: 'gemini-3-pro-image-preview',
             name: 'Gemini 3.0 Pro (Image)',
             provider: 'google_native',
             family: 'image',
-            contextWindow: 0
+            contextWindow: 0,
+            costPerGen: 0.134
         },
         {
-            id: 'veo-3.1',
+            id: 'veo-3.1-generate-preview',
             name: 'Veo 3.1 (Video)',
             provider: 'google_native',
             family: 'video',
-            contextWindow: 0
-        }
+            contextWindow: 0,
+            costPerGen: 3.2, // 8 seconds at $0.40/s
+            // Clips take minutes to render
+            requestPolicy: { pollIntervalMs: 10000, pollTimeoutMs: 600000 }
+        },
+        {
+            id: 'google-cloud-tts',
+            name: 'Google Cloud TTS',
+            provider: 'google_native',
+            family: 'audio',
+            contextWindow: 0,
+            audioTasks: ['tts']
+        },
+        ...MOCK_MODELS
     ];
 
+    /**
+     * Looks a model id up in the given list, then in the built-in models.
+     * Unknown ids are treated as Google text models so older saved selections keep working.
+     */
+    resolveModel(id: string, models: AIModelConfig[]): AIModelConfig {
+        return models.find(m => m.id === id)
+            || ModelGateway.LOCAL_FALLBACK_MODELS.find(m => m.id === id)
+            || { id, name: id, provider: 'google_native', family: 'text', contextWindow: 0 };
+    }
+
+    /** Every model of a family: built-ins first, then remote and custom ones. */
+    listModels(models: AIModelConfig[], family: AIModelConfig['family']): AIModelConfig[] {
+        const byId = new Map<string, AIModelConfig>();
+        [...ModelGateway.LOCAL_FALLBACK_MODELS, ...models].forEach(m => byId.set(m.id, m));
+        return [...byId.values()].filter(m => m.family === family);
+    }
+
     /**
      * Fetches model definitions from a remote source.
      * Returns fallback models if the request fails.
      */
     async fetchRemoteDefinitions(): Promise<AIModelConfig[]> {
+        if (isOfflineMode()) return ModelGateway.LOCAL_FALLBACK_MODELS;
         try {
             // Placeholder URL - replace with actual remote JSON endpoint in production
             const response = await fetch('https://raw.githubusercontent.com/showrunner-ai/models/main/models.json'); 
@@ -77,94 +179,169 @@ export class ModelGateway {
     }
 
     /**
-     * The Universal Payload Constructor.
-     * Maps internal variables (prompt, modelId, etc.) into the specific JSON structure
-     * required by the external API based on paramMapping.
+     * Runs a generation on the first model of a routed chain, moving down the chain when a model
+     * fails. Cancellations and budget blocks end the chain; if every model fails, the last error is thrown.
      */
-    private constructPayload(mapping: any, inputs: Record<string, any>): any {
-        if (typeof mapping === 'string') {
-            // Check for {{variable}} syntax
-            if (mapping.startsWith('{{') && mapping.endsWith('}}')) {
-                const key = mapping.slice(2, -2);
-                return inputs[key] !== undefined ? inputs[key] : mapping;
-            }
-            return mapping;
-        } else if (Array.isArray(mapping)) {
-            return mapping.map(item => this.constructPayload(item, inputs));
-        } else if (typeof mapping === 'object' && mapping !== null) {
-            const result: any = {};
-            for (const key in mapping) {
-                result[key] = this.constructPayload(mapping[key], inputs);
+    async withFallbacks<T>(chain: AIModelConfig[], run: (config: AIModelConfig) => Promise<T>): Promise<T> {
+        if (chain.length === 0) throw new Error("No model is available for this task. Add one in Settings.");
+        let lastError: any;
+        for (const config of chain) {
+            try {
+                return await run(config);
+            } catch (error) {
+                if (isAbortError(error) || error instanceof BudgetExceededError) throw error;
+                lastError = error;
+                if (config !== chain[chain.length - 1]) console.warn(`[${config.name}] failed, trying the next model in the route:`, error);
             }
-            return result;
         }
-        return mapping;
+        throw lastError;
+    }
+
+    // Offline mode sends every request to the mock model of the same family
+    private routeOffline(config: AIModelConfig): AIModelConfig {
+        return isOfflineMode() ? mockModelFor(config.family) : config;
     }
 
     /**
-     * Executes a generic API request handling headers, auth, and async polling.
+     * Builds the fetch call for a generic provider's generate endpoint.
      */
-    private async executeGenericRequest(
-        config: AIModelConfig, 
-        inputs: Record<string, any>
-    ): Promise<any> {
+    private prepareGenericRequest(config: AIModelConfig, inputs: Record<string, any>) {
         const apiKey = localStorage.getItem(`apikey_${config.provider}`);
         if (!apiKey && config.provider !== 'google_native') {
             throw new Error(`Missing API Key for provider: ${config.provider}`);
         }
+        return this.buildGenericRequest(config, inputs, apiKey || '');
+    }
 
+    private buildGenericRequest(config: AIModelConfig, inputs: Record<string, any>, apiKey: string) {
         const endpoint = config.endpoints?.generate;
         if (!endpoint) throw new Error(`No generation endpoint defined for model ${config.name}`);
 
-        // 1. Prepare Headers (inject API Key)
-        const headers: Record<string, string> = {};
-        if (endpoint.headers) {
-            for (const [key, value] of Object.entries(endpoint.headers)) {
-                headers[key] = value.replace('{{key}}', apiKey || '');
-            }
-        }
+        // The model id is injected so it can be mapped (fal and Replicate put it in the URL).
+        // `stream` defaults to false so a "{{stream}}" mapping never leaks through as a literal.
+        const vars = { stream: false, ...inputs, id: config.id };
+        // {{key}} is only available to the URL and headers, which the inspector redacts
+        const withKey = { ...vars, key: apiKey };
+
+        const headers = renderHeaders(endpoint.headers, withKey);
+        const body = renderTemplate(endpoint.paramMapping, vars);
+        const url = interpolate(endpoint.url, withKey);
 
-        // 2. Prepare Payload
-        // We inject the model ID into inputs so it can be mapped if needed
-        const requestInputs = { ...inputs, id: config.id };
-        const body = this.constructPayload(endpoint.paramMapping, requestInputs);
-
-        // 3. URL Templating (CRITICAL FOR FAL/REPLICATE)
-        // Replaces placeholders like {{id}} inside the URL string itself
-        let finalUrl = endpoint.url;
-        if (finalUrl.includes('{{')) {
-             if (config.id) finalUrl = finalUrl.replace('{{id}}', config.id);
-             // Add any other replacements if needed
+        return { url, init: { method: endpoint.method, headers, body: JSON.stringify(body) } as RequestInit, headers, payload: body, apiKey };
+    }
+
+    /**
+     * The request a generation with these inputs would send, with the key masked.
+     * Works before a key is saved so mappings can be checked first.
+     */
+    previewRequest(config: AIModelConfig, inputs: Record<string, any>): RequestPreview {
+        const apiKey = localStorage.getItem(`apikey_${config.provider}`) || '';
+        const { url, init, headers, payload } = this.buildGenericRequest(config, inputs, apiKey);
+        return { url: redactKey(url, apiKey), method: init.method as string, headers: redactHeaders(headers, apiKey), payload, hasKey: !!apiKey };
+    }
+
+    /**
+     * Sends one live request without retries and explains what went wrong, for checking a model
+     * before it is saved. The call shows up in the request inspector; nothing goes to the ledger.
+     */
+    async testConnection(config: AIModelConfig, inputs: Record<string, any>, signal?: AbortSignal): Promise<ConnectionTestResult> {
+        const testConfig = { ...config, requestPolicy: { ...config.requestPolicy, maxRetries: 0 } };
+        const entry = beginInspection(testConfig, config.family, inputs);
+        let error: any;
+        try {
+            await this.executeGenericRequest(testConfig, inputs, config.family, signal, entry);
+        } catch (e) {
+            error = e;
         }
+        return { entry, ok: !error && entry.extracted[config.family]?.value !== undefined, diagnostics: diagnoseConnectionTest(testConfig, entry, error) };
+    }
 
-        // 4. Make Request
-        const response = await fetch(finalUrl, {
-            method: endpoint.method,
-            headers,
-            body: JSON.stringify(body)
-        });
+    /**
+     * Executes a generic API request handling headers, auth, and async polling.
+     * Every step is written to the request inspector, including failures.
+     */
+    private async executeGenericRequest(
+        config: AIModelConfig, 
+        inputs: Record<string, any>,
+        kind: InspectedRequestKind,
+        signal?: AbortSignal,
+        inspection: InspectedRequest = beginInspection(config, kind, inputs)
+    ): Promise<any> {
+        try {
+            const { url, init, headers, payload, apiKey } = this.prepareGenericRequest(config, inputs);
+            updateInspection(inspection, { url: redactKey(url, apiKey), method: init.method, headers: redactHeaders(headers, apiKey), payload });
+
+            // 4. Make Request (queued per provider; rate limits and server errors are retried)
+            const data = await requestScheduler.run(config, async (signal) => {
+                updateInspection(inspection, { attempts: inspection.attempts + 1 });
+                const response = await fetch(url, { ...init, signal });
+                updateInspection(inspection, { status: response.status });
+                if (!response.ok) throw await ProviderRequestError.fromResponse(response);
+                // Audio and video APIs often answer with the file itself
+                const contentType = response.headers.get('content-type') || '';
+                if (/^(audio|video)\/|octet-stream/.test(contentType)) return response.blob();
+                return response.json();
+            }, signal);
 
-        if (!response.ok) {
-            const errText = await response.text();
-            throw new Error(`Provider Error (${response.status}): ${errText}`);
+            // 5. Handle Output Mapping
+            // If there is a status endpoint defined, we assume Async Polling pattern
+            let result = data;
+            if (config.endpoints?.status) {
+                updateInspection(inspection, { initialResponse: data });
+                result = await this.pollForCompletion(data, config, apiKey, signal);
+            }
+
+            updateInspection(inspection, { response: result, extracted: this.extractMappedFields(config, kind, data, result) });
+            return result;
+        } catch (error: any) {
+            updateInspection(inspection, { error: error.message });
+            throw error;
         }
+    }
 
-        const data = await response.json();
+    /** Resolves each outputMapping path the way the gateway would, for the inspector and the mapping tester. */
+    extractMappedFields(config: AIModelConfig, kind: InspectedRequestKind, initialResponse: any, finalResponse: any) {
+        const fields: Record<string, { path: string; value: any }> = {};
+        if (finalResponse instanceof Blob) return { [kind]: { path: '(response body)', value: finalResponse } };
 
-        // 5. Handle Output Mapping
-        // If there is a status endpoint defined, we assume Async Polling pattern
-        if (config.endpoints?.status) {
-            return this.pollForCompletion(data, config, apiKey || '');
-        } else {
-            // Synchronous response
-            return data;
+        const read = (key: string, path: string, data: any) => { fields[key] = { path, value: resolvePath(data, path) }; };
+
+        const generateMapping = config.endpoints?.generate.outputMapping || {};
+        const statusMapping = config.endpoints?.status?.outputMapping || {};
+        Object.entries(generateMapping).forEach(([key, path]) => {
+            // The task id comes from the first response; everything else from the final one
+            if (key !== 'stream') read(key, path, key === 'id' ? initialResponse : finalResponse);
+        });
+        Object.entries(statusMapping).forEach(([key, path]) => read(key, path, finalResponse));
+
+        // The result field, including its default path when unmapped
+        const resultMapping = kind !== 'text' && config.endpoints?.status ? statusMapping : generateMapping;
+        read(kind, resultMapping[kind] || DEFAULT_RESULT_PATHS[kind], finalResponse);
+        return fields;
+    }
+
+    /**
+     * Re-runs an inspected request with a possibly edited model config.
+     * Streamed requests are replayed without streaming. Resolves with the new inspector
+     * entry whether or not the call succeeded; nothing is written to the cost ledger.
+     */
+    async replayRequest(entry: InspectedRequest, config: AIModelConfig): Promise<InspectedRequest> {
+        const inputs = { ...entry.inputs, stream: false };
+        const inspection = beginInspection(config, entry.kind, inputs, entry.id);
+        try {
+            await this.executeGenericRequest(config, inputs, entry.kind, undefined, inspection);
+        } catch (e) {
+            // The failure is on the entry
         }
+        return inspection;
     }
 
     /**
      * Polls a status endpoint until completion.
+     * Interval and timeout come from the model's requestPolicy. Failed status checks back off
+     * when they look transient and fail the job when they don't.
      */
-    private async pollForCompletion(initialResponse: any, config: AIModelConfig, apiKey: string): Promise<any> {
+    private async pollForCompletion(initialResponse: any, config: AIModelConfig, apiKey: string, signal?: AbortSignal): Promise<any> {
         const statusEndpoint = config.endpoints!.status!;
         
         // Extract Task ID from initial response based on Generate endpoint's output mapping
@@ -173,31 +350,36 @@ export class ModelGateway {
 
         if (!taskId) throw new Error("Could not extract Task ID from initial response for polling.");
 
-        // Prepare Status Headers
-        const headers: Record<string, string> = {};
-        if (statusEndpoint.headers) {
-            for (const [key, value] of Object.entries(statusEndpoint.headers)) {
-                headers[key] = value.replace('{{key}}', apiKey);
-            }
-        }
-
-        // URL Templating for Status Endpoint
-        const statusUrl = statusEndpoint.url.replace('{{id}}', taskId);
+        // In status templates {{id}} is the task id; the model id moves to {{model_id}}
+        const vars = { id: taskId, model_id: config.id, key: apiKey };
+        const headers = renderHeaders(statusEndpoint.headers, vars);
+        const statusUrl = interpolate(statusEndpoint.url, vars);
         
-        const POLLING_INTERVAL = 2000; // 2s
-        const MAX_ATTEMPTS = 60; // 2 mins timeout roughly
-
-        for (let i = 0; i < MAX_ATTEMPTS; i++) {
-            await new Promise(r => setTimeout(r, POLLING_INTERVAL));
+        const { pollIntervalMs, pollTimeoutMs } = resolvePolicy(config);
+        const deadline = Date.now() + pollTimeoutMs;
+        let wait = pollIntervalMs;
+        let failures = 0;
 
-            const response = await fetch(statusUrl, {
-                method: statusEndpoint.method,
-                headers
-            });
-            
-            if (!response.ok) continue; // Retry on transient network errors?
+        while (Date.now() < deadline) {
+            await sleep(wait, signal);
 
-            const data = await response.json();
+            let data: any;
+            try {
+                const response = await fetch(statusUrl, {
+                    method: statusEndpoint.method,
+                    headers,
+                    signal
+                });
+                if (!response.ok) throw await ProviderRequestError.fromResponse(response);
+                data = await response.json();
+            } catch (error: any) {
+                if (signal?.aborted || !isRetryableError(error)) throw error;
+                wait = backoffDelay(failures++, error);
+                console.warn(`[Scheduler] ${config.name}: status check failed (${error.message}), retrying in ${Math.round(wait / 1000)}s.`);
+                continue;
+            }
+            wait = pollIntervalMs;
+            failures = 0;
             
             // Check Status
             const statusPath = statusEndpoint.outputMapping?.['status'] || 'status';
@@ -214,36 +396,207 @@ export class ModelGateway {
             }
         }
 
-        throw new Error("Generation timed out.");
+        throw new Error(`Generation timed out after ${Math.round(pollTimeoutMs / 1000)}s.`);
+    }
+
+    // Token counts default to the OpenAI-compatible `usage` block; override via outputMapping
+    private readTokenUsage(config: AIModelConfig, data: any) {
+        const outputMapping = config.endpoints?.generate.outputMapping;
+        return {
+            inputTokens: Number(resolvePath(data, outputMapping?.['inputTokens'] || 'usage.prompt_tokens')) || 0,
+            outputTokens: Number(resolvePath(data, outputMapping?.['outputTokens'] || 'usage.completion_tokens')) || 0,
+        };
     }
 
     /**
-     * Generates text content.
+     * Streams a generic provider's text response, assuming OpenAI-compatible Server-Sent Events.
+     * Providers that ignore `{{stream}}` and answer with plain JSON are handled as a single chunk.
      */
-    async generateText(prompt: string, config: AIModelConfig, systemInstruction?: string): Promise<string> {
-        if (config.provider === 'google_native') {
-            const { GoogleGenAI } = await import("@google/genai");
-            const apiKey = localStorage.getItem('gemini_api_key') || '';
-            if (!apiKey) throw new Error("Google API Key not found.");
-
-            const ai = new GoogleGenAI({ apiKey });
-            const response = await ai.models.generateContent({
-                model: config.id,
-                contents: prompt,
-                config: { systemInstruction }
-            });
+    private async streamGenericText(config: AIModelConfig, prompt: string, options: GenerationOptions): Promise<string> {
+        const inputs = { prompt, stream: true };
+        const inspection = beginInspection(config, 'text', inputs);
+        try {
+            return await this.readGenericStream(config, inputs, options, inspection);
+        } catch (error: any) {
+            updateInspection(inspection, { error: error.message });
+            throw error;
+        }
+    }
+
+    private async readGenericStream(config: AIModelConfig, inputs: Record<string, any>, options: GenerationOptions, inspection: InspectedRequest): Promise<string> {
+        const { url, init, headers, payload, apiKey } = this.prepareGenericRequest(config, inputs);
+        updateInspection(inspection, { url: redactKey(url, apiKey), method: init.method, headers: redactHeaders(headers, apiKey), payload, streamed: true });
+
+        // The provider's slot is held until the body is read, so streams count against maxConcurrent.
+        // A retry restarts the stream, so the preview starts over too
+        const { text, tokens } = await requestScheduler.run(config, async (signal) => {
+            updateInspection(inspection, { attempts: inspection.attempts + 1 });
+            const res = await fetch(url, { ...init, signal });
+            updateInspection(inspection, { status: res.status });
+            if (!res.ok) throw await ProviderRequestError.fromResponse(res);
+            return await this.readGenericStreamBody(config, res, options, inspection);
+        }, options.signal);
+
+        await recordUsage(options.usage, config, tokens);
+        return text;
+    }
+
+    private async readGenericStreamBody(config: AIModelConfig, response: Response, options: GenerationOptions, inspection: InspectedRequest): Promise<{ text: string; tokens: { inputTokens: number; outputTokens: number } }> {
+        const outputMapping = config.endpoints?.generate.outputMapping;
+        if (!response.body || !response.headers.get('content-type')?.includes('text/event-stream')) {
+            const data = await response.json();
+            updateInspection(inspection, { response: data, extracted: this.extractMappedFields(config, 'text', data, data) });
+            const text = resolvePath(data, outputMapping?.['text'] || 'text');
+            if (typeof text !== 'string') throw new Error("Could not extract text from provider response.");
+            options.onText?.(text);
+            return { text, tokens: this.readTokenUsage(config, data) };
+        }
+
+        const deltaPath = outputMapping?.['stream'] || 'choices[0].delta.content';
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        let text = '';
+        // Providers that report usage on a stream put it in the last event
+        let tokens = { inputTokens: 0, outputTokens: 0 };
+        let lastEvent: any;
+        // Keep-alives and provider notes that aren't JSON are skipped, not fatal
+        const malformed: string[] = [];
+
+        // Handles one SSE line; returns true at the [DONE] terminator
+        const readLine = (line: string): boolean => {
+            const data = line.trim();
+            if (!data.startsWith('data:')) return false;
+            const payload = data.slice(5).trim();
+            if (payload === '[DONE]') return true;
+            if (!payload) return false;
+
+            let event: any;
+            try {
+                event = JSON.parse(payload);
+            } catch {
+                malformed.push(payload);
+                return false;
+            }
+            lastEvent = event;
+            const eventTokens = this.readTokenUsage(config, event);
+            if (eventTokens.inputTokens || eventTokens.outputTokens) tokens = eventTokens;
+
+            const delta = resolvePath(event, deltaPath);
+            if (typeof delta === 'string' && delta) {
+                text += delta;
+                options.onText?.(text);
+            }
+            return false;
+        };
 
-            return response.text || '';
+        let finished = false;
+        while (!finished) {
+            const { done, value } = await reader.read();
+            if (done) {
+                // The last event may not end with a newline
+                readLine(buffer + decoder.decode());
+                break;
+            }
+            buffer += decoder.decode(value, { stream: true });
+
+            // Events are newline-separated; keep the trailing partial line for the next read
+            const lines = buffer.split('\n');
+            buffer = lines.pop() || '';
+            for (const line of lines) {
+                if (readLine(line)) {
+                    finished = true;
+                    break;
+                }
+            }
+        }
+        // Anything the provider sends after [DONE] is ignored
+        if (finished) await reader.cancel().catch(() => {});
+
+        if (malformed.length > 0) {
+            console.warn(`[${config.name}] Skipped ${malformed.length} stream event(s) that weren't JSON:`, malformed);
+            // With no text at all, the skipped events are the likeliest explanation (e.g. an error string)
+            if (!text) throw new Error(`The stream sent no text, only events that weren't JSON: ${malformed[0].slice(0, 200)}`);
+        }
+        const skipped = malformed.length > 0 ? `, ${malformed.length} non-JSON skipped` : '';
+        updateInspection(inspection, { response: lastEvent, extracted: { text: { path: `${deltaPath} (joined across events${skipped})`, value: text } } });
+        return { text, tokens };
+    }
+
+    /**
+     * Runs a Google request, streaming when `options.onText` is set.
+     */
+    private async generateGoogleText(config: AIModelConfig, contents: string, requestConfig: Record<string, any>, options: GenerationOptions): Promise<string> {
+        const { GoogleGenAI } = await import("@google/genai");
+        const apiKey = localStorage.getItem('gemini_api_key') || process.env.API_KEY || '';
+        if (!apiKey) throw new Error("No API Key found. Please configure it in Settings.");
+
+        const ai = new GoogleGenAI({ apiKey });
+        const request = {
+            model: config.id,
+            contents,
+            config: { ...requestConfig, abortSignal: options.signal }
+        };
+
+        await checkBudget(options.usage);
+        const { text, usageMetadata } = await requestScheduler.run(config, async () => {
+            if (!options.onText) {
+                const response = await ai.models.generateContent(request);
+                return { text: response.text || '', usageMetadata: response.usageMetadata };
+            }
+
+            // A retry restarts the stream, so the preview starts over too
+            let text = '';
+            let usageMetadata;
+            for await (const chunk of await ai.models.generateContentStream(request)) {
+                text += chunk.text || '';
+                usageMetadata = chunk.usageMetadata || usageMetadata;
+                options.onText(text);
+            }
+            return { text, usageMetadata };
+        }, options.signal);
+
+        await recordUsage(options.usage, config, { inputTokens: usageMetadata?.promptTokenCount, outputTokens: usageMetadata?.candidatesTokenCount });
+        return text;
+    }
+
+    /**
+     * Answers a text request from the mock provider. Token counts are estimated
+     * at four characters per token so the ledger has something to show.
+     */
+    private async generateMockText(config: AIModelConfig, prompt: string, options: GenerationOptions, build: () => string): Promise<string> {
+        await checkBudget(options.usage);
+        await simulateLatency(options.signal);
+        const text = build();
+        options.onText?.(text);
+        await recordUsage(options.usage, config, { inputTokens: Math.ceil(prompt.length / 4), outputTokens: Math.ceil(text.length / 4) });
+        return text;
+    }
+
+    /**
+     * Generates text content. Pass `options.onText` to stream partial text as it arrives.
+     */
+    async generateText(prompt: string, config: AIModelConfig, systemInstruction?: string, options: GenerationOptions = {}): Promise<string> {
+        config = this.routeOffline(config);
+        if (config.provider === MOCK_PROVIDER) {
+            return this.generateMockText(config, prompt, options, () => mockText(`${config.id}:${prompt}`));
+        }
+        if (config.provider === 'google_native') {
+            return this.generateGoogleText(config, prompt, { systemInstruction }, options);
         } else {
             // Generic Provider
+            await checkBudget(options.usage);
             try {
-                const rawResponse = await this.executeGenericRequest(config, { prompt });
+                if (options.onText) return await this.streamGenericText(config, prompt, options);
+
+                const rawResponse = await this.executeGenericRequest(config, { prompt }, 'text', options.signal);
                 
                 // Extract text using mapping
                 const resultPath = config.endpoints?.generate.outputMapping?.['text'] || 'text';
                 const text = resolvePath(rawResponse, resultPath);
                 
                 if (typeof text !== 'string') throw new Error("Could not extract text from provider response.");
+                await recordUsage(options.usage, config, this.readTokenUsage(config, rawResponse));
                 return text;
             } catch (e: any) {
                 console.error("Generic Text Generation Error:", e);
@@ -252,17 +605,93 @@ export class ModelGateway {
         }
     }
 
+    private parseJSON<T>(text: string): T {
+        if (!text) throw new Error("Empty response from AI");
+
+        if (text.length > 2000000) {
+            console.warn("Response too large, truncating for safety.");
+            text = text.substring(0, 2000000);
+        }
+
+        try {
+            return JSON.parse(extractJSON(text)) as T;
+        } catch (parseError) {
+            console.error("JSON Parse Error. Raw Text Snippet:", text.substring(0, 500));
+            throw new Error("Failed to parse AI response as JSON.");
+        }
+    }
+
     /**
-     * Generates visual content.
+     * Generates a JSON object with any text model.
+     * Google models get the schema natively. Other providers get it written into the
+     * prompt; their answer is validated and, if it doesn't fit, retried once with the problems listed.
      */
-    async generateVisual(prompt: string, config: AIModelConfig): Promise<string> {
+    async generateJSON<T>(prompt: string, config: AIModelConfig, options: StructuredRequestOptions = {}): Promise<T> {
+        const { schema, maxTokens, ...stream } = options;
+
+        config = this.routeOffline(config);
+        if (config.provider === MOCK_PROVIDER) {
+            const text = await this.generateMockText(config, prompt, stream, () =>
+                JSON.stringify(mockStructuredOutput(`${config.id}:${prompt}`, prompt, schema, options.usage?.task)));
+            return this.parseJSON<T>(text);
+        }
         if (config.provider === 'google_native') {
-            return geminiService.generateVisual(prompt, config.id as any);
+            const requestConfig: Record<string, any> = { responseMimeType: "application/json", temperature: 0.7 };
+            if (schema) requestConfig.responseSchema = schema;
+            if (maxTokens) requestConfig.maxOutputTokens = maxTokens;
+            return this.parseJSON<T>(await this.generateGoogleText(config, prompt, requestConfig, stream));
+        }
+
+        const structuredPrompt = withSchemaInstructions(prompt, schema);
+        let text = await this.generateText(structuredPrompt, config, undefined, stream);
+        let result = this.parseJSON<T>(text);
+        let errors = validateStructuredOutput(result, schema);
+
+        if (errors.length > 0) {
+            console.warn(`[${config.name}] Response did not match the schema, retrying:`, errors);
+            const repairPrompt = `${structuredPrompt}\n\n--- YOUR PREVIOUS ANSWER ---\n${text}\n\nIt did not match the schema:\n- ${errors.slice(0, 20).join('\n- ')}\nReturn the corrected JSON only.`;
+            text = await this.generateText(repairPrompt, config, undefined, stream);
+            result = this.parseJSON<T>(text);
+            errors = validateStructuredOutput(result, schema);
+            if (errors.length > 0) throw new Error(`[${config.name}] Response did not match the expected format: ${errors.slice(0, 3).join('; ')}`);
+        }
+        return result;
+    }
+
+    /**
+     * Generates visual content. Gemini gets the references as image parts; generic providers
+     * get them, with the aspect ratio and pixel size, as template variables.
+     */
+    async generateVisual(prompt: string, config: AIModelConfig, options: VisualOptions = {}): Promise<string> {
+        config = this.routeOffline(config);
+        if (config.provider === MOCK_PROVIDER) {
+            await checkBudget(options.usage);
+            await simulateLatency(options.signal);
+            await recordUsage(options.usage, config, { images: 1 });
+            return mockImage(`${config.id}:${prompt}`, prompt);
+        }
+        if (config.provider === 'google_native') {
+            if (!isGeminiImageModel(config.id)) throw new Error(`${config.name} is not a Gemini image model.`);
+            return geminiService.generateVisual(prompt, config.id, options.resolution, options.referenceImages, options.usage);
         } else {
             // Generic Provider
+            await checkBudget(options.usage);
             try {
+                const aspectRatio = aspectRatioFromPrompt(prompt);
+                const referenceImages = await geminiService.prepareReferenceImages(options.referenceImages || []);
+                const inputs = {
+                    prompt,
+                    negative_prompt: options.negativePrompt,
+                    seed: options.seed,
+                    aspect_ratio: aspectRatio,
+                    ...imageDimensions(aspectRatio, options.resolution),
+                    reference_images: referenceImages,
+                    reference_images_base64: referenceImages.map(dataUrl => dataUrl.split(',')[1]),
+                };
+
                 // Determine if we are waiting for a final polling result or sync result
-                const rawResponse = await this.executeGenericRequest(config, { prompt });
+                const rawResponse = await this.executeGenericRequest(config, inputs, 'image', options.signal);
+                await recordUsage(options.usage, config, { images: 1 });
 
                 // If async polling was used, rawResponse is the final status response.
                 // If sync, it's the generate response.
@@ -300,6 +729,222 @@ export class ModelGateway {
             }
         }
     }
+
+    // Start frames are image ids in the DB, data URLs or raw base64
+    private async loadStartFrame(startFrame: string): Promise<{ base64: string; mimeType: string }> {
+        if (startFrame.startsWith('img_')) {
+            const blob = await getImageFromDB(startFrame);
+            if (!blob) throw new Error("The start frame image is missing from storage.");
+            const dataUrl = await new Promise<string>((resolve, reject) => {
+                const reader = new FileReader();
+                reader.onloadend = () => resolve(reader.result as string);
+                reader.onerror = reject;
+                reader.readAsDataURL(blob);
+            });
+            startFrame = dataUrl;
+        }
+        if (startFrame.startsWith('data:')) {
+            const [header, base64] = startFrame.split(',');
+            return { base64, mimeType: header.match(/:(.*?);/)?.[1] || 'image/png' };
+        }
+        return { base64: startFrame, mimeType: 'image/png' };
+    }
+
+    /**
+     * Generates a video clip from a shot's video JSON, optionally animating a start frame.
+     * Both Veo operations and generic status endpoints are polled per the model's requestPolicy.
+     * Resolves with the downloaded video; callers store it with storeMediaInDB.
+     */
+    async generateVideo(video: VideoPromptJSON, config: AIModelConfig, startFrame?: string, options: GenerationOptions = {}): Promise<Blob> {
+        const prompt = describeVideoPrompt(video);
+        if (!prompt) throw new Error("The video JSON has no prompt text. Draft or write one first.");
+        const frame = startFrame ? await this.loadStartFrame(startFrame) : undefined;
+
+        config = this.routeOffline(config);
+        await checkBudget(options.usage);
+        const blob = config.provider === MOCK_PROVIDER
+            ? await mockVideo(`${config.id}:${prompt}`, prompt, options.signal)
+            : config.provider === 'google_native'
+                ? await this.generateGoogleVideo(config, prompt, video, frame, options.signal)
+                : await this.generateGenericVideo(config, prompt, video, frame, options.signal);
+        await recordUsage(options.usage, config, {});
+        return blob;
+    }
+
+    private async generateGoogleVideo(
+        config: AIModelConfig,
+        prompt: string,
+        video: VideoPromptJSON,
+        frame: { base64: string; mimeType: string } | undefined,
+        signal?: AbortSignal
+    ): Promise<Blob> {
+        const { GoogleGenAI } = await import("@google/genai");
+        const apiKey = localStorage.getItem('gemini_api_key') || process.env.API_KEY || '';
+        if (!apiKey) throw new Error("No API Key found. Please configure it in Settings.");
+        const ai = new GoogleGenAI({ apiKey });
+
+        const spec = video.video_spec;
+        const requestedSeconds = spec?.total_duration_seconds || 8;
+        const durationSeconds = VEO_DURATIONS.reduce((best, d) => Math.abs(d - requestedSeconds) < Math.abs(best - requestedSeconds) ? d : best);
+        const videoConfig: Record<string, any> = {
+            numberOfVideos: 1,
+            durationSeconds,
+            aspectRatio: spec?.aspect_ratio === '9:16' ? '9:16' : '16:9',
+            abortSignal: signal,
+        };
+        if (spec?.resolution?.height >= 1080) videoConfig.resolution = '1080p';
+
+        let operation = await requestScheduler.run(config, () => ai.models.generateVideos({
+            model: config.id,
+            prompt,
+            image: frame ? { imageBytes: frame.base64, mimeType: frame.mimeType } : undefined,
+            config: videoConfig,
+        }), signal);
+
+        const { pollIntervalMs, pollTimeoutMs } = resolvePolicy(config);
+        const deadline = Date.now() + pollTimeoutMs;
+        while (!operation.done) {
+            if (Date.now() > deadline) throw new Error(`Video generation timed out after ${Math.round(pollTimeoutMs / 1000)}s.`);
+            await sleep(pollIntervalMs, signal);
+            const current = operation;
+            operation = await requestScheduler.run(config, () => ai.operations.getVideosOperation({ operation: current }), signal);
+        }
+
+        if (operation.error) throw new Error(`Video generation failed: ${operation.error.message || JSON.stringify(operation.error)}`);
+        const result = operation.response?.generatedVideos?.[0]?.video;
+        if (!result) {
+            const reasons = operation.response?.raiMediaFilteredReasons;
+            throw new Error(reasons?.length ? `The video was blocked: ${reasons.join(' ')}` : "No video returned from API.");
+        }
+        if (result.videoBytes) return base64ToBlob(result.videoBytes, result.mimeType || 'video/mp4');
+        if (!result.uri) throw new Error("No video returned from API.");
+
+        // Generated files are served from the Files API and need the key
+        const blob = await requestScheduler.run(config, async (signal) => {
+            const response = await fetch(result.uri!, { headers: { 'x-goog-api-key': apiKey }, signal });
+            if (!response.ok) throw await ProviderRequestError.fromResponse(response);
+            return response.blob();
+        }, signal);
+        return blob.type.startsWith('video/') ? blob : new Blob([blob], { type: result.mimeType || 'video/mp4' });
+    }
+
+    private async generateGenericVideo(
+        config: AIModelConfig,
+        prompt: string,
+        video: VideoPromptJSON,
+        frame: { base64: string; mimeType: string } | undefined,
+        signal?: AbortSignal
+    ): Promise<Blob> {
+        try {
+            const rawResponse = await this.executeGenericRequest(config, {
+                prompt,
+                videoPrompt: video,
+                image: frame ? `data:${frame.mimeType};base64,${frame.base64}` : undefined,
+                negative_prompt: video.global_negative_prompt || undefined,
+                seed: video.model_config?.random_seed ?? undefined,
+                duration: video.video_spec?.total_duration_seconds,
+                aspect_ratio: video.video_spec?.aspect_ratio,
+            }, 'video', signal);
+
+            return await this.readMediaResult(config, rawResponse, 'video', signal);
+        } catch (e: any) {
+            if (isAbortError(e)) throw e;
+            console.error("Generic Video Generation Error:", e);
+            throw new Error(`[${config.name}] Error: ${e.message}`);
+        }
+    }
+
+    /**
+     * Turns a generic provider's video or audio result into a Blob. The response may be the
+     * file itself, or JSON whose mapped field holds a URL, a data URL or bare base64.
+     */
+    private async readMediaResult(config: AIModelConfig, rawResponse: any, family: 'video' | 'audio', signal?: AbortSignal): Promise<Blob> {
+        const fallbackType = DEFAULT_MIME_TYPES[family];
+        const typed = (blob: Blob) => blob.type.startsWith(`${family}/`) ? blob : new Blob([blob], { type: fallbackType });
+        if (rawResponse instanceof Blob) return typed(rawResponse);
+
+        const endpointDef = config.endpoints?.status ? config.endpoints.status : config.endpoints?.generate;
+        const result = resolvePath(rawResponse, endpointDef?.outputMapping?.[family] || DEFAULT_RESULT_PATHS[family]);
+        if (typeof result !== 'string' || !result) throw new Error(`Could not extract ${family} URL from provider response.`);
+
+        if (result.startsWith('http')) {
+            const response = await fetch(result, { signal });
+            if (!response.ok) throw await ProviderRequestError.fromResponse(response);
+            return typed(await response.blob());
+        }
+        if (result.startsWith('data:')) {
+            const [header, base64] = result.split(',');
+            return base64ToBlob(base64, header.match(/:(.*?);/)?.[1] || fallbackType);
+        }
+        return base64ToBlob(result, fallbackType);
+    }
+
+    /**
+     * Generates speech, a designed voice sample, music or a sound effect.
+     * Generic providers receive {{text}}, {{voice}}, {{duration}} and {{task}} (plus {{prompt}}, same as text).
+     * Resolves with the audio; callers store it with storeMediaInDB.
+     */
+    async generateAudio(request: AudioRequest, config: AIModelConfig, options: GenerationOptions = {}): Promise<Blob> {
+        config = this.routeOffline(config);
+        if (config.audioTasks && !config.audioTasks.includes(request.task)) {
+            throw new Error(`${config.name} can't generate ${AUDIO_TASK_LABELS[request.task].toLowerCase()}.`);
+        }
+
+        await checkBudget(options.usage);
+        let blob: Blob;
+        if (config.provider === MOCK_PROVIDER) {
+            await simulateLatency(options.signal);
+            blob = mockAudio(`${config.id}:${request.task}:${request.voice || ''}:${request.text}`, request);
+        } else if (config.provider === 'google_native') {
+            blob = await this.generateGoogleSpeech(config, request, options.signal);
+        } else {
+            try {
+                const rawResponse = await this.executeGenericRequest(config, {
+                    prompt: request.text,
+                    text: request.text,
+                    voice: request.voice,
+                    duration: request.duration,
+                    task: request.task,
+                }, 'audio', options.signal);
+                blob = await this.readMediaResult(config, rawResponse, 'audio', options.signal);
+            } catch (e: any) {
+                if (isAbortError(e)) throw e;
+                console.error("Generic Audio Generation Error:", e);
+                throw new Error(`[${config.name}] Error: ${e.message}`);
+            }
+        }
+        await recordUsage(options.usage, config, {});
+        return blob;
+    }
+
+    /**
+     * Google Cloud Text-to-Speech. `voice` is either a full voice name ("en-GB-Neural2-A")
+     * or "languageCode:GENDER"; the Gemini key needs the Text-to-Speech API enabled.
+     */
+    private async generateGoogleSpeech(config: AIModelConfig, request: AudioRequest, signal?: AbortSignal): Promise<Blob> {
+        if (request.task !== 'tts') throw new Error(`${config.name} only speaks lines.`);
+        const apiKey = localStorage.getItem('gemini_api_key') || process.env.API_KEY || '';
+        if (!apiKey) throw new Error("No API Key found. Please configure it in Settings.");
+
+        const [languageOrName, ssmlGender] = (request.voice || 'en-US:NEUTRAL').split(':');
+        const voice = ssmlGender
+            ? { languageCode: languageOrName, ssmlGender }
+            : { languageCode: languageOrName.split('-').slice(0, 2).join('-'), name: languageOrName };
+
+        const data = await requestScheduler.run(config, async (signal) => {
+            const response = await fetch(`https://texttospeech.googleapis.com/v1/text:synthesize?key=${apiKey}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ input: { text: request.text }, voice, audioConfig: { audioEncoding: "MP3" } }),
+                signal
+            });
+            if (!response.ok) throw await ProviderRequestError.fromResponse(response);
+            return response.json();
+        }, signal);
+
+        if (!data.audioContent) throw new Error("No audio content received.");
+        return base64ToBlob(data.audioContent, 'audio/mpeg');
+    }
 }
 
 export const modelGateway = new ModelGateway();
\ No newline at end of file
@@ -0,0 +1,63 @@
+import { AIModelConfig, ModelRoute, ModelRoutingProfile, RoutedTask } from '../types';
+
+// --- MODEL ROUTING ---
+// Each project assigns a model, and optionally a fallback chain, to every kind of generation.
+// Call sites ask the store for a task's chain and the gateway walks it (see withFallbacks).
+
+export interface RoutedTaskInfo {
+    label: string;
+    family: AIModelConfig['family'];
+    description: string; // Which generations the route covers
+}
+
+export const ROUTED_TASKS: Record<RoutedTask, RoutedTaskInfo> = {
+    synopsis: { label: 'Synopsis', family: 'text', description: 'Project synopsis and the next installment\'s synopsis.' },
+    structure: { label: 'Structure', family: 'text', description: 'Episode or act structure and continuity briefs.' },
+    scene_breakdown: { label: 'Scene Breakdown', family: 'text', description: 'Scene summaries and scene reorder checks.' },
+    screenplay: { label: 'Screenplay', family: 'text', description: 'Scene-by-scene screenplay writing.' },
+    asset_analysis: { label: 'Asset Analysis', family: 'text', description: 'Finding characters, locations and props in a script.' },
+    character_profile: { label: 'Character Profile', family: 'text', description: 'Story Bible character profiles.' },
+    art_prompt: { label: 'Art Prompts', family: 'text', description: 'Asset art prompts and shot image prompts.' },
+    shot_list: { label: 'Shot List', family: 'text', description: 'Shot lists and shot video prompts.' },
+    image: { label: 'Image', family: 'image', description: 'Asset art and shot images.' },
+    video: { label: 'Video', family: 'video', description: 'Shot videos.' },
+    speech: { label: 'Speech', family: 'audio', description: 'Character dialogue in the Sound Stage.' },
+};
+
+export const DEFAULT_MODEL_ROUTES: Record<RoutedTask, string> = {
+    synopsis: 'gemini-2.5-flash',
+    structure: 'gemini-2.5-flash',
+    scene_breakdown: 'gemini-2.5-flash',
+    screenplay: 'gemini-2.5-flash',
+    asset_analysis: 'gemini-2.5-flash',
+    character_profile: 'gemini-2.5-flash',
+    art_prompt: 'gemini-2.5-flash',
+    shot_list: 'gemini-2.5-flash',
+    image: 'gemini-3-pro-image-preview',
+    video: 'veo-3.1-generate-preview',
+    speech: 'google-cloud-tts',
+};
+
+/** The models a task can be routed to, out of every model of its family. */
+export const modelsForTask = (familyModels: AIModelConfig[], task: RoutedTask): AIModelConfig[] => {
+    const { family } = ROUTED_TASKS[task];
+    return familyModels.filter(m => m.family === family && (task !== 'speech' || !m.audioTasks || m.audioTasks.includes('tts')));
+};
+
+/** The project's route for a task, or the default one. */
+export const getRoute = (routing: ModelRoutingProfile | undefined, task: RoutedTask): ModelRoute =>
+    routing?.[task] || { modelId: DEFAULT_MODEL_ROUTES[task] };
+
+/**
+ * A task's models in the order they are tried. Ids of models that no longer exist (a deleted
+ * custom model) are skipped; if none are left, the first model that can do the task is used.
+ */
+export const resolveRoute = (familyModels: AIModelConfig[], routing: ModelRoutingProfile | undefined, task: RoutedTask): AIModelConfig[] => {
+    const candidates = modelsForTask(familyModels, task);
+    const route = getRoute(routing, task);
+    const ids = [...new Set([route.modelId, ...(route.fallbacks || [])])];
+    const chain = ids.map(id => candidates.find(m => m.id === id)).filter((m): m is AIModelConfig => !!m);
+    if (chain.length > 0) return chain;
+    const fallback = candidates.find(m => m.id === DEFAULT_MODEL_ROUTES[task]) || candidates[0];
+    return fallback ? [fallback] : [];
+};
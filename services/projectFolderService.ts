@@ -0,0 +1,287 @@
+import JSZip from 'jszip';
+import { Project, Scene, ScreenplayItem, Shot, Season, Sequel, Episode, Act } from '../types';
+
+// Human-readable project layout, meant to be committed to version control:
+//
+//   project.json                         metadata, format, style, art
+//   bible/synopsis.md, bible/lore.json
+//   bible/characters/001-<name>.json     one file per asset (same for locations/, props/)
+//   script/season-01/_season.json        season fields (sequels use part-01/_part.json)
+//   script/season-01/episode-01/_episode.json, _history.json
+//   script/season-01/episode-01/scene-001.fountain   screenplay text
+//   script/season-01/episode-01/scene-001.json       scene fields besides the screenplay
+//   studio/season-01/episode-01/scene-001.json       shot list (studio/unlinked/ for orphans)
+//
+// Numeric prefixes are positions, so folder order restores array order on import.
+
+const FOLDER_MARKER = 'bible/synopsis.md';
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+const slugify = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'untitled';
+
+const toJSON = (data: unknown) => JSON.stringify(data, null, 2) + '\n';
+
+// --- FOUNTAIN ---
+// Characters are upper-case lines followed directly by dialogue. Anything that would
+// be read back differently is forced with Fountain's '@' (character) and '!' (action) marks.
+
+const hasLowerCase = (text: string) => text !== text.toUpperCase();
+
+export const renderFountain = (content: ScreenplayItem[]): string => {
+    const lines: string[] = [];
+    content.forEach((item, i) => {
+        const next = content[i + 1];
+        switch (item.type) {
+            case 'character': {
+                const speaks = next?.type === 'dialogue' || next?.type === 'parenthetical';
+                const forced = !speaks || hasLowerCase(item.text) || !/[A-Z]/.test(item.text) || /^[@!]/.test(item.text);
+                lines.push('', forced ? `@${item.text}` : item.text);
+                break;
+            }
+            case 'parenthetical':
+                lines.push(`(${item.text})`);
+                break;
+            case 'dialogue':
+                lines.push(item.text);
+                break;
+            default: {
+                const [firstLine] = item.text.split('\n');
+                const looksLikeCharacter = item.text.includes('\n') && !hasLowerCase(firstLine) && /[A-Z]/.test(firstLine);
+                const forced = looksLikeCharacter || /^[@!(]/.test(item.text);
+                lines.push('', forced ? `!${item.text}` : item.text);
+            }
+        }
+    });
+    return lines.join('\n').replace(/^\n/, '') + '\n';
+};
+
+export const parseFountain = (text: string): ScreenplayItem[] => {
+    const items: ScreenplayItem[] = [];
+    const blocks = text.replace(/\r\n/g, '\n').split(/\n\s*\n/).map(b => b.replace(/^\n+|\n+$/g, '')).filter(Boolean);
+
+    blocks.forEach(block => {
+        const lines = block.split('\n');
+        const first = lines[0];
+        const isForcedCharacter = first.startsWith('@');
+        const isCharacter = isForcedCharacter || (!first.startsWith('!') && lines.length > 1 && !hasLowerCase(first) && /[A-Z]/.test(first));
+
+        if (!isCharacter) {
+            items.push({ type: 'action', text: first.startsWith('!') ? block.slice(1) : block });
+            return;
+        }
+
+        items.push({ type: 'character', text: isForcedCharacter ? first.slice(1) : first });
+        let dialogue: string[] = [];
+        const flushDialogue = () => {
+            if (dialogue.length > 0) items.push({ type: 'dialogue', text: dialogue.join('\n') });
+            dialogue = [];
+        };
+        lines.slice(1).forEach(line => {
+            if (line.startsWith('(') && line.endsWith(')')) {
+                flushDialogue();
+                items.push({ type: 'parenthetical', text: line.slice(1, -1) });
+            } else {
+                dialogue.push(line);
+            }
+        });
+        flushDialogue();
+    });
+
+    return items;
+};
+
+// --- EXPORT ---
+
+/** Writes a scene as Fountain plus a JSON sidecar. The sidecar keeps the raw content only when Fountain can't reproduce it exactly. */
+const writeScene = (folder: JSZip, scene: Scene, index: number) => {
+    const base = `scene-${pad(index + 1, 3)}`;
+    const fountain = renderFountain(scene.content || []);
+    const isLossless = JSON.stringify(parseFountain(fountain)) === JSON.stringify(scene.content || []);
+    const { content, ...fields } = scene;
+
+    folder.file(`${base}.fountain`, fountain);
+    folder.file(`${base}.json`, toJSON(isLossless ? fields : { ...fields, content }));
+};
+
+const writeSceneContainer = (scriptFolder: JSZip, studioFolder: JSZip, project: Project, path: string, item: Episode | Act, fileName: string) => {
+    const { scenes, sceneHistory, sceneRedoStack, ...fields } = item;
+    const folder = scriptFolder.folder(path)!;
+    folder.file(fileName, toJSON(fields));
+    // Undo history embeds whole scene snapshots; kept apart so it doesn't drown the diff
+    if (sceneHistory !== undefined || sceneRedoStack !== undefined) {
+        folder.file('_history.json', toJSON({ sceneHistory, sceneRedoStack }));
+    }
+
+    scenes.forEach((scene, i) => {
+        writeScene(folder, scene, i);
+        const shots = project.studio.shotsByScene[scene.id];
+        if (shots) studioFolder.folder(path)!.file(`scene-${pad(i + 1, 3)}.json`, toJSON({ sceneId: scene.id, shots }));
+    });
+};
+
+/** Lays a project out as a folder tree inside `root`. Images are added by the caller. */
+export const writeProjectFolder = (project: Project, root: JSZip) => {
+    const { bible, script, studio, ...projectFields } = project;
+    root.file('project.json', toJSON(projectFields));
+
+    // 1. Bible
+    const bibleFolder = root.folder('bible')!;
+    bibleFolder.file('synopsis.md', bible.synopsis || '');
+    bibleFolder.file('lore.json', toJSON(bible.lore || {}));
+    bible.characters.forEach((c, i) => bibleFolder.folder('characters')!.file(`${pad(i + 1, 3)}-${slugify(c.profile.name)}.json`, toJSON(c)));
+    bible.locations.forEach((l, i) => bibleFolder.folder('locations')!.file(`${pad(i + 1, 3)}-${slugify(l.baseProfile.identity.name)}.json`, toJSON(l)));
+    bible.props.forEach((p, i) => bibleFolder.folder('props')!.file(`${pad(i + 1, 3)}-${slugify(p.baseProfile.identity.name)}.json`, toJSON(p)));
+
+    // 2. Script + matching shot lists
+    const scriptFolder = root.folder('script')!;
+    const studioFolder = root.folder('studio')!;
+    const linkedSceneIds = new Set<string>();
+
+    script.seasons?.forEach((season, s) => {
+        const { episodes, ...fields } = season;
+        scriptFolder.folder(`season-${pad(s + 1)}`)!.file('_season.json', toJSON(fields));
+        episodes.forEach((episode, e) => {
+            episode.scenes.forEach(scene => linkedSceneIds.add(scene.id));
+            writeSceneContainer(scriptFolder, studioFolder, project, `season-${pad(s + 1)}/episode-${pad(e + 1)}`, episode, '_episode.json');
+        });
+    });
+    script.sequels?.forEach((sequel, p) => {
+        const { acts, ...fields } = sequel;
+        scriptFolder.folder(`part-${pad(p + 1)}`)!.file('_part.json', toJSON(fields));
+        acts.forEach((act, a) => {
+            act.scenes.forEach(scene => linkedSceneIds.add(scene.id));
+            writeSceneContainer(scriptFolder, studioFolder, project, `part-${pad(p + 1)}/act-${pad(a + 1)}`, act, '_act.json');
+        });
+    });
+    // Records which of seasons/sequels exist, including empty ones
+    scriptFolder.file('_script.json', toJSON({ hasSeasons: script.seasons !== undefined, hasSequels: script.sequels !== undefined }));
+
+    // 3. Shot lists whose scene no longer exists in the script
+    Object.entries(studio.shotsByScene).forEach(([sceneId, shots]) => {
+        if (!linkedSceneIds.has(sceneId)) studioFolder.folder('unlinked')!.file(`${sceneId}.json`, toJSON({ sceneId, shots }));
+    });
+};
+
+// --- IMPORT ---
+
+/** Returns the folder view holding the project files, or null if this isn't a folder export. */
+export const findProjectFolder = (zip: JSZip): JSZip | null => {
+    if (zip.file(FOLDER_MARKER)) return zip;
+    // Archives made by zipping a checked-out folder have one extra root directory
+    const roots = new Set<string>();
+    zip.forEach(path => roots.add(path.split('/')[0]));
+    for (const root of roots) {
+        if (zip.file(`${root}/${FOLDER_MARKER}`)) return zip.folder(root);
+    }
+    return null;
+};
+
+// Sub-paths directly under `prefix`, sorted so positional prefixes restore order
+const listEntries = (root: JSZip, prefix: string, pattern: RegExp): string[] => {
+    const paths: string[] = [];
+    root.forEach(path => {
+        if (!path.startsWith(prefix)) return;
+        const rest = path.slice(prefix.length);
+        if (pattern.test(rest)) paths.push(rest);
+    });
+    return paths.sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+};
+
+const readJSON = async (root: JSZip, path: string): Promise<any> => {
+    const file = root.file(path);
+    if (!file) throw new Error(`Project folder is missing ${path}`);
+    try {
+        return JSON.parse(await file.async('text'));
+    } catch (e: any) {
+        throw new Error(`${path} is not valid JSON (${e.message})`);
+    }
+};
+
+const readOptionalJSON = async (root: JSZip, path: string): Promise<any> => root.file(path) ? readJSON(root, path) : null;
+
+const readAssets = async (root: JSZip, kind: 'characters' | 'locations' | 'props') => {
+    const files = listEntries(root, `bible/${kind}/`, /^[^/]+\.json$/);
+    return Promise.all(files.map(name => readJSON(root, `bible/${kind}/${name}`)));
+};
+
+const readSceneContainer = async (root: JSZip, path: string, fileName: string, shotsByScene: Record<string, Shot[]>) => {
+    const fields = await readJSON(root, `script/${path}/${fileName}`);
+    const history = await readOptionalJSON(root, `script/${path}/_history.json`);
+
+    const sceneFiles = listEntries(root, `script/${path}/`, /^scene-\d+\.json$/);
+    const scenes: Scene[] = [];
+    for (const name of sceneFiles) {
+        const base = name.replace(/\.json$/, '');
+        const sidecar = await readJSON(root, `script/${path}/${name}`);
+        const fountainFile = root.file(`script/${path}/${base}.fountain`);
+        const fountain = fountainFile ? await fountainFile.async('text') : null;
+        const { content: storedContent, ...fields } = sidecar;
+
+        // The stored fallback is used unless the Fountain file was edited by hand since export
+        let content: ScreenplayItem[];
+        if (storedContent !== undefined && (fountain === null || fountain === renderFountain(storedContent))) content = storedContent;
+        else content = fountain !== null ? parseFountain(fountain) : [];
+        scenes.push({ ...fields, content });
+
+        const shotFile = await readOptionalJSON(root, `studio/${path}/${name}`);
+        if (shotFile) shotsByScene[sidecar.id] = shotFile.shots;
+    }
+
+    return { ...fields, scenes, ...(history || {}) };
+};
+
+/** Rebuilds the raw project object from a folder export. The result still goes through the schema validator. */
+export const readProjectFolder = async (root: JSZip): Promise<Project> => {
+    const projectFields = await readJSON(root, 'project.json');
+    const shotsByScene: Record<string, Shot[]> = {};
+
+    // 1. Bible
+    const bible = {
+        synopsis: await root.file('bible/synopsis.md')!.async('text'),
+        lore: (await readOptionalJSON(root, 'bible/lore.json')) || {},
+        characters: await readAssets(root, 'characters'),
+        locations: await readAssets(root, 'locations'),
+        props: await readAssets(root, 'props'),
+    };
+
+    // 2. Script
+    const layout = (await readOptionalJSON(root, 'script/_script.json')) || { hasSeasons: false, hasSequels: false };
+    const script: { seasons?: Season[]; sequels?: Sequel[] } = {};
+
+    const seasonDirs = listEntries(root, 'script/', /^season-\d+\/_season\.json$/).map(p => p.split('/')[0]);
+    if (layout.hasSeasons || seasonDirs.length > 0) {
+        script.seasons = [];
+        for (const dir of seasonDirs) {
+            const fields = await readJSON(root, `script/${dir}/_season.json`);
+            const episodeDirs = listEntries(root, `script/${dir}/`, /^episode-\d+\/_episode\.json$/).map(p => p.split('/')[0]);
+            const episodes: Episode[] = [];
+            for (const episodeDir of episodeDirs) {
+                episodes.push(await readSceneContainer(root, `${dir}/${episodeDir}`, '_episode.json', shotsByScene));
+            }
+            script.seasons.push({ ...fields, episodes });
+        }
+    }
+
+    const partDirs = listEntries(root, 'script/', /^part-\d+\/_part\.json$/).map(p => p.split('/')[0]);
+    if (layout.hasSequels || partDirs.length > 0) {
+        script.sequels = [];
+        for (const dir of partDirs) {
+            const fields = await readJSON(root, `script/${dir}/_part.json`);
+            const actDirs = listEntries(root, `script/${dir}/`, /^act-\d+\/_act\.json$/).map(p => p.split('/')[0]);
+            const acts: Act[] = [];
+            for (const actDir of actDirs) {
+                acts.push(await readSceneContainer(root, `${dir}/${actDir}`, '_act.json', shotsByScene));
+            }
+            script.sequels.push({ ...fields, acts });
+        }
+    }
+
+    // 3. Orphaned shot lists
+    for (const name of listEntries(root, 'studio/unlinked/', /^[^/]+\.json$/)) {
+        const shotFile = await readJSON(root, `studio/unlinked/${name}`);
+        shotsByScene[shotFile.sceneId] = shotFile.shots;
+    }
+
+    return { ...projectFields, bible, script, studio: { shotsByScene } };
+};
@@ -0,0 +1,110 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Project, QuarantinedImageRef, QuarantineOwnerType, QuarantineField, CharacterImage, ShotReferenceImage } from '../types';
+
+type ImageListEntry = CharacterImage | ShotReferenceImage | string;
+
+// Image slots share one shape across characters, location/prop visuals and shots.
+// Both lists take any entry so they can be handled by field name.
+interface ImageSlots {
+    generatedImageUrl?: string;
+    referenceImageUrl?: string;
+    imageHistory?: ImageListEntry[];
+    referenceImages?: ImageListEntry[];
+}
+
+interface ImageOwner {
+    ownerType: QuarantineOwnerType;
+    ownerId: string;
+    sceneId?: string;
+    label: string;
+    slots: ImageSlots;
+}
+
+// Every place in a project that can hold image ids
+const listImageOwners = (project: Project): ImageOwner[] => {
+    const owners: ImageOwner[] = [];
+    project.bible.characters.forEach(c => owners.push({ ownerType: 'character', ownerId: c.id, label: `Character "${c.profile.name}"`, slots: c.profile as ImageSlots }));
+    project.bible.locations.forEach(l => owners.push({ ownerType: 'location', ownerId: l.id, label: `Location "${l.baseProfile.identity.name}"`, slots: l.baseProfile.visuals as ImageSlots }));
+    project.bible.props.forEach(p => owners.push({ ownerType: 'prop', ownerId: p.id, label: `Prop "${p.baseProfile.identity.name}"`, slots: p.baseProfile.visuals as ImageSlots }));
+    Object.entries(project.studio?.shotsByScene || {}).forEach(([sceneId, shots]) => {
+        shots.forEach(shot => owners.push({ ownerType: 'shot', ownerId: shot.id, sceneId, label: `Shot ${shot.shotNumber}`, slots: shot as ImageSlots }));
+    });
+    return owners;
+};
+
+const entryImageId = (entry: ImageListEntry) => typeof entry === 'string' ? entry : entry.url;
+
+/**
+ * Moves every `img_` reference whose image is missing from `imageIds` into
+ * `project.quarantine`, recording where it came from. Mutates `project`.
+ * Returns the newly quarantined entries.
+ */
+export const quarantineBrokenReferences = (project: Project, imageIds: Set<string>): QuarantinedImageRef[] => {
+    const isMissing = (id: string | undefined) => !!id && id.startsWith('img_') && !imageIds.has(id);
+    const moved: QuarantinedImageRef[] = [];
+    const now = Date.now();
+
+    listImageOwners(project).forEach(({ slots, ...owner }) => {
+        const quarantine = (field: QuarantineField, imageId: string, index?: number, entry?: QuarantinedImageRef['entry']) => {
+            moved.push({
+                id: uuidv4(), imageId, ...owner, field, index, entry,
+                label: field === 'generatedImageUrl' ? owner.label : `${owner.label} - ${field === 'imageHistory' ? 'history' : 'reference'}`,
+                quarantinedAt: now,
+            });
+        };
+
+        (['generatedImageUrl', 'referenceImageUrl'] as const).forEach(field => {
+            const id = slots[field];
+            if (isMissing(id)) {
+                quarantine(field, id!);
+                slots[field] = undefined;
+            }
+        });
+        (['imageHistory', 'referenceImages'] as const).forEach(field => {
+            const list = slots[field];
+            if (!list) return;
+            const kept = list.filter((entry, index) => {
+                if (!isMissing(entryImageId(entry))) return true;
+                quarantine(field, entryImageId(entry), index, entry);
+                return false;
+            });
+            if (kept.length !== list.length) slots[field] = kept;
+        });
+    });
+
+    if (moved.length > 0) project.quarantine = [...(project.quarantine || []), ...moved];
+    return moved;
+};
+
+/**
+ * Puts quarantined references back where they came from once their image exists
+ * again. Entries whose owner was deleted stay quarantined. Mutates `project`.
+ */
+export const restoreQuarantinedReferences = (project: Project, imageIds: Set<string>): number => {
+    if (!project.quarantine?.length) return 0;
+    const owners = new Map(listImageOwners(project).map(o => [`${o.ownerType}:${o.ownerId}`, o]));
+    let restored = 0;
+
+    project.quarantine = project.quarantine.filter(ref => {
+        const owner = owners.get(`${ref.ownerType}:${ref.ownerId}`);
+        if (!owner || !imageIds.has(ref.imageId)) return true;
+        const { slots } = owner;
+
+        if (ref.field === 'generatedImageUrl' || ref.field === 'referenceImageUrl') {
+            // Something newer took the slot meanwhile; keep the old image in history instead
+            if (slots[ref.field] && ref.field === 'generatedImageUrl') {
+                slots.imageHistory = [...(slots.imageHistory || []), { id: uuidv4(), url: ref.imageId, timestamp: ref.quarantinedAt }];
+            } else {
+                slots[ref.field] = ref.imageId;
+            }
+        } else {
+            const list = [...(slots[ref.field] || [])];
+            list.splice(Math.min(ref.index ?? list.length, list.length), 0, ref.entry ?? ref.imageId);
+            slots[ref.field] = list;
+        }
+        restored++;
+        return false;
+    });
+
+    return restored;
+};
@@ -0,0 +1,103 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AIModelConfig } from '../types';
+
+// --- REQUEST INSPECTOR ---
+// Keeps the last few generic-provider calls in memory so a broken mapping can be debugged
+// from the exact URL, payload and response the gateway saw. Nothing here is persisted:
+// responses can hold prompts and generated media, and keys are only partly redacted.
+
+export type InspectedRequestKind = 'text' | 'image' | 'video' | 'audio';
+
+export interface InspectedRequest {
+    id: string;
+    timestamp: number;
+    kind: InspectedRequestKind;
+    config: AIModelConfig; // Snapshot, so a replay can start from the mapping that produced this
+    inputs: Record<string, any>; // Kept whole so a replay sends exactly the same prompt
+    replayOf?: string;
+
+    url?: string;
+    method?: string;
+    headers?: Record<string, string>;
+    payload?: any;
+    streamed?: boolean;
+
+    status?: number;
+    attempts: number;
+    response?: any;
+    initialResponse?: any; // Set when the job was polled through a status endpoint
+    extracted: Record<string, { path: string; value: any }>; // outputMapping fields as the gateway read them
+    durationMs?: number;
+    error?: string;
+}
+
+const MAX_ENTRIES = 50;
+const MAX_STRING_LENGTH = 2000;
+const REDACTED = '••••••••';
+
+let entries: InspectedRequest[] = [];
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+/** Opens an entry for a request that is about to be built. */
+export const beginInspection = (config: AIModelConfig, kind: InspectedRequestKind, inputs: Record<string, any>, replayOf?: string): InspectedRequest => {
+    const entry: InspectedRequest = {
+        id: uuidv4(),
+        timestamp: Date.now(),
+        kind,
+        config: JSON.parse(JSON.stringify(config)),
+        inputs,
+        replayOf,
+        attempts: 0,
+        extracted: {},
+    };
+    entries = [entry, ...entries].slice(0, MAX_ENTRIES);
+    notify();
+    return entry;
+};
+
+/** Merges changes into an entry. Large values are clipped so base64 media doesn't pile up in memory. */
+export const updateInspection = (entry: InspectedRequest, changes: Partial<InspectedRequest>) => {
+    const clipped = Object.fromEntries(Object.entries(changes).map(([key, value]) =>
+        ['response', 'initialResponse', 'payload', 'extracted'].includes(key) ? [key, clipForInspector(value)] : [key, value]
+    ));
+    Object.assign(entry, clipped, { durationMs: Date.now() - entry.timestamp });
+    entries = [...entries]; // New array so subscribers re-render
+    notify();
+};
+
+export const listInspections = (): InspectedRequest[] => entries;
+
+export const clearInspections = () => {
+    entries = [];
+    notify();
+};
+
+export const onInspectionsChanged = (listener: () => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+/** Hides the API key wherever it was templated into a string, e.g. a "?key={{key}}" URL. */
+export const redactKey = (value: string, apiKey: string): string => apiKey ? value.split(apiKey).join(REDACTED) : value;
+
+/** Hides the API key wherever it was templated into a header. */
+export const redactHeaders = (headers: Record<string, string>, apiKey: string): Record<string, string> => {
+    return Object.fromEntries(Object.entries(headers).map(([key, value]) => [key, redactKey(value, apiKey)]));
+};
+
+// Deep copy with long strings (usually base64) and binary bodies replaced by a length note
+export const clipForInspector = (value: any): any => {
+    if (value instanceof Blob) return `[${value.type || 'binary'} body, ${value.size.toLocaleString()} bytes]`;
+    if (typeof value === 'string') {
+        return value.length > MAX_STRING_LENGTH
+            ? `${value.slice(0, 200)}… [${value.length.toLocaleString()} characters]`
+            : value;
+    }
+    if (Array.isArray(value)) return value.map(clipForInspector);
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, clipForInspector(v)]));
+    }
+    return value;
+};
@@ -0,0 +1,160 @@
+import { AIModelConfig, RequestPolicy } from '../types';
+
+// --- REQUEST SCHEDULER ---
+// Every provider call goes through here. Requests to the same provider share a
+// concurrency limit, and transient failures (rate limits, 5xx, network drops) are
+// retried with exponential backoff, honoring Retry-After when the provider sends it.
+
+const DEFAULT_POLICY: Required<RequestPolicy> = {
+    maxConcurrent: 2,
+    maxRetries: 4,
+    pollIntervalMs: 2000,
+    pollTimeoutMs: 120000,
+};
+
+// Gemini handles more parallel calls than most hosted endpoints
+const PROVIDER_DEFAULTS: Record<string, RequestPolicy> = {
+    google_native: { maxConcurrent: 4 },
+};
+
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 60000;
+
+/** A non-OK HTTP response from a provider. */
+export class ProviderRequestError extends Error {
+    constructor(message: string, public status: number, public retryAfterMs?: number) {
+        super(message);
+    }
+
+    static async fromResponse(response: Response): Promise<ProviderRequestError> {
+        const errText = await response.text();
+        return new ProviderRequestError(`Provider Error (${response.status}): ${errText}`, response.status, parseRetryAfter(response.headers.get('retry-after')));
+    }
+}
+
+// Retry-After is either delay-seconds or an HTTP date
+const parseRetryAfter = (header: string | null): number | undefined => {
+    if (!header) return undefined;
+    const seconds = Number(header);
+    if (!isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(header);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+export const resolvePolicy = (config: AIModelConfig): Required<RequestPolicy> => ({
+    ...DEFAULT_POLICY,
+    ...PROVIDER_DEFAULTS[config.provider],
+    ...config.requestPolicy,
+});
+
+export const isAbortError = (error: any) => error?.name === 'AbortError';
+
+const abortError = () => new DOMException('The request was cancelled.', 'AbortError');
+
+/**
+ * Rate limits, server errors and dropped connections are worth retrying; bad requests are not.
+ * The Google SDK throws ApiError with a `status`, sometimes only in the message.
+ */
+export const isRetryableError = (error: any): boolean => {
+    if (isAbortError(error)) return false;
+    const status = error?.status;
+    if (typeof status === 'number') return status === 408 || status === 429 || status >= 500;
+    if (error instanceof TypeError) return true; // fetch network failure
+    const message = String(error?.message || '');
+    return /\b(429|500|502|503|504)\b|RESOURCE_EXHAUSTED|UNAVAILABLE/.test(message);
+};
+
+/** Waits `ms`, rejecting early with an AbortError if the signal fires. */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) { reject(abortError()); return; }
+        const timer = setTimeout(() => { signal?.removeEventListener('abort', onAbort); resolve(); }, ms);
+        const onAbort = () => { clearTimeout(timer); reject(abortError()); };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+};
+
+// Exponential with full jitter, unless the provider told us how long to wait
+export const backoffDelay = (attempt: number, error?: any): number => {
+    if (typeof error?.retryAfterMs === 'number') return Math.min(error.retryAfterMs, MAX_BACKOFF_MS);
+    const ceiling = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+    return ceiling / 2 + Math.random() * ceiling / 2;
+};
+
+class ProviderQueue {
+    private active = 0;
+    private waiting: (() => void)[] = [];
+
+    constructor(public limit: number) {}
+
+    // Resolves once a slot is free; the caller must call release() afterwards
+    acquire(signal?: AbortSignal): Promise<void> {
+        if (signal?.aborted) return Promise.reject(abortError());
+        if (this.active < this.limit) {
+            this.active++;
+            return Promise.resolve();
+        }
+        return new Promise((resolve, reject) => {
+            const start = () => { signal?.removeEventListener('abort', onAbort); resolve(); };
+            const onAbort = () => {
+                this.waiting = this.waiting.filter(w => w !== start);
+                reject(abortError());
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+            this.waiting.push(start);
+        });
+    }
+
+    release() {
+        this.active--;
+        // The limit may have changed since these were queued
+        while (this.active < this.limit && this.waiting.length > 0) {
+            this.active++;
+            this.waiting.shift()!();
+        }
+    }
+}
+
+export class RequestScheduler {
+    private queues = new Map<string, ProviderQueue>();
+
+    private queueFor(config: AIModelConfig): ProviderQueue {
+        const limit = Math.max(1, resolvePolicy(config).maxConcurrent);
+        let queue = this.queues.get(config.provider);
+        if (!queue) {
+            queue = new ProviderQueue(limit);
+            this.queues.set(config.provider, queue);
+        }
+        // The most recently used model's policy sets the provider's limit
+        queue.limit = limit;
+        return queue;
+    }
+
+    /**
+     * Runs `task` once a slot for the model's provider is free, retrying transient failures.
+     * The slot is given up while backing off so other requests can use it.
+     */
+    async run<T>(config: AIModelConfig, task: (signal?: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+        const { maxRetries } = resolvePolicy(config);
+        const queue = this.queueFor(config);
+
+        for (let attempt = 0; ; attempt++) {
+            await queue.acquire(signal);
+            let error: any;
+            try {
+                return await task(signal);
+            } catch (e) {
+                error = e;
+            } finally {
+                queue.release();
+            }
+
+            if (signal?.aborted || attempt >= maxRetries || !isRetryableError(error)) throw error;
+            const wait = backoffDelay(attempt, error);
+            console.warn(`[Scheduler] ${config.name}: ${error.message} Retry ${attempt + 1}/${maxRetries} in ${Math.round(wait / 1000)}s.`);
+            await sleep(wait, signal);
+        }
+    }
+}
+
+export const requestScheduler = new RequestScheduler();
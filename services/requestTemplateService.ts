@@ -0,0 +1,112 @@
+import { get } from 'lodash-es';
+
+// --- REQUEST TEMPLATES ---
+// Custom models describe their requests with {{variable}} placeholders in the URL, headers
+// and paramMapping. A string that is exactly one placeholder takes the variable's own type
+// (a number stays a number, an array stays an array); placeholders inside longer strings are
+// interpolated as text. Paths such as {{reference_images[0]}} reach into arrays and objects.
+
+/** The variables the gateway fills, with what each holds. Shown in the model test bench. */
+export const TEMPLATE_VARIABLES: Record<string, string> = {
+    prompt: 'The generation prompt (the text to speak, for audio).',
+    negative_prompt: 'What to keep out of the result, when the caller has one.',
+    seed: 'Integer seed for repeatable results, when the caller has one.',
+    aspect_ratio: 'e.g. "16:9" or "1:1".',
+    width: 'Image width in pixels, from the aspect ratio and resolution.',
+    height: 'Image height in pixels, from the aspect ratio and resolution.',
+    reference_images: 'Active reference images as data URLs. {{reference_images[0]}} is the first.',
+    reference_images_base64: 'The same reference images as bare base64.',
+    image: 'Video start frame as a data URL.',
+    duration: 'Length in seconds, for video and audio.',
+    videoPrompt: "The shot's full video JSON.",
+    text: 'Audio: the text to speak, or the music/effect description.',
+    voice: 'Audio: the voice to use.',
+    task: 'Audio: tts, voice_design, music or sfx.',
+    stream: 'Whether the text response is streamed.',
+    id: 'The model id. In status endpoints, the task id.',
+    model_id: 'Status endpoints only: the model id.',
+    key: "The provider's saved API key. URLs and headers only, so it never shows in payloads.",
+};
+
+const PLACEHOLDER = /\{\{\s*([^{}\s]+?)\s*\}\}/g;
+const WHOLE_PLACEHOLDER = /^\{\{\s*([^{}\s]+?)\s*\}\}$/;
+
+// Marks a mapped value to leave out of the payload
+const OMIT = Symbol('omit');
+
+// "reference_images[0].url" -> "reference_images"
+const variableName = (path: string) => path.split(/[.[]/)[0];
+
+/**
+ * Replaces every placeholder in a string. Objects are inserted as JSON; placeholders with
+ * no value are left as written so they are easy to spot in the request inspector.
+ * Values are not URL-encoded: ids like "fal-ai/flux/dev" are meant to become path segments.
+ */
+export const interpolate = (template: string, vars: Record<string, any>): string =>
+    template.replace(PLACEHOLDER, (match, path) => {
+        const value = get(vars, path);
+        if (value === undefined || value === null) return match;
+        return typeof value === 'string' ? value : JSON.stringify(value);
+    });
+
+const render = (mapping: any, vars: Record<string, any>): any => {
+    if (typeof mapping === 'string') {
+        const whole = mapping.match(WHOLE_PLACEHOLDER);
+        if (!whole) return interpolate(mapping, vars);
+        const value = get(vars, whole[1]);
+        if (value !== undefined) return value;
+        // A documented variable the caller didn't set is dropped, so optional fields like
+        // {{seed}} don't reach the provider as literals. Unknown names stay visible.
+        return variableName(whole[1]) in TEMPLATE_VARIABLES ? OMIT : mapping;
+    }
+    if (Array.isArray(mapping)) {
+        return mapping.map(item => render(item, vars)).filter(item => item !== OMIT);
+    }
+    if (mapping && typeof mapping === 'object') {
+        const result: Record<string, any> = {};
+        for (const [key, value] of Object.entries(mapping)) {
+            const rendered = render(value, vars);
+            if (rendered !== OMIT) result[key] = rendered;
+        }
+        return result;
+    }
+    return mapping;
+};
+
+/**
+ * Builds a payload from a paramMapping template. Whole-string placeholders keep their type,
+ * documented variables without a value are omitted, unknown placeholders are sent as written.
+ */
+export const renderTemplate = (mapping: any, vars: Record<string, any>): any => {
+    const rendered = render(mapping, vars);
+    return rendered === OMIT ? undefined : rendered;
+};
+
+/** Renders each header value, e.g. "Bearer {{key}}". */
+export const renderHeaders = (headers: Record<string, string> | undefined, vars: Record<string, any>): Record<string, string> =>
+    Object.fromEntries(Object.entries(headers || {}).map(([key, value]) => [key, interpolate(value, vars)]));
+
+/** `{{name}}` placeholders still present in a built payload or URL, i.e. mapped to inputs that weren't given. */
+export const findUnfilledPlaceholders = (value: any): string[] => {
+    const found = new Set<string>();
+    const visit = (v: any) => {
+        if (typeof v === 'string') [...v.matchAll(PLACEHOLDER)].forEach(m => found.add(m[1]));
+        else if (Array.isArray(v)) v.forEach(visit);
+        else if (v && typeof v === 'object') Object.values(v).forEach(visit);
+    };
+    visit(value);
+    return [...found];
+};
+
+const LONG_EDGES: Record<string, number> = { '1K': 1024, '2K': 2048, '4K': 4096 };
+
+/** Pixel size for an aspect ratio at a resolution tier, rounded to multiples of 8 as diffusion models expect. */
+export const imageDimensions = (aspectRatio: string, resolution = '1K'): { width: number; height: number } => {
+    const longEdge = LONG_EDGES[resolution] || LONG_EDGES['1K'];
+    const [w, h] = aspectRatio.split(':').map(Number);
+    if (!w || !h) return { width: longEdge, height: longEdge };
+    const roundTo8 = (n: number) => Math.max(8, Math.round(n / 8) * 8);
+    return w >= h
+        ? { width: longEdge, height: roundTo8(longEdge * h / w) }
+        : { width: roundTo8(longEdge * w / h), height: longEdge };
+};
@@ -0,0 +1,306 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Project, Bible, Script, Studio, EpisodePackage, ImportReport, SchemaModule } from '../types';
+
+// Bump when the persisted shape changes, and add a step to SCHEMA_UPGRADES.
+export const CURRENT_SCHEMA_VERSION = 1;
+
+const KNOWN_KEYS: Record<SchemaModule, string[]> = {
+    project: ['schemaVersion', 'dataVersion', 'quarantine', 'budget', 'routing', 'audioTakes', 'metadata', 'logline', 'format', 'style', 'bible', 'script', 'art', 'studio', 'supportingText'],
+    bible: ['schemaVersion', 'synopsis', 'characters', 'locations', 'props', 'lore'],
+    script: ['schemaVersion', 'seasons', 'sequels'],
+    studio: ['schemaVersion', 'shotsByScene'],
+    episode: ['schemaVersion', 'kind', 'sourceProjectName', 'item', 'shotsByScene', 'assets'],
+};
+
+// --- HELPERS ---
+
+const isObject = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Ensures `obj[key]` is an array, recording a fix if it had to be replaced
+const ensureArray = (obj: Record<string, any>, key: string, path: string, report: ImportReport) => {
+    if (!Array.isArray(obj[key])) {
+        if (obj[key] !== undefined) report.dropped.push(`${path}.${key} (expected a list)`);
+        else report.fixed.push(`${path}.${key} was missing`);
+        obj[key] = [];
+    }
+};
+
+const ensureObject = (obj: Record<string, any>, key: string, path: string, report: ImportReport) => {
+    if (!isObject(obj[key])) {
+        if (obj[key] !== undefined) report.dropped.push(`${path}.${key} (expected an object)`);
+        else report.fixed.push(`${path}.${key} was missing`);
+        obj[key] = {};
+    }
+};
+
+const ensureString = (obj: Record<string, any>, key: string, path: string, report: ImportReport) => {
+    if (typeof obj[key] !== 'string') {
+        report.fixed.push(`${path}.${key} was not text`);
+        obj[key] = obj[key] === undefined || obj[key] === null ? '' : String(obj[key]);
+    }
+};
+
+const ensureId = (obj: Record<string, any>, path: string, report: ImportReport) => {
+    if (typeof obj.id !== 'string' || !obj.id) {
+        obj.id = uuidv4();
+        report.fixed.push(`${path} had no id`);
+    }
+};
+
+// Filters a list down to plain objects, reporting anything else as dropped
+const keepObjects = (list: any[], path: string, report: ImportReport): Record<string, any>[] => {
+    return list.filter((item, index) => {
+        if (isObject(item)) return true;
+        report.dropped.push(`${path}[${index}] (not an object)`);
+        return false;
+    });
+};
+
+const recordUnknownKeys = (obj: Record<string, any>, module: SchemaModule, report: ImportReport) => {
+    Object.keys(obj)
+        .filter(key => !KNOWN_KEYS[module].includes(key))
+        .forEach(key => report.unknown.push(key));
+};
+
+// --- SECTION VALIDATORS ---
+
+const validateAssetCommon = (asset: Record<string, any>, path: string, report: ImportReport) => {
+    ensureId(asset, path, report);
+    ensureArray(asset, 'timeline', path, report);
+    if (!['STRICT', 'FLEXIBLE', 'GENERATIVE'].includes(asset.consistencyMode)) {
+        asset.consistencyMode = 'GENERATIVE';
+        report.fixed.push(`${path}.consistencyMode reset to GENERATIVE`);
+    }
+    if (!isObject(asset.analysis)) {
+        asset.analysis = { narrativeWeight: 0, recurrenceScore: 0, reasoning: '' };
+        report.fixed.push(`${path}.analysis was missing`);
+    }
+    if (typeof asset.appearances !== 'number') asset.appearances = 0;
+};
+
+const validateVisuals = (visuals: Record<string, any>, path: string, report: ImportReport) => {
+    ensureString(visuals, 'visualPrompt', path, report);
+    if (visuals.imageHistory !== undefined) ensureArray(visuals, 'imageHistory', path, report);
+    if (visuals.referenceImages !== undefined) ensureArray(visuals, 'referenceImages', path, report);
+};
+
+const validateBible = (bible: Record<string, any>, path: string, report: ImportReport) => {
+    ensureString(bible, 'synopsis', path, report);
+    ensureArray(bible, 'characters', path, report);
+    ensureArray(bible, 'locations', path, report);
+    ensureArray(bible, 'props', path, report);
+    ensureObject(bible, 'lore', path, report);
+
+    bible.characters = keepObjects(bible.characters, `${path}.characters`, report).filter((char, i) => {
+        const charPath = `${path}.characters[${i}]`;
+        if (!isObject(char.profile) || typeof char.profile.name !== 'string') {
+            report.dropped.push(`${charPath} (no profile name)`);
+            return false;
+        }
+        validateAssetCommon(char, charPath, report);
+        if (char.profile.imageHistory !== undefined) ensureArray(char.profile, 'imageHistory', `${charPath}.profile`, report);
+        if (char.profile.referenceImages !== undefined) ensureArray(char.profile, 'referenceImages', `${charPath}.profile`, report);
+        return true;
+    });
+
+    (['locations', 'props'] as const).forEach(key => {
+        bible[key] = keepObjects(bible[key], `${path}.${key}`, report).filter((asset, i) => {
+            const assetPath = `${path}.${key}[${i}]`;
+            if (!isObject(asset.baseProfile) || !isObject(asset.baseProfile.identity) || typeof asset.baseProfile.identity.name !== 'string') {
+                report.dropped.push(`${assetPath} (no identity name)`);
+                return false;
+            }
+            validateAssetCommon(asset, assetPath, report);
+            ensureObject(asset.baseProfile, 'narrative', `${assetPath}.baseProfile`, report);
+            ensureObject(asset.baseProfile, 'visuals', `${assetPath}.baseProfile`, report);
+            ensureObject(asset.baseProfile, 'audioProfile', `${assetPath}.baseProfile`, report);
+            validateVisuals(asset.baseProfile.visuals, `${assetPath}.baseProfile.visuals`, report);
+            return true;
+        });
+    });
+};
+
+const validateScenes = (container: Record<string, any>, path: string, report: ImportReport) => {
+    ensureArray(container, 'scenes', path, report);
+    container.scenes = keepObjects(container.scenes, `${path}.scenes`, report);
+    container.scenes.forEach((scene: Record<string, any>, i: number) => {
+        const scenePath = `${path}.scenes[${i}]`;
+        ensureId(scene, scenePath, report);
+        if (typeof scene.sceneNumber !== 'number') {
+            scene.sceneNumber = i + 1;
+            report.fixed.push(`${scenePath}.sceneNumber was missing`);
+        }
+        ensureString(scene, 'setting', scenePath, report);
+        ensureString(scene, 'summary', scenePath, report);
+        ensureArray(scene, 'content', scenePath, report);
+    });
+    if (typeof container.sceneSummariesLocked !== 'boolean') container.sceneSummariesLocked = false;
+    if (container.sceneHistory !== undefined) ensureArray(container, 'sceneHistory', path, report);
+    if (container.sceneRedoStack !== undefined) ensureArray(container, 'sceneRedoStack', path, report);
+};
+
+const validateScript = (script: Record<string, any>, path: string, report: ImportReport, isEpisodic?: boolean) => {
+    // A script with neither list gets the one matching the project format (or sequels by default)
+    if (script.seasons === undefined && script.sequels === undefined) {
+        script[isEpisodic ? 'seasons' : 'sequels'] = [];
+        report.fixed.push(`${path} had no seasons or sequels`);
+    }
+
+    if (script.seasons !== undefined) {
+        ensureArray(script, 'seasons', path, report);
+        script.seasons = keepObjects(script.seasons, `${path}.seasons`, report);
+        script.seasons.forEach((season: Record<string, any>, i: number) => {
+            const seasonPath = `${path}.seasons[${i}]`;
+            ensureId(season, seasonPath, report);
+            ensureArray(season, 'episodes', seasonPath, report);
+            season.episodes = keepObjects(season.episodes, `${seasonPath}.episodes`, report);
+            season.episodes.forEach((episode: Record<string, any>, j: number) => {
+                ensureId(episode, `${seasonPath}.episodes[${j}]`, report);
+                validateScenes(episode, `${seasonPath}.episodes[${j}]`, report);
+            });
+        });
+    }
+
+    if (script.sequels !== undefined) {
+        ensureArray(script, 'sequels', path, report);
+        script.sequels = keepObjects(script.sequels, `${path}.sequels`, report);
+        script.sequels.forEach((sequel: Record<string, any>, i: number) => {
+            const sequelPath = `${path}.sequels[${i}]`;
+            ensureId(sequel, sequelPath, report);
+            ensureArray(sequel, 'acts', sequelPath, report);
+            sequel.acts = keepObjects(sequel.acts, `${sequelPath}.acts`, report);
+            sequel.acts.forEach((act: Record<string, any>, j: number) => {
+                ensureId(act, `${sequelPath}.acts[${j}]`, report);
+                validateScenes(act, `${sequelPath}.acts[${j}]`, report);
+            });
+        });
+    }
+};
+
+const validateStudio = (studio: Record<string, any>, path: string, report: ImportReport) => {
+    ensureObject(studio, 'shotsByScene', path, report);
+    for (const [sceneId, shots] of Object.entries(studio.shotsByScene)) {
+        const shotsPath = `${path}.shotsByScene.${sceneId}`;
+        if (!Array.isArray(shots)) {
+            delete studio.shotsByScene[sceneId];
+            report.dropped.push(`${shotsPath} (expected a list)`);
+            continue;
+        }
+        studio.shotsByScene[sceneId] = keepObjects(shots, shotsPath, report).map((shot, i) => {
+            ensureId(shot, `${shotsPath}[${i}]`, report);
+            if (typeof shot.shotNumber !== 'number') shot.shotNumber = i + 1;
+            ensureString(shot, 'description', `${shotsPath}[${i}]`, report);
+            if (shot.referenceImages !== undefined) ensureArray(shot, 'referenceImages', `${shotsPath}[${i}]`, report);
+            if (shot.imageHistory !== undefined) ensureArray(shot, 'imageHistory', `${shotsPath}[${i}]`, report);
+            return shot;
+        });
+    }
+};
+
+const validateEpisodePackage = (pkg: Record<string, any>, report: ImportReport) => {
+    if (pkg.kind !== 'episode' && pkg.kind !== 'act') throw new Error("Package does not say whether it holds an episode or an act.");
+    if (!isObject(pkg.item)) throw new Error("Package is missing its episode/act.");
+    ensureId(pkg.item, 'item', report);
+    ensureString(pkg.item, 'title', 'item', report);
+    validateScenes(pkg.item, 'item', report);
+    validateStudio(pkg, 'package', report);
+
+    // Assets use the same checks as a bible; synopsis/lore are placeholders that are discarded
+    ensureObject(pkg, 'assets', 'package', report);
+    const assets = { synopsis: '', lore: {}, ...pkg.assets };
+    validateBible(assets, 'assets', report);
+    pkg.assets = { characters: assets.characters, locations: assets.locations, props: assets.props };
+};
+
+const validateProject = (project: Record<string, any>, report: ImportReport) => {
+    ensureObject(project, 'metadata', 'project', report);
+    const metadata = project.metadata;
+    ensureId(metadata, 'project.metadata', report);
+    if (typeof metadata.name !== 'string' || !metadata.name.trim()) {
+        metadata.name = 'Untitled Project';
+        report.fixed.push('project.metadata.name was missing');
+    }
+    if (typeof metadata.author !== 'string') metadata.author = 'User';
+    if (typeof metadata.createdAt !== 'number') metadata.createdAt = Date.now();
+    if (typeof metadata.updatedAt !== 'number') metadata.updatedAt = metadata.createdAt;
+
+    ensureString(project, 'logline', 'project', report);
+    ensureObject(project, 'format', 'project', report);
+    if (typeof project.format.type !== 'string') {
+        // Infer from the script shape so the right pages render
+        project.format.type = Array.isArray(project.script?.seasons) ? 'EPISODIC' : 'SINGLE_STORY';
+        report.fixed.push(`project.format.type inferred as ${project.format.type}`);
+    }
+    ensureObject(project, 'style', 'project', report);
+    ensureObject(project, 'bible', 'project', report);
+    ensureObject(project, 'script', 'project', report);
+    ensureObject(project, 'art', 'project', report);
+    ensureObject(project, 'studio', 'project', report);
+
+    validateBible(project.bible, 'project.bible', report);
+    validateScript(project.script, 'project.script', report, project.format.type === 'EPISODIC');
+    validateStudio(project.studio, 'project.studio', report);
+};
+
+// --- UPGRADES ---
+// Each step upgrades data *from* the keyed version to the next one.
+const SCHEMA_UPGRADES: Record<number, (data: Record<string, any>, module: SchemaModule, report: ImportReport) => void> = {
+    // v0 -> v1: Files written before versioning. There is no shape change; the
+    // structural repairs done by the validators are the whole upgrade.
+    0: () => {},
+};
+
+/**
+ * Checks and repairs an imported payload before it reaches the store.
+ * Throws if the payload is unusable; otherwise returns the upgraded data and a report.
+ *
+ * @param raw The parsed JSON.
+ * @param module Which section the payload is expected to be.
+ * @param isEpisodic Format hint for bare `.script` files that carry neither seasons nor sequels.
+ */
+export function validateAndUpgrade<T>(raw: unknown, module: SchemaModule, isEpisodic?: boolean): { data: T; report: ImportReport } {
+    if (!isObject(raw)) throw new Error(`Expected a ${module} object but found ${Array.isArray(raw) ? 'a list' : typeof raw}.`);
+
+    // Work on a copy so a failed validation never leaves half-repaired data behind
+    const data: Record<string, any> = JSON.parse(JSON.stringify(raw));
+    const fromVersion = typeof data.schemaVersion === 'number' ? data.schemaVersion : 0;
+    const report: ImportReport = { module, fromVersion, toVersion: CURRENT_SCHEMA_VERSION, fixed: [], dropped: [], unknown: [], warnings: [], quarantined: [] };
+
+    // Reject obvious module mix-ups (e.g. a .script picked in the Bible importer)
+    if (module === 'project' && !('bible' in data) && !('metadata' in data)) throw new Error("This file is not a full project.");
+    if (module === 'bible' && !('characters' in data) && !('synopsis' in data)) throw new Error("This file does not contain a story bible.");
+    if (module === 'script' && !('seasons' in data) && !('sequels' in data)) throw new Error("This file does not contain a script.");
+    if (module === 'studio' && !('shotsByScene' in data)) throw new Error("This file does not contain studio shots.");
+    if (module === 'episode' && !('item' in data)) throw new Error("This file is not an episode/act package.");
+
+    if (fromVersion > CURRENT_SCHEMA_VERSION) {
+        report.warnings.push(`File was written by a newer version (schema v${fromVersion}). Unrecognised data may be ignored.`);
+    }
+
+    for (let version = fromVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+        SCHEMA_UPGRADES[version]?.(data, module, report);
+    }
+
+    recordUnknownKeys(data, module, report);
+
+    if (module === 'project') validateProject(data, report);
+    else if (module === 'bible') validateBible(data, 'bible', report);
+    else if (module === 'script') validateScript(data, 'script', report, isEpisodic);
+    else if (module === 'episode') validateEpisodePackage(data, report);
+    else validateStudio(data, 'studio', report);
+
+    // Sub-modules are stored inside the project without their own version stamp
+    if (module === 'project') data.schemaVersion = CURRENT_SCHEMA_VERSION;
+    else delete data.schemaVersion;
+
+    return { data: data as T, report };
+}
+
+export const isReportClean = (report: ImportReport) =>
+    report.fixed.length === 0 && report.dropped.length === 0 && report.unknown.length === 0 && report.warnings.length === 0 && report.quarantined.length === 0;
+
+/** Adds the version stamp written into every exported file. */
+export const stampSchemaVersion = <T extends Project | Bible | Script | Studio | EpisodePackage>(data: T): T & { schemaVersion: number } => ({
+    ...data,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+});
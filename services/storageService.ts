@@ -1,7 +1,11 @@
-import { Project, Bible, Script, Season, Sequel, ContinuityBrief, Studio, Shot } from '../types';
+import { Project, Episode, Act, EpisodePackage, ProjectSummary, ProjectCheckpoint, JournalEntry, UsageRecord, ImageGCReport, StorageBreakdown, StorageCategory, SchemaModule, ValidatedImport, Bible, Script, Season, Sequel, ContinuityBrief, Studio, Shot } from '../types';
 import JSZip from 'jszip';
 import saveAs from 'file-saver';
 import { v4 as uuidv4 } from 'uuid';
+import { validateAndUpgrade, stampSchemaVersion } from './schemaService';
+import { buildEpisodePackage } from './episodePackageService';
+import { isEncryptedArchive, encryptArchive, decryptArchive } from './cryptoService';
+import { writeProjectFolder, findProjectFolder, readProjectFolder } from './projectFolderService';
 
 // --- HELPERS ---
 
@@ -45,6 +49,10 @@ const findContextForImageId = (id: string, project: Project): string | null => {
         if (shot) {
             shotName = `${prefix}_Shot${shot.shotNumber}`;
         }
+        const videoShot = shots.find(s => s.generatedVideoUrl === id);
+        if (videoShot) {
+            shotName = `${prefix}_Shot${videoShot.shotNumber}_Video`;
+        }
     };
 
     if (isEpisodic && project.script.seasons) {
@@ -70,7 +78,7 @@ const findContextForImageId = (id: string, project: Project): string | null => {
     return shotName;
 };
 
-// Determines which folder the image goes into (artdept, shots, or history)
+// Determines which folder the image goes into (artdept, shots, audio, or history)
 const classifyImageFolder = (id: string, project: Project): string => {
     // 1. ART DEPT (Highest Priority: Active Bible Assets)
     if (project.bible.characters.some(c => c.profile.generatedImageUrl === id) ||
@@ -82,20 +90,27 @@ const classifyImageFolder = (id: string, project: Project): string => {
     // 2. SHOTS (Active Studio Shots)
     let isShot = false;
     Object.values(project.studio.shotsByScene || {}).forEach(shots => {
-        if (shots.some(s => s.generatedImageUrl === id)) isShot = true;
+        if (shots.some(s => s.generatedImageUrl === id || s.generatedVideoUrl === id)) isShot = true;
     });
     if (isShot) return 'shots';
 
-    // 3. HISTORY (Everything else: Reference images, old generations, unused assets)
+    // 3. SOUND STAGE
+    if (project.audioTakes?.some(t => t.audioId === id)) return 'audio';
+
+    // 4. HISTORY (Everything else: Reference images, old generations, unused assets)
     return 'history';
 };
 
 // --- INDEXED DB SETUP ---
 const DB_NAME = 'ShowrunnerDB';
-const DB_VERSION = 3;
+const DB_VERSION = 7;
 const PROJECT_STORE = 'projects';
 const IMAGE_STORE = 'images';
 const HASH_STORE = 'image_hashes';
+const THUMBNAIL_STORE = 'thumbnails';
+const CHECKPOINT_STORE = 'checkpoints';
+const JOURNAL_STORE = 'journal';
+const USAGE_STORE = 'usage';
 
 export const initDB = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
@@ -105,6 +120,19 @@ export const initDB = (): Promise<IDBDatabase> => {
       if (!db.objectStoreNames.contains(PROJECT_STORE)) db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
       if (!db.objectStoreNames.contains(IMAGE_STORE)) db.createObjectStore(IMAGE_STORE);
       if (!db.objectStoreNames.contains(HASH_STORE)) db.createObjectStore(HASH_STORE);
+      if (!db.objectStoreNames.contains(THUMBNAIL_STORE)) db.createObjectStore(THUMBNAIL_STORE);
+      if (!db.objectStoreNames.contains(CHECKPOINT_STORE)) {
+          const checkpointStore = db.createObjectStore(CHECKPOINT_STORE, { keyPath: 'id' });
+          checkpointStore.createIndex('projectId', 'projectId', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(JOURNAL_STORE)) {
+          const journalStore = db.createObjectStore(JOURNAL_STORE, { keyPath: 'seq', autoIncrement: true });
+          journalStore.createIndex('projectId', 'projectId', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(USAGE_STORE)) {
+          const usageStore = db.createObjectStore(USAGE_STORE, { keyPath: 'id' });
+          usageStore.createIndex('projectId', 'projectId', { unique: false });
+      }
     };
     request.onsuccess = () => resolve(request.result);
     request.onerror = () => reject(request.error);
@@ -141,7 +169,7 @@ export const storeImageInDB = async (base64OrBlob: string | Blob): Promise<strin
     const hash = await computeBlobHash(blob);
     const db = await initDB();
     
-    return new Promise((resolve, reject) => {
+    const id = await new Promise<string>((resolve, reject) => {
         const tx = db.transaction([IMAGE_STORE, HASH_STORE], 'readwrite');
         const imageStore = tx.objectStore(IMAGE_STORE);
         const hashStore = tx.objectStore(HASH_STORE);
@@ -177,6 +205,47 @@ export const storeImageInDB = async (base64OrBlob: string | Blob): Promise<strin
         };
         hashRequest.onerror = () => reject(hashRequest.error);
     });
+
+    // A missing thumbnail only costs speed; getThumbnailFromDB regenerates it on demand
+    if (blob.type.startsWith('image/')) {
+        try {
+            await ensureThumbnail(id, blob);
+        } catch (e) {
+            console.warn(`[Storage] Could not create thumbnail for ${id}`, e);
+        }
+    }
+    return id;
+};
+
+/**
+ * Video and audio live in the image store under the same `img_` ids, so export
+ * and garbage collection handle them without a second code path.
+ */
+export const storeMediaInDB = (blob: Blob): Promise<string> => storeImageInDB(blob);
+
+// Archive file extensions for stored media. Zip entries carry no MIME type, so imports map back from these.
+const MEDIA_EXTENSIONS: Record<string, string> = {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'video/mp4': 'mp4',
+    'video/webm': 'webm',
+    'audio/mpeg': 'mp3',
+    'audio/wav': 'wav',
+    'audio/ogg': 'ogg',
+};
+
+const mimeForFileName = (fileName: string): string | undefined => {
+    const ext = fileName.split('.').pop()?.toLowerCase();
+    return Object.keys(MEDIA_EXTENSIONS).find(mime => MEDIA_EXTENSIONS[mime] === ext);
+};
+
+export const listImageIdsInDB = async (): Promise<Set<string>> => {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+        const request = db.transaction(IMAGE_STORE, 'readonly').objectStore(IMAGE_STORE).getAllKeys();
+        request.onsuccess = () => resolve(new Set(request.result.map(k => String(k))));
+        request.onerror = () => reject(request.error);
+    });
 };
 
 export const getImageFromDB = async (id: string): Promise<Blob | null> => {
@@ -190,60 +259,128 @@ export const getImageFromDB = async (id: string): Promise<Blob | null> => {
     });
 };
 
+// --- THUMBNAILS ---
+const THUMBNAIL_MAX_SIZE = 320;
+
+// Downscales to fit THUMBNAIL_MAX_SIZE. Images that are already small are kept as-is.
+const createThumbnail = async (blob: Blob): Promise<Blob> => {
+    const bitmap = await createImageBitmap(blob);
+    try {
+        const scale = Math.min(1, THUMBNAIL_MAX_SIZE / Math.max(bitmap.width, bitmap.height));
+        if (scale === 1) return blob;
+
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(bitmap.width * scale);
+        canvas.height = Math.round(bitmap.height * scale);
+        canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+        return await new Promise<Blob>((resolve, reject) => {
+            canvas.toBlob(result => result ? resolve(result) : reject(new Error("Canvas produced no thumbnail")), 'image/jpeg', 0.8);
+        });
+    } finally {
+        bitmap.close();
+    }
+};
+
+const readThumbnail = async (id: string): Promise<Blob | null> => {
+    const db = await initDB();
+    return new Promise((resolve) => {
+        const request = db.transaction(THUMBNAIL_STORE, 'readonly').objectStore(THUMBNAIL_STORE).get(id);
+        request.onsuccess = () => resolve(request.result || null);
+        request.onerror = () => resolve(null);
+    });
+};
+
+const ensureThumbnail = async (id: string, original: Blob): Promise<Blob> => {
+    const existing = await readThumbnail(id);
+    if (existing) return existing;
+
+    const thumbnail = await createThumbnail(original);
+    const db = await initDB();
+    await new Promise<void>((resolve, reject) => {
+        const tx = db.transaction(THUMBNAIL_STORE, 'readwrite');
+        tx.objectStore(THUMBNAIL_STORE).put(thumbnail, id);
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+    return thumbnail;
+};
+
+/**
+ * Returns the small preview for an image. Images stored before thumbnails existed
+ * (or restored from an archive) get one generated and saved on first request.
+ */
+export const getThumbnailFromDB = async (id: string): Promise<Blob | null> => {
+    // The original is only read when a thumbnail has to be generated
+    const existing = await readThumbnail(id);
+    if (existing) return existing;
+
+    const original = await getImageFromDB(id);
+    if (!original) return null;
+    try {
+        return await ensureThumbnail(id, original);
+    } catch (e) {
+        console.warn(`[Storage] Thumbnail unavailable for ${id}, using original`, e);
+        return original;
+    }
+};
+
 // --- REUSABLE EXPORT/IMPORT LOGIC ---
 
-async function exportDataWithImages(data: any, baseFileName: string, extension: string, projectContext?: Project, onStatusUpdate?: (status: string) => void) {
+// Adds every image referenced in `jsonString` to the archive, sorted into department folders
+async function packImages(zip: JSZip, jsonString: string, projectContext?: Project, onStatusUpdate?: (status: string) => void) {
+    // Find Image IDs
+    const imageIds = new Set<string>();
+    const regex = /"(img_[a-f0-9\-]+)"/g;
+    let match;
+    while ((match = regex.exec(jsonString)) !== null) {
+        imageIds.add(match[1]);
+    }
+
+    if (imageIds.size === 0) return;
+    onStatusUpdate?.(`Packing ${imageIds.size} assets...`);
+
+    for (const id of imageIds) {
+        const blob = await getImageFromDB(id);
+        if (!blob) continue;
+        const ext = MEDIA_EXTENSIONS[blob.type] || 'png';
+
+        // Default to ID filename in 'history' folder
+        let filename = `${id}.${ext}`;
+        let folder = 'history';
+
+        // If we have context, classify it properly
+        if (projectContext) {
+            const friendlyName = findContextForImageId(id, projectContext);
+            folder = classifyImageFolder(id, projectContext);
+            if (friendlyName) {
+                filename = `${friendlyName}__${id}.${ext}`;
+            }
+        }
+
+        zip.folder(folder)?.file(filename, blob);
+    }
+}
+
+async function exportDataWithImages(data: Project | Bible | Script | Studio | EpisodePackage, baseFileName: string, extension: string, projectContext?: Project, onStatusUpdate?: (status: string) => void, passphrase?: string) {
     try {
         onStatusUpdate?.("Preparing data...");
         await new Promise(resolve => setTimeout(resolve, 10));
 
         const zip = new JSZip();
-        const jsonString = JSON.stringify(data, null, 2);
+        const jsonString = JSON.stringify(stampSchemaVersion(data), null, 2);
         
         // Save main data file. Use 'project.json' for full projects, 'data.json' for sub-modules
         const mainDataFile = extension === 'zip' || extension === 'showrunner' ? 'project.json' : 'data.json';
         zip.file(mainDataFile, jsonString);
 
-        // Find Image IDs
-        const imageIds = new Set<string>();
-        const regex = /"(img_[a-f0-9\-]+)"/g;
-        let match;
-        while ((match = regex.exec(jsonString)) !== null) {
-            imageIds.add(match[1]);
-        }
-
-        if (imageIds.size > 0) {
-            let processed = 0;
-            onStatusUpdate?.(`Packing ${imageIds.size} assets...`);
-            
-            for (const id of imageIds) {
-                const blob = await getImageFromDB(id);
-                if (blob) {
-                    const ext = blob.type === 'image/jpeg' ? 'jpg' : 'png';
-                    
-                    // Default to ID filename in 'history' folder
-                    let filename = `${id}.${ext}`;
-                    let folder = 'history';
-
-                    // If we have context, classify it properly
-                    if (projectContext) {
-                        const friendlyName = findContextForImageId(id, projectContext);
-                        const classification = classifyImageFolder(id, projectContext);
-                        
-                        folder = classification;
-                        if (friendlyName) {
-                            filename = `${friendlyName}__${id}.${ext}`;
-                        }
-                    }
-
-                    zip.folder(folder)?.file(filename, blob);
-                }
-                processed++;
-            }
-        }
+        await packImages(zip, jsonString, projectContext, onStatusUpdate);
 
         onStatusUpdate?.("Compressing...");
-        const content = await zip.generateAsync({ type: 'blob' });
+        let content = await zip.generateAsync({ type: 'blob' });
+        if (passphrase) {
+            onStatusUpdate?.("Encrypting...");
+            content = await encryptArchive(content, passphrase);
+        }
         saveAs(content, getFileName(baseFileName, extension));
         onStatusUpdate?.("Done!");
 
@@ -253,7 +390,110 @@ async function exportDataWithImages(data: any, baseFileName: string, extension:
     }
 }
 
-async function importDataWithImages<T>(extension: string): Promise<T | null> {
+class ImportCancelledError extends Error {}
+
+/**
+ * Opens a plain or encrypted zip. Returns null if the file isn't an archive at all
+ * (legacy JSON). Encrypted archives must decrypt cleanly; they never fall back to JSON.
+ */
+async function openArchive(file: File): Promise<JSZip | null> {
+    if (await isEncryptedArchive(file)) {
+        const passphrase = prompt(`"${file.name}" is encrypted. Enter its passphrase:`);
+        if (!passphrase) throw new ImportCancelledError();
+        const archive = await decryptArchive(file, passphrase);
+        return JSZip.loadAsync(archive, { checkCRC32: true });
+    }
+    try {
+        return await JSZip.loadAsync(file, { checkCRC32: true });
+    } catch (zipError: any) {
+        // A zip signature with a bad body means damage, not a legacy JSON file
+        if (await file.slice(0, 2).text() === 'PK') throw new Error(`The archive is corrupted (${zipError.message}).`);
+        return null;
+    }
+}
+
+// Collects every file whose name contains an image id ("img_UUID" anywhere in the filename)
+async function extractArchiveImages(zip: JSZip, wantedIds?: Set<string>): Promise<{ id: string, blob: Blob }[]> {
+    const imagesToStore: { id: string, blob: Blob }[] = [];
+    const promises: Promise<void>[] = [];
+
+    zip.forEach((relativePath, fileEntry) => {
+        if (fileEntry.dir) return;
+        const fileName = relativePath.split('/').pop();
+        if (!fileName) return;
+
+        // Robust Regex matches "img_UUID" anywhere in filename
+        const uuidRegex = /(img_[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})/i;
+        const match = fileName.match(uuidRegex);
+        
+        if (match && (!wantedIds || wantedIds.has(match[1]))) {
+            const imageId = match[1];
+            promises.push((async () => {
+                const blob = await fileEntry.async('blob');
+                const type = mimeForFileName(fileName);
+                imagesToStore.push({ id: imageId, blob: type ? new Blob([blob], { type }) : blob });
+            })());
+        }
+    });
+
+    await Promise.all(promises);
+    return imagesToStore;
+}
+
+// Writes images under their existing ids, hashing first so the transaction stays synchronous
+async function writeImagesToDB(imagesToStore: { id: string, blob: Blob }[]) {
+    const preparedImages: { id: string, blob: Blob, hash: string }[] = [];
+    for (const item of imagesToStore) {
+        const hash = await computeBlobHash(item.blob);
+        preparedImages.push({ ...item, hash });
+    }
+
+    if (preparedImages.length === 0) return;
+    const db = await initDB();
+    const tx = db.transaction([IMAGE_STORE, HASH_STORE], 'readwrite');
+    const imageStore = tx.objectStore(IMAGE_STORE);
+    const hashStore = tx.objectStore(HASH_STORE);
+    
+    for (const img of preparedImages) {
+        imageStore.put(img.blob, img.id);
+        hashStore.put(img.id, img.hash);
+    }
+    
+    await new Promise<void>((resolveTx, rejectTx) => {
+        tx.oncomplete = () => resolveTx();
+        tx.onerror = () => rejectTx(tx.error);
+    });
+    console.log(`[Import] Restored ${preparedImages.length} images.`);
+}
+
+// Validates the archive's data, then restores its images in one transaction.
+// Throws before touching the DB if the data is unusable.
+async function readArchive<T>(zip: JSZip, module: SchemaModule, isEpisodic?: boolean): Promise<ValidatedImport<T>> {
+    // 1. EXTRACT AND VALIDATE DATA (before any image touches the DB)
+    let raw: unknown;
+    const projectFolder = module === 'project' ? findProjectFolder(zip) : null;
+    if (projectFolder) {
+        raw = await readProjectFolder(projectFolder);
+    } else {
+        let dataFile = zip.file("project.json") || zip.file("data.json");
+        if (!dataFile) {
+            const jsonFiles = zip.file(/\.json$/);
+            if (jsonFiles.length > 0) dataFile = jsonFiles[0];
+        }
+
+        if (!dataFile) throw new Error("Archive missing data JSON");
+
+        raw = JSON.parse(await dataFile.async("text"));
+    }
+    const validated = validateAndUpgrade<T>(raw, module, isEpisodic);
+
+    // 2. RESTORE IMAGES
+    await writeImagesToDB(await extractArchiveImages(zip));
+
+    return validated;
+}
+
+async function importDataWithImages<T>(extension: string, module: SchemaModule, isEpisodic?: boolean): Promise<ValidatedImport<T> | null> {
     return new Promise((resolve) => {
         const input = document.createElement('input');
         input.type = 'file';
@@ -264,84 +504,26 @@ async function importDataWithImages<T>(extension: string): Promise<T | null> {
             if (!file) { resolve(null); return; }
 
             try {
-                const zip = await JSZip.loadAsync(file);
-                
-                // 1. EXTRACT AND HASH IMAGES (PHASE 1 - No Transaction)
-                const imagesToStore: { id: string, blob: Blob }[] = [];
-                const promises: Promise<void>[] = [];
-
-                zip.forEach((relativePath, fileEntry) => {
-                    if (fileEntry.dir) return;
-                    const fileName = relativePath.split('/').pop();
-                    if (!fileName) return;
-
-                    // Robust Regex matches "img_UUID" anywhere in filename
-                    const uuidRegex = /(img_[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})/i;
-                    const match = fileName.match(uuidRegex);
-                    
-                    if (match) {
-                        const imageId = match[1];
-                        promises.push((async () => {
-                            const blob = await fileEntry.async('blob');
-                            imagesToStore.push({ id: imageId, blob });
-                        })());
-                    }
-                });
-
-                await Promise.all(promises);
-
-                const preparedImages: { id: string, blob: Blob, hash: string }[] = [];
-                for (const item of imagesToStore) {
-                    const hash = await computeBlobHash(item.blob);
-                    preparedImages.push({ ...item, hash });
-                }
-
-                // 2. WRITE TO DB (PHASE 2 - Transaction)
-                if (preparedImages.length > 0) {
-                    const db = await initDB();
-                    const tx = db.transaction(['images', 'image_hashes'], 'readwrite');
-                    const imageStore = tx.objectStore('images');
-                    const hashStore = tx.objectStore('image_hashes');
-                    
-                    for (const img of preparedImages) {
-                        imageStore.put(img.blob, img.id);
-                        hashStore.put(img.id, img.hash);
-                    }
-                    
-                    await new Promise<void>((resolveTx, rejectTx) => {
-                        tx.oncomplete = () => resolveTx();
-                        tx.onerror = () => rejectTx(tx.error);
-                    });
-                    console.log(`[Import] Restored ${preparedImages.length} images.`);
-                }
-
-                // 3. EXTRACT DATA JSON
-                let dataFile = zip.file("project.json") || zip.file("data.json");
-                if (!dataFile) {
-                    const jsonFiles = zip.file(/\.json$/);
-                    if (jsonFiles.length > 0) dataFile = jsonFiles[0];
-                }
-                
-                if (!dataFile) throw new Error("Archive missing data JSON");
-                
-                const jsonText = await dataFile.async("text");
-                resolve(JSON.parse(jsonText));
-
-            } catch (zipError) {
-                // Legacy JSON text file fallback
-                try {
+                const zip = await openArchive(file);
+                if (!zip) {
+                    // Legacy JSON text file fallback
                     const text = await file.text();
-                    if (text.trim().startsWith('{')) {
-                        resolve(JSON.parse(text));
-                    } else {
+                    if (!text.trim().startsWith('{')) {
                         alert("File format not recognized.");
                         resolve(null);
+                        return;
                     }
-                } catch (textError) {
-                    console.error("Import failed:", zipError);
-                    alert("Failed to load file.");
-                    resolve(null);
+                    resolve(validateAndUpgrade<T>(JSON.parse(text), module, isEpisodic));
+                    return;
                 }
+
+                resolve(await readArchive<T>(zip, module, isEpisodic));
+
+            } catch (importError: any) {
+                if (importError instanceof ImportCancelledError) { resolve(null); return; }
+                console.error("[Import] Import failed:", importError);
+                alert(`Failed to load file: ${importError.message}`);
+                resolve(null);
             }
         };
         input.click();
@@ -349,30 +531,37 @@ async function importDataWithImages<T>(extension: string): Promise<T | null> {
 }
 
 // --- PROJECT PERSISTENCE ---
+// Each project lives in its own record keyed by metadata.id.
+// Older builds kept a single record under 'autosave'; see migrateLegacyAutosave.
+const LEGACY_AUTOSAVE_ID = 'autosave';
 
 export const saveProjectToDB = async (project: Project) => {
+  // Stamped before any await: edits journaled while the write is in flight aren't in `project`
+  const savedAt = Date.now();
   try {
       const db = await initDB();
-      return new Promise<void>((resolve, reject) => {
+      await new Promise<void>((resolve, reject) => {
         const tx = db.transaction(PROJECT_STORE, 'readwrite');
         const store = tx.objectStore(PROJECT_STORE);
-        const request = store.put({ id: 'autosave', data: project });
+        const request = store.put({ id: project.metadata.id, data: project, savedAt });
         request.onsuccess = () => resolve();
         request.onerror = () => reject(request.error);
       });
+      // Everything journaled before this save is now part of the stored record
+      await clearJournalForProject(project.metadata.id, savedAt);
   } catch (error) {
       console.error("Failed to save to IndexedDB", error);
   }
 };
 
-export const loadProjectFromDB = async (): Promise<Project | null> => {
+const loadProjectRecord = async (id: string): Promise<{ data: Project; savedAt?: number } | null> => {
    try {
        const db = await initDB();
-       return new Promise((resolve, reject) => {
+       return new Promise((resolve) => {
          const tx = db.transaction(PROJECT_STORE, 'readonly');
          const store = tx.objectStore(PROJECT_STORE);
-         const request = store.get('autosave');
-         request.onsuccess = () => resolve(request.result ? request.result.data : null);
+         const request = store.get(id);
+         request.onsuccess = () => resolve(request.result || null);
          request.onerror = () => resolve(null);
        });
    } catch (error) {
@@ -380,30 +569,460 @@ export const loadProjectFromDB = async (): Promise<Project | null> => {
    }
 };
 
+export const loadProjectFromDB = async (id: string): Promise<Project | null> => {
+    const record = await loadProjectRecord(id);
+    return record ? record.data : null;
+};
+
+/** Returns every project stored in the library, most recently opened first. */
+export const loadAllProjectsFromDB = async (): Promise<Project[]> => {
+    try {
+        const db = await initDB();
+        return new Promise((resolve) => {
+            const tx = db.transaction(PROJECT_STORE, 'readonly');
+            const store = tx.objectStore(PROJECT_STORE);
+            const request = store.getAll();
+            request.onsuccess = () => resolve((request.result || []).map((record: { data: Project }) => record.data).filter(Boolean));
+            request.onerror = () => resolve([]);
+        });
+    } catch (error) {
+        return [];
+    }
+};
+
+/** Lists library entries without handing full project objects to the UI. */
+export const listProjectsInDB = async (): Promise<ProjectSummary[]> => {
+    const projects = await loadAllProjectsFromDB();
+    return projects
+        .map(p => ({
+            id: p.metadata.id,
+            name: p.metadata.name,
+            logline: p.logline,
+            formatType: p.format.type,
+            createdAt: p.metadata.createdAt,
+            updatedAt: p.metadata.updatedAt,
+            lastOpenedAt: p.metadata.lastOpenedAt,
+        }))
+        .sort((a, b) => (b.lastOpenedAt || b.updatedAt) - (a.lastOpenedAt || a.updatedAt));
+};
+
+export const deleteProjectFromDB = async (id: string): Promise<void> => {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(PROJECT_STORE, 'readwrite');
+        tx.objectStore(PROJECT_STORE).delete(id);
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+};
+
+/**
+ * Moves the legacy single 'autosave' record into its own library slot.
+ * If a project with the same id already exists, the newer of the two wins.
+ */
+export const migrateLegacyAutosave = async (): Promise<void> => {
+    const legacy = await loadProjectFromDB(LEGACY_AUTOSAVE_ID);
+    if (!legacy) return;
+
+    if (!legacy.metadata.id || legacy.metadata.id === LEGACY_AUTOSAVE_ID) {
+        legacy.metadata = { ...legacy.metadata, id: uuidv4() };
+    }
+
+    const existing = await loadProjectFromDB(legacy.metadata.id);
+    if (!existing || existing.metadata.updatedAt < legacy.metadata.updatedAt) {
+        await saveProjectToDB({ ...legacy, metadata: { ...legacy.metadata, lastOpenedAt: legacy.metadata.lastOpenedAt || Date.now() } });
+    }
+    await deleteProjectFromDB(LEGACY_AUTOSAVE_ID);
+    console.log(`[Storage] Moved legacy autosave into library as ${legacy.metadata.id}.`);
+};
+
+// --- AUTOSAVE JOURNAL ---
+
+/** Writes a journal entry, replacing the stored one when `entry.seq` is set. Returns the entry's seq. */
+export const putJournalEntry = async (entry: JournalEntry): Promise<number> => {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(JOURNAL_STORE, 'readwrite');
+        const request = tx.objectStore(JOURNAL_STORE).put(entry);
+        tx.oncomplete = () => resolve(request.result as number);
+        tx.onerror = () => reject(tx.error);
+    });
+};
+
+const listJournalEntries = async (projectId: string): Promise<JournalEntry[]> => {
+    const db = await initDB();
+    return new Promise((resolve) => {
+        const tx = db.transaction(JOURNAL_STORE, 'readonly');
+        const request = tx.objectStore(JOURNAL_STORE).index('projectId').getAll(projectId);
+        request.onsuccess = () => resolve((request.result || []).sort((a: JournalEntry, b: JournalEntry) => (a.seq || 0) - (b.seq || 0)));
+        request.onerror = () => resolve([]);
+    });
+};
+
+/** Removes a project's journal entries, optionally only those written before `before`. */
+export const clearJournalForProject = async (projectId: string, before?: number): Promise<void> => {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(JOURNAL_STORE, 'readwrite');
+        const request = tx.objectStore(JOURNAL_STORE).index('projectId').openCursor(IDBKeyRange.only(projectId));
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) return;
+            if (before === undefined || (cursor.value as JournalEntry).timestamp < before) cursor.delete();
+            cursor.continue();
+        };
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+};
+
+/**
+ * Loads a project and replays journal entries written since its last full save,
+ * i.e. edits still waiting on the debounced save when the tab was closed or crashed.
+ * Entries hold whole top-level sections, so replaying one the save already covered is harmless.
+ */
+export const loadProjectWithJournal = async (id: string): Promise<{ project: Project; recovered: number } | null> => {
+    const record = await loadProjectRecord(id);
+    if (!record) return null;
+
+    let entries: JournalEntry[] = [];
+    try {
+        entries = (await listJournalEntries(id)).filter(entry => entry.timestamp >= (record.savedAt || 0));
+    } catch (error) {
+        console.error("[Storage] Failed to read autosave journal", error);
+    }
+    if (entries.length === 0) return { project: record.data, recovered: 0 };
+
+    const project = entries.reduce<Project>((acc, entry) => ({ ...acc, ...entry.sections }), record.data);
+    // Each entry holds many coalesced edits, so report the sections they touched
+    const sections = new Set(entries.flatMap(entry => Object.keys(entry.sections)).filter(key => key !== 'metadata'));
+    console.log(`[Storage] Replayed ${entries.length} journal entr${entries.length === 1 ? 'y' : 'ies'} for ${id}.`);
+    return { project, recovered: Math.max(sections.size, 1) };
+};
+
+// --- CHECKPOINTS ---
+
+export const saveCheckpointToDB = async (checkpoint: ProjectCheckpoint): Promise<void> => {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(CHECKPOINT_STORE, 'readwrite');
+        tx.objectStore(CHECKPOINT_STORE).put(checkpoint);
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+};
+
+/** Returns all checkpoints for a project, newest first. */
+export const listCheckpointsFromDB = async (projectId: string): Promise<ProjectCheckpoint[]> => {
+    try {
+        const db = await initDB();
+        return new Promise((resolve) => {
+            const tx = db.transaction(CHECKPOINT_STORE, 'readonly');
+            const request = tx.objectStore(CHECKPOINT_STORE).index('projectId').getAll(projectId);
+            request.onsuccess = () => resolve((request.result as ProjectCheckpoint[]).sort((a, b) => b.createdAt - a.createdAt));
+            request.onerror = () => resolve([]);
+        });
+    } catch (error) {
+        return [];
+    }
+};
+
+export const deleteCheckpointFromDB = async (id: string): Promise<void> => {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(CHECKPOINT_STORE, 'readwrite');
+        tx.objectStore(CHECKPOINT_STORE).delete(id);
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+};
+
+export const deleteCheckpointsForProject = async (projectId: string): Promise<void> => {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(CHECKPOINT_STORE, 'readwrite');
+        const request = tx.objectStore(CHECKPOINT_STORE).index('projectId').openCursor(IDBKeyRange.only(projectId));
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (cursor) {
+                cursor.delete();
+                cursor.continue();
+            }
+        };
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+};
+
+// --- COST LEDGER ---
+
+export const appendUsageRecord = async (record: UsageRecord): Promise<void> => {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(USAGE_STORE, 'readwrite');
+        tx.objectStore(USAGE_STORE).put(record);
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+};
+
+/** Returns all ledger records for a project, oldest first. */
+export const listUsageRecords = async (projectId: string): Promise<UsageRecord[]> => {
+    try {
+        const db = await initDB();
+        return new Promise((resolve) => {
+            const tx = db.transaction(USAGE_STORE, 'readonly');
+            const request = tx.objectStore(USAGE_STORE).index('projectId').getAll(projectId);
+            request.onsuccess = () => resolve((request.result as UsageRecord[]).sort((a, b) => a.timestamp - b.timestamp));
+            request.onerror = () => resolve([]);
+        });
+    } catch (error) {
+        return [];
+    }
+};
+
+export const deleteUsageForProject = async (projectId: string): Promise<void> => {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(USAGE_STORE, 'readwrite');
+        const request = tx.objectStore(USAGE_STORE).index('projectId').openCursor(IDBKeyRange.only(projectId));
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (cursor) {
+                cursor.delete();
+                cursor.continue();
+            }
+        };
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+};
+
+// --- GARBAGE COLLECTION ---
+
+// Same id pattern the exporter uses, so anything that survives an export also survives GC
+const collectImageIds = (data: unknown, into: Set<string>) => {
+    const jsonString = JSON.stringify(data);
+    const regex = /"(img_[a-f0-9\-]+)"/g;
+    let match;
+    while ((match = regex.exec(jsonString)) !== null) {
+        into.add(match[1]);
+    }
+};
+
+/**
+ * Mark-and-sweep dry run. Marks every image id referenced by any project in the
+ * library, any checkpoint, and the optional in-memory roots (e.g. the open project
+ * with unsaved edits), then reports the unreferenced blobs. Nothing is deleted.
+ */
+export const scanOrphanedImages = async (extraRoots: unknown[] = []): Promise<ImageGCReport> => {
+    const db = await initDB();
+
+    // 1. MARK
+    const referenced = new Set<string>();
+    const projects = await loadAllProjectsFromDB();
+    projects.forEach(p => collectImageIds(p, referenced));
+    extraRoots.forEach(root => collectImageIds(root, referenced));
+
+    const checkpoints = await new Promise<ProjectCheckpoint[]>((resolve) => {
+        const request = db.transaction(CHECKPOINT_STORE, 'readonly').objectStore(CHECKPOINT_STORE).getAll();
+        request.onsuccess = () => resolve(request.result || []);
+        request.onerror = () => resolve([]);
+    });
+    checkpoints.forEach(c => collectImageIds(c.project, referenced));
+
+    // Journal entries not yet folded into a save are replayed on the next load, so their images must survive too
+    const journalEntries = await new Promise<JournalEntry[]>((resolve) => {
+        const request = db.transaction(JOURNAL_STORE, 'readonly').objectStore(JOURNAL_STORE).getAll();
+        request.onsuccess = () => resolve(request.result || []);
+        request.onerror = () => resolve([]);
+    });
+    journalEntries.forEach(entry => collectImageIds(entry.sections, referenced));
+
+    // 2. SWEEP (report only)
+    const report: ImageGCReport = {
+        totalImages: 0,
+        totalBytes: 0,
+        referencedCount: 0,
+        orphanedIds: [],
+        reclaimableBytes: 0,
+        scannedProjects: projects.length,
+        scannedCheckpoints: checkpoints.length,
+        scannedJournalEntries: journalEntries.length,
+    };
+
+    await new Promise<void>((resolve, reject) => {
+        const request = db.transaction(IMAGE_STORE, 'readonly').objectStore(IMAGE_STORE).openCursor();
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) { resolve(); return; }
+            const id = String(cursor.key);
+            const size = (cursor.value as Blob)?.size || 0;
+            report.totalImages++;
+            report.totalBytes += size;
+            if (referenced.has(id)) {
+                report.referencedCount++;
+            } else {
+                report.orphanedIds.push(id);
+                report.reclaimableBytes += size;
+            }
+            cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+    });
+
+    return report;
+};
+
+/** Deletes images, their thumbnails and hash entries so storeImageInDB can't dedupe onto a missing blob. */
+export const deleteImagesFromDB = async (ids: string[]): Promise<void> => {
+    if (ids.length === 0) return;
+    const doomed = new Set(ids);
+    const db = await initDB();
+
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction([IMAGE_STORE, HASH_STORE, THUMBNAIL_STORE], 'readwrite');
+        const imageStore = tx.objectStore(IMAGE_STORE);
+        const thumbnailStore = tx.objectStore(THUMBNAIL_STORE);
+        doomed.forEach(id => {
+            imageStore.delete(id);
+            thumbnailStore.delete(id);
+        });
+
+        const hashCursor = tx.objectStore(HASH_STORE).openCursor();
+        hashCursor.onsuccess = () => {
+            const cursor = hashCursor.result;
+            if (!cursor) return;
+            if (doomed.has(cursor.value)) cursor.delete();
+            cursor.continue();
+        };
+
+        tx.oncomplete = () => {
+            console.log(`[Storage] Garbage collected ${doomed.size} images.`);
+            resolve();
+        };
+        tx.onerror = () => reject(tx.error);
+    });
+};
+
+// --- STORAGE USAGE ---
+
+// Maps the export folder + friendly-name prefix onto the department buckets shown in the UI
+const classifyStorageCategory = (id: string, project: Project): StorageCategory => {
+    const folder = classifyImageFolder(id, project);
+    if (folder === 'shots') return 'shots';
+    if (folder === 'audio') return 'audio';
+    if (folder === 'artdept') {
+        const friendlyName = findContextForImageId(id, project) || '';
+        if (friendlyName.startsWith('Char_')) return 'characters';
+        if (friendlyName.startsWith('Loc_')) return 'locations';
+        if (friendlyName.startsWith('Prop_')) return 'props';
+    }
+    return 'history';
+};
+
+/** Sums the blob sizes of every image the project references, grouped by department. */
+export const getProjectStorageBreakdown = async (project: Project): Promise<StorageBreakdown> => {
+    const jsonString = JSON.stringify(project);
+    const ids = new Set<string>();
+    collectImageIds(project, ids);
+
+    const breakdown: StorageBreakdown = {
+        byCategory: {
+            characters: { count: 0, bytes: 0 },
+            locations: { count: 0, bytes: 0 },
+            props: { count: 0, bytes: 0 },
+            shots: { count: 0, bytes: 0 },
+            audio: { count: 0, bytes: 0 },
+            history: { count: 0, bytes: 0 },
+        },
+        projectDataBytes: new Blob([jsonString]).size,
+        missingCount: 0,
+    };
+
+    for (const id of ids) {
+        const blob = await getImageFromDB(id);
+        if (!blob) {
+            breakdown.missingCount++;
+            continue;
+        }
+        const bucket = breakdown.byCategory[classifyStorageCategory(id, project)];
+        bucket.count++;
+        bucket.bytes += blob.size;
+    }
+
+    return breakdown;
+};
+
+export const getStorageEstimate = async (): Promise<{ usage: number; quota: number } | null> => {
+    if (!navigator.storage?.estimate) return null;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+};
+
+export const isStoragePersisted = async (): Promise<boolean> => {
+    if (!navigator.storage?.persisted) return false;
+    return navigator.storage.persisted();
+};
+
+/** Asks the browser not to evict our data under storage pressure. */
+export const requestPersistentStorage = async (): Promise<boolean> => {
+    if (!navigator.storage?.persist) return false;
+    return navigator.storage.persist();
+};
+
 // --- EXPORT FUNCTIONS ---
 
 // MAIN PROJECT SAVE (Now back to .zip)
-export async function saveProject(project: Project, onStatusUpdate?: (status: string) => void) {
-    await exportDataWithImages(project, project.metadata.name, 'zip', project, onStatusUpdate);
+// Every save accepts an optional passphrase, which produces an encrypted archive
+export async function saveProject(project: Project, onStatusUpdate?: (status: string) => void, passphrase?: string) {
+    await exportDataWithImages(project, project.metadata.name, 'zip', project, onStatusUpdate, passphrase);
 }
 
 // MODULE SAVES
-export async function saveStudio(project: Project) {
+export async function saveStudio(project: Project, passphrase?: string) {
     if (!project.studio) return;
-    await exportDataWithImages(project.studio, `${project.metadata.name}_Studio`, 'thestudio', project);
+    await exportDataWithImages(project.studio, `${project.metadata.name}_Studio`, 'thestudio', project, undefined, passphrase);
 }
 
-export async function saveArtDept(project: Project) {
+export async function saveArtDept(project: Project, passphrase?: string) {
     if (!project.bible) return;
-    await exportDataWithImages(project.bible, `${project.metadata.name}_ArtDept`, 'artdept', project);
+    await exportDataWithImages(project.bible, `${project.metadata.name}_ArtDept`, 'artdept', project, undefined, passphrase);
 }
 
-export async function saveBible(project: Project) {
-    await exportDataWithImages(project.bible, project.metadata.name, 'bible', project);
+export async function saveBible(project: Project, passphrase?: string) {
+    await exportDataWithImages(project.bible, project.metadata.name, 'bible', project, undefined, passphrase);
 }
 
-export async function saveScript(project: Project) {
-    await exportDataWithImages(project.script, project.metadata.name, 'script', project);
+export async function saveScript(project: Project, passphrase?: string) {
+    await exportDataWithImages(project.script, project.metadata.name, 'script', project, undefined, passphrase);
+}
+
+// Single episode/act hand-off package
+export async function saveEpisodePackage(project: Project, itemId: string, passphrase?: string) {
+    const pkg = buildEpisodePackage(project, itemId);
+    if (!pkg) return;
+    const label = pkg.kind === 'episode' ? `E${(pkg.item as Episode).episodeNumber}` : `A${(pkg.item as Act).actNumber}`;
+    await exportDataWithImages(pkg, `${project.metadata.name}_${label}`, 'episode', project, undefined, passphrase);
+}
+
+// Human-readable layout for version control; see projectFolderService
+export async function saveProjectFolder(project: Project, onStatusUpdate?: (status: string) => void) {
+    try {
+        onStatusUpdate?.("Preparing data...");
+        const zip = new JSZip();
+        const root = zip.folder(project.metadata.name.replace(/[^a-zA-Z0-9_-]+/g, '_') || 'Project')!;
+        writeProjectFolder(stampSchemaVersion(project), root);
+        await packImages(root.folder('images')!, JSON.stringify(project), project, onStatusUpdate);
+
+        onStatusUpdate?.("Compressing...");
+        const content = await zip.generateAsync({ type: 'blob' });
+        saveAs(content, getFileName(`${project.metadata.name}_Folder`, 'zip'));
+        onStatusUpdate?.("Done!");
+    } catch (e: any) {
+        console.error("Folder export failed", e);
+        alert(`Failed to export project folder: ${e.message}`);
+    }
 }
 
 function downloadJSON(data: object, baseFileName: string, extension: string) {
@@ -423,16 +1042,73 @@ export function saveContinuityBrief(project: Project, installment: Season | Sequ
 
 // --- IMPORT FUNCTIONS ---
 
-export const selectAndLoadProjectFile = async () => {
-    const project = await importDataWithImages<Project>('zip');
-    if (project) await saveProjectToDB(project);
-    return project;
+// Persisting is left to the store, which decides the library slot (replace vs. copy).
+export const selectAndLoadProjectFile = async () => importDataWithImages<Project>('zip', 'project');
+
+/** Imports an unzipped project folder picked from disk, e.g. a git checkout of a folder export. */
+export const selectAndLoadProjectDirectory = async (): Promise<ValidatedImport<Project> | null> => {
+    return new Promise((resolve) => {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.webkitdirectory = true;
+
+        input.onchange = async (e) => {
+            const files = Array.from((e.target as HTMLInputElement).files || []);
+            if (files.length === 0) { resolve(null); return; }
+
+            try {
+                const zip = new JSZip();
+                files
+                    .filter(file => !file.webkitRelativePath.split('/').includes('.git'))
+                    .forEach(file => zip.file(file.webkitRelativePath || file.name, file));
+                if (!findProjectFolder(zip)) throw new Error("The selected folder is not a Showrunner project folder.");
+                resolve(await readArchive<Project>(zip, 'project'));
+            } catch (importError: any) {
+                console.error("[Import] Folder import failed:", importError);
+                alert(`Failed to load folder: ${importError.message}`);
+                resolve(null);
+            }
+        };
+        input.click();
+    });
 };
 
-export const selectAndLoadStudio = async () => importDataWithImages<Studio>('thestudio');
-export const selectAndLoadArtDept = async () => importDataWithImages<Bible>('artdept');
-export const selectAndLoadBible = async () => importDataWithImages<Bible>('bible');
-export const selectAndLoadScript = async () => importDataWithImages<Script>('script');
+export const selectAndLoadStudio = async () => importDataWithImages<Studio>('thestudio', 'studio');
+export const selectAndLoadArtDept = async () => importDataWithImages<Bible>('artdept', 'bible');
+export const selectAndLoadBible = async () => importDataWithImages<Bible>('bible', 'bible');
+export const selectAndLoadScript = async (isEpisodic?: boolean) => importDataWithImages<Script>('script', 'script', isEpisodic);
+export const selectAndLoadEpisodePackage = async () => importDataWithImages<EpisodePackage>('episode', 'episode');
+
+/**
+ * Lets the user pick any Showrunner archive and restores just the images with the
+ * given ids from it. Returns the ids that were found, or null if cancelled.
+ */
+export const restoreImagesFromArchive = async (wantedIds: string[]): Promise<string[] | null> => {
+    return new Promise((resolve) => {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = '.zip,.showrunner,.artdept,.thestudio,.bible,.script,.episode';
+
+        input.onchange = async (e) => {
+            const file = (e.target as HTMLInputElement).files?.[0];
+            if (!file) { resolve(null); return; }
+
+            try {
+                const zip = await openArchive(file);
+                if (!zip) throw new Error("This file is not an archive.");
+                const images = await extractArchiveImages(zip, new Set(wantedIds));
+                await writeImagesToDB(images);
+                resolve(images.map(img => img.id));
+            } catch (error: any) {
+                if (error instanceof ImportCancelledError) { resolve(null); return; }
+                console.error("[Import] Re-link failed:", error);
+                alert(`Failed to read archive: ${error.message}`);
+                resolve(null);
+            }
+        };
+        input.click();
+    });
+};
 
 function uploadJSON<T>(accept: string): Promise<T> {
     return new Promise((resolve, reject) => {
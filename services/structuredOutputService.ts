@@ -0,0 +1,88 @@
+// --- STRUCTURED OUTPUT EMULATION ---
+// Gemini enforces `responseSchema` natively. Other providers only see the schema as
+// instructions in the prompt, so their answers are parsed and checked here instead.
+// Schemas use the Gemini shape (`type: Type.OBJECT`, `properties`, `required`, `items`, `enum`).
+
+// Safe JSON extraction to prevent Regex RangeErrors on massive strings
+export const extractJSON = (text: string): string => {
+    const jsonStartMarker = '```json';
+    const jsonEndMarker = '```';
+
+    const startIndex = text.indexOf(jsonStartMarker);
+    if (startIndex !== -1) {
+        const start = startIndex + jsonStartMarker.length;
+        const end = text.lastIndexOf(jsonEndMarker);
+        if (end > start) {
+            return text.substring(start, end).trim();
+        }
+    }
+
+    const firstOpen = text.indexOf('{');
+    const lastClose = text.lastIndexOf('}');
+    if (firstOpen !== -1 && lastClose !== -1 && lastClose > firstOpen) {
+        return text.substring(firstOpen, lastClose + 1);
+    }
+
+    return text;
+};
+
+// Gemini's Type enum values are upper-case OpenAPI names ('OBJECT'); JSON Schema wants 'object'
+export const toJsonSchema = (schema: any): any => {
+    if (Array.isArray(schema)) return schema.map(toJsonSchema);
+    if (!schema || typeof schema !== 'object') return schema;
+
+    const result: any = {};
+    for (const [key, value] of Object.entries(schema)) {
+        if (key === 'type' && typeof value === 'string') result.type = value.toLowerCase();
+        else if (key === 'properties') result.properties = Object.fromEntries(Object.entries(value as object).map(([k, v]) => [k, toJsonSchema(v)]));
+        else result[key] = toJsonSchema(value);
+    }
+    return result;
+};
+
+/** Appends the output contract to a prompt for models without native JSON schema support. */
+export const withSchemaInstructions = (prompt: string, schema?: any): string => {
+    const contract = schema
+        ? `Respond with a single JSON object that validates against this JSON Schema:\n${JSON.stringify(toJsonSchema(schema), null, 2)}`
+        : `Respond with a single JSON object.`;
+    return `${prompt}\n\n--- OUTPUT FORMAT ---\n${contract}\nOutput only the JSON. No commentary, no markdown.`;
+};
+
+/**
+ * Checks a parsed value against a Gemini-style schema.
+ * Returns human-readable problems (empty when valid) that can be fed back to the model.
+ */
+export const validateStructuredOutput = (value: any, schema: any, path = '$'): string[] => {
+    if (!schema) return [];
+    const type = String(schema.type || '').toUpperCase();
+    const errors: string[] = [];
+
+    switch (type) {
+        case 'OBJECT': {
+            if (!value || typeof value !== 'object' || Array.isArray(value)) return [`${path} should be an object`];
+            (schema.required || []).forEach((key: string) => {
+                if (value[key] === undefined || value[key] === null) errors.push(`${path}.${key} is required`);
+            });
+            Object.entries(schema.properties || {}).forEach(([key, propSchema]) => {
+                if (value[key] !== undefined && value[key] !== null) errors.push(...validateStructuredOutput(value[key], propSchema, `${path}.${key}`));
+            });
+            break;
+        }
+        case 'ARRAY':
+            if (!Array.isArray(value)) return [`${path} should be an array`];
+            value.forEach((item, i) => errors.push(...validateStructuredOutput(item, schema.items, `${path}[${i}]`)));
+            break;
+        case 'STRING':
+            if (typeof value !== 'string') return [`${path} should be a string`];
+            if (schema.enum && !schema.enum.includes(value)) errors.push(`${path} should be one of ${schema.enum.join(', ')}`);
+            break;
+        case 'NUMBER':
+        case 'INTEGER':
+            if (typeof value !== 'number') return [`${path} should be a number`];
+            break;
+        case 'BOOLEAN':
+            if (typeof value !== 'boolean') return [`${path} should be a boolean`];
+            break;
+    }
+    return errors;
+};
@@ -0,0 +1,24 @@
+import { TabSyncMessage } from '../types';
+
+const CHANNEL_NAME = 'showrunner-sync';
+
+// BroadcastChannel never delivers a message back to the tab that posted it
+const channel: BroadcastChannel | null = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+/** Tells every other open Showrunner tab about a change made in this one. */
+export const broadcastToTabs = (message: TabSyncMessage) => {
+    if (!channel) return;
+    try {
+        channel.postMessage(message);
+    } catch (error) {
+        console.error("[TabSync] Failed to broadcast", error);
+    }
+};
+
+/** Registers a handler for changes made in other tabs. Returns an unsubscribe function. */
+export const onTabMessage = (handler: (message: TabSyncMessage) => void): (() => void) => {
+    if (!channel) return () => {};
+    const listener = (event: MessageEvent<TabSyncMessage>) => handler(event.data);
+    channel.addEventListener('message', listener);
+    return () => channel.removeEventListener('message', listener);
+};
@@ -0,0 +1,173 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AIModelConfig, Project, UsageContext, UsageDepartment, UsageRecord } from '../types';
+import { appendUsageRecord, listUsageRecords } from './storageService';
+
+// --- COST LEDGER ---
+// The gateway records every generation it runs for a project. Costs are estimates from
+// the model's configured pricing; models without pricing still log their token counts.
+
+/** Thrown before a generation when the project's budget is used up in 'block' mode. */
+export class BudgetExceededError extends Error {}
+
+// Running totals so budget checks don't read the whole ledger on every call
+const spendByProject = new Map<string, Promise<number>>();
+const warned = new Set<string>();
+const listeners = new Set<(record: UsageRecord) => void>();
+
+const getProjectSpend = (projectId: string): Promise<number> => {
+    let spend = spendByProject.get(projectId);
+    if (!spend) {
+        spend = listUsageRecords(projectId).then(records => records.reduce((sum, r) => sum + r.estimatedCost, 0));
+        spendByProject.set(projectId, spend);
+    }
+    return spend;
+};
+
+export const usageContext = (project: Project, task: string, department: UsageDepartment, episodeId?: string): UsageContext => ({
+    projectId: project.metadata.id,
+    budget: project.budget,
+    task,
+    department,
+    episodeId,
+});
+
+/** The episode or act that holds a scene, for attributing scene-level work. */
+export const findEpisodeForScene = (project: Project, sceneId: string): string | undefined => {
+    const items = [
+        ...(project.script.seasons || []).flatMap(s => s.episodes),
+        ...(project.script.sequels || []).flatMap(s => s.acts),
+    ];
+    return items.find(item => item.scenes.some(scene => scene.id === sceneId))?.id;
+};
+
+export const estimateCost = (config: AIModelConfig, inputTokens: number, outputTokens: number): number => {
+    return (config.costPerGen || 0)
+        + inputTokens / 1_000_000 * (config.costPerMillionInputTokens || 0)
+        + outputTokens / 1_000_000 * (config.costPerMillionOutputTokens || 0);
+};
+
+/**
+ * Run before each generation. In 'block' mode an exhausted budget throws;
+ * in 'warn' mode the user is told once per budget limit and generation continues.
+ */
+export const checkBudget = async (usage?: UsageContext): Promise<void> => {
+    const budget = usage?.budget;
+    if (!usage || !budget || !(budget.limit > 0)) return;
+
+    const spent = await getProjectSpend(usage.projectId);
+    if (spent < budget.limit) return;
+
+    const message = `This project has spent about $${spent.toFixed(2)} of its $${budget.limit.toFixed(2)} generation budget.`;
+    if (budget.mode === 'block') {
+        throw new BudgetExceededError(`${message} Raise the budget on the Dashboard to keep generating.`);
+    }
+    const key = `${usage.projectId}:${budget.limit}`;
+    if (!warned.has(key)) {
+        warned.add(key);
+        alert(`${message}\n\nGeneration will continue. You can change the budget on the Dashboard.`);
+    }
+};
+
+/** Appends a ledger record. Never throws: a failed write must not fail the generation. */
+export const recordUsage = async (
+    usage: UsageContext | undefined,
+    config: AIModelConfig,
+    counts: { inputTokens?: number; outputTokens?: number; images?: number }
+): Promise<void> => {
+    if (!usage) return;
+    const inputTokens = counts.inputTokens || 0;
+    const outputTokens = counts.outputTokens || 0;
+
+    const record: UsageRecord = {
+        id: uuidv4(),
+        projectId: usage.projectId,
+        timestamp: Date.now(),
+        modelId: config.id,
+        modelName: config.name,
+        provider: config.provider,
+        task: usage.task,
+        department: usage.department,
+        episodeId: usage.episodeId,
+        inputTokens,
+        outputTokens,
+        images: counts.images || 0,
+        estimatedCost: estimateCost(config, inputTokens, outputTokens),
+    };
+
+    spendByProject.set(usage.projectId, getProjectSpend(usage.projectId).then(total => total + record.estimatedCost));
+    try {
+        await appendUsageRecord(record);
+    } catch (error) {
+        console.error("[Ledger] Failed to record usage", error);
+    }
+    listeners.forEach(listener => listener(record));
+};
+
+export const onUsageRecorded = (listener: (record: UsageRecord) => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+// --- SUMMARY ---
+
+export interface UsageBucket {
+    key: string;
+    label: string;
+    cost: number;
+    calls: number;
+    tokens: number;
+    images: number;
+}
+
+export interface UsageSummary {
+    total: UsageBucket;
+    byDepartment: UsageBucket[];
+    byEpisode: UsageBucket[];
+}
+
+const PROJECT_WIDE = 'project';
+
+// "S1E2 Title" / "P1A2 Title", matching the labels used in checkpoints
+const episodeLabels = (project: Project): Map<string, string> => {
+    const labels = new Map<string, string>();
+    project.script.seasons?.forEach(season => season.episodes.forEach(e => labels.set(e.id, `S${season.seasonNumber}E${e.episodeNumber} ${e.title}`)));
+    project.script.sequels?.forEach(sequel => sequel.acts.forEach(a => labels.set(a.id, `P${sequel.partNumber}A${a.actNumber} ${a.title}`)));
+    return labels;
+};
+
+/** Groups ledger records by department and by episode/act, most expensive first. */
+export const summarizeUsage = (records: UsageRecord[], project: Project): UsageSummary => {
+    const labels = episodeLabels(project);
+    const emptyBucket = (key: string, label: string): UsageBucket => ({ key, label, cost: 0, calls: 0, tokens: 0, images: 0 });
+    const add = (bucket: UsageBucket, r: UsageRecord) => {
+        bucket.cost += r.estimatedCost;
+        bucket.calls++;
+        bucket.tokens += r.inputTokens + r.outputTokens;
+        bucket.images += r.images;
+    };
+
+    const total = emptyBucket('total', 'Total');
+    const departments = new Map<string, UsageBucket>();
+    const episodes = new Map<string, UsageBucket>();
+
+    records.forEach(r => {
+        add(total, r);
+
+        if (!departments.has(r.department)) departments.set(r.department, emptyBucket(r.department, r.department));
+        add(departments.get(r.department)!, r);
+
+        const episodeKey = r.episodeId || PROJECT_WIDE;
+        if (!episodes.has(episodeKey)) {
+            const label = r.episodeId ? labels.get(r.episodeId) || 'Deleted episode' : 'Project-wide';
+            episodes.set(episodeKey, emptyBucket(episodeKey, label));
+        }
+        add(episodes.get(episodeKey)!, r);
+    });
+
+    const byCost = (a: UsageBucket, b: UsageBucket) => b.cost - a.cost || b.calls - a.calls;
+    return {
+        total,
+        byDepartment: [...departments.values()].sort(byCost),
+        byEpisode: [...episodes.values()].sort(byCost),
+    };
+};
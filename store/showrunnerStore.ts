@@ -1,23 +1,78 @@
 
 import { create } from 'zustand';
 import { v4 as uuidv4 } from 'uuid';
-import { debounce } from 'lodash-es';
+import { debounce, throttle, pick, union } from 'lodash-es';
 import { 
-  Project, GeminiModel, Bible, Script, Season, Sequel, Episode, Act, 
+  Project, Bible, Script, Season, Sequel, Episode, Act, 
   Scene, Shot, Character, Location, Prop, ContinuityBrief, 
   CharacterProfile, AssetType, ConsistencyMode, ScreenplayItem, AssetAnalysisResult,
   StateSnapshot, LocationBaseProfile, PropBaseProfile, ShotReferenceImage,
-  Studio, SceneHistoryEntry, AIModelConfig
+  Studio, SceneHistoryEntry, AIModelConfig, ProjectSummary, ProjectCheckpoint, CheckpointRestoreScope, ImportReport,
+  MergeModule, MergePlan, MergeChoice, ValidatedImport, AudioTake, RoutedTask, ModelRoute, JournalEntry, TabConflict
 } from '../types';
-import { saveProjectToDB, loadProjectFromDB, selectAndLoadProjectFile, selectAndLoadBible, selectAndLoadScript, selectAndLoadStudio, selectAndLoadArtDept } from '../services/storageService';
-import { migrateProjectImages } from '../services/migrationService';
+import { saveProjectToDB, loadProjectFromDB, loadProjectWithJournal, putJournalEntry, clearJournalForProject, listProjectsInDB, deleteProjectFromDB, migrateLegacyAutosave, saveCheckpointToDB, listCheckpointsFromDB, deleteCheckpointFromDB, deleteCheckpointsForProject, selectAndLoadProjectFile, selectAndLoadProjectDirectory, selectAndLoadEpisodePackage, selectAndLoadBible, selectAndLoadScript, selectAndLoadStudio, selectAndLoadArtDept, listImageIdsInDB, restoreImagesFromArchive, deleteUsageForProject } from '../services/storageService';
+import { migrateProject, LATEST_DATA_VERSION } from '../services/migrationService';
+import { validateAndUpgrade, isReportClean, CURRENT_SCHEMA_VERSION } from '../services/schemaService';
+import { planBibleMerge, planScriptMerge, planStudioMerge, applyBibleMerge, applyScriptMerge, applyStudioMerge } from '../services/mergeService';
+import { collectScenes } from '../services/checkpointService';
+import { unpackEpisodePackage } from '../services/episodePackageService';
+import { quarantineBrokenReferences, restoreQuarantinedReferences } from '../services/quarantineService';
+import { broadcastToTabs, onTabMessage } from '../services/tabSyncService';
 import { geminiService } from '../services/geminiService';
 import { modelGateway } from '../services/modelGateway';
+import { isOfflineMode, saveOfflineMode } from '../services/mockProviderService';
+import { ROUTED_TASKS, resolveRoute } from '../services/modelRoutingService';
+
+// --- WRITE-AHEAD JOURNAL ---
+// Edits since the last full save are coalesced into one journal entry per project,
+// rewritten at most every JOURNAL_INTERVAL ms. The next save covers it, so the edit
+// after a save starts a new entry.
+const JOURNAL_INTERVAL = 500;
+let pendingJournal: JournalEntry | null = null;
+let journalWrites: Promise<void> = Promise.resolve();
+
+const writePendingJournal = throttle(() => {
+    const entry = pendingJournal;
+    if (!entry) return;
+    // Chained so the first write's seq is known before the entry is overwritten
+    journalWrites = journalWrites
+        .then(async () => { entry.seq = await putJournalEntry({ ...entry, sections: { ...entry.sections } }); })
+        .catch(error => console.error("[Storage] Failed to journal change", error));
+}, JOURNAL_INTERVAL);
+
+const journalChange = (projectId: string, sections: Partial<Project>) => {
+    if (pendingJournal?.projectId !== projectId) pendingJournal = { projectId, timestamp: Date.now(), sections: {} };
+    pendingJournal.sections = { ...pendingJournal.sections, ...sections };
+    pendingJournal.timestamp = Date.now();
+    writePendingJournal();
+};
 
 const debouncedSave = debounce((project: Project) => {
+    // The snapshot holds every edit journaled so far
+    pendingJournal = null;
+    writePendingJournal.cancel();
     saveProjectToDB(project);
 }, 2000);
 
+// A hidden tab may be discarded without further events, so write pending edits out now
+const flushPendingWrites = () => {
+    writePendingJournal.flush();
+    debouncedSave.flush();
+};
+// For a deleted project: nothing pending may resurrect its record or journal
+const cancelPendingWrites = () => {
+    pendingJournal = null;
+    writePendingJournal.cancel();
+    debouncedSave.cancel();
+};
+document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') flushPendingWrites();
+});
+window.addEventListener('pagehide', flushPendingWrites);
+
+// Set while applying an edit from another tab, so it isn't journaled or echoed back
+let applyingRemoteChange = false;
+
 const createDefaultCharacterProfile = (name: string): CharacterProfile => ({
     name,
     coreIdentity: { name, primaryNarrativeRole: 'Unknown', fullLegalName: { first: '', middle: '', last: '' }, nicknamesAliases: [], titleHonorific: '', secondarySupportingRoles: [], characterArchetypes: [] },
@@ -58,18 +113,43 @@ const addHistoryEntry = (item: Episode | Act, actionType: SceneHistoryEntry['act
     return [newEntry, ...currentHistory].slice(0, 30);
 };
 
+// Projects saved by older builds are upgraded in place when opened
+const upgradeStoredProject = (project: Project): Project => {
+    if (project.schemaVersion === CURRENT_SCHEMA_VERSION) return project;
+    try {
+        const { data, report } = validateAndUpgrade<Project>(project, 'project');
+        if (!isReportClean(report)) console.log(`[Schema] Upgraded "${data.metadata.name}" from v${report.fromVersion}`, report);
+        return data;
+    } catch (e) {
+        console.error("[Schema] Could not upgrade stored project", e);
+        return project;
+    }
+};
+
 const getStoredKey = (provider: string) => localStorage.getItem(`apikey_${provider}`) || '';
 
+interface PendingMerge {
+  plan: MergePlan;
+  incoming: Bible | Script | Studio;
+  report: ImportReport;
+}
+
 interface ShowrunnerState {
   project: Project | null;
   isLoaded: boolean;
-  generationModel: GeminiModel;
+  projectLibrary: ProjectSummary[];
+  checkpoints: ProjectCheckpoint[];
+  importReport: ImportReport | null; // Shown after an import that needed repairs
+  recoveredChanges: number; // Project sections restored from the journal when the project was opened
+  tabConflict: TabConflict | null; // Concurrent edits from another tab, shown as a banner
+  pendingMerge: PendingMerge | null; // Module import waiting for the user to pick merge or replace
   lastMovedSceneId: string | null; // For UI highlighting
   
   // Model Gateway State
   availableModels: AIModelConfig[];
   customModels: AIModelConfig[];
   apiKeys: Record<string, string>;
+  offlineMode: boolean; // Every generation answered by the local mock provider
 
   // Lifecycle
   setProject: (project: Project) => void;
@@ -78,13 +158,40 @@ interface ShowrunnerState {
   updateProjectName: (name: string) => void;
   closeProject: () => void;
   loadAutosave: () => void;
-  importProject: () => void;
+  importProject: (fromFolder?: boolean) => void; // fromFolder: pick an unzipped project folder
+
+  // Project Library
+  refreshProjectLibrary: () => Promise<void>;
+  openProject: (id: string) => Promise<void>;
+  duplicateProject: (id: string) => Promise<void>;
+  renameProject: (id: string, name: string) => Promise<void>;
+  deleteProject: (id: string) => Promise<void>;
+
+  // Checkpoints
+  loadCheckpoints: () => Promise<void>;
+  createCheckpoint: (name: string) => Promise<void>;
+  restoreCheckpoint: (id: string, scope: CheckpointRestoreScope) => Promise<void>;
+  deleteCheckpoint: (id: string) => Promise<void>;
+
+  // Broken image references
+  scanBrokenImageRefs: () => Promise<number>; // Returns how many references were quarantined
+  relinkQuarantinedImages: () => Promise<void>;
+  discardQuarantinedRefs: (ids?: string[]) => void; // Omit ids to discard all
+  addAudioTake: (take: AudioTake) => void;
+  removeAudioTake: (id: string) => void; // The audio blob is left for garbage collection
+
   importBible: () => void;
   importScript: () => void;
   importStudio: () => void; 
   importArtDept: () => void;
+  importEpisodePackage: (installmentId: string) => Promise<void>;
+  showImportReport: (report: ImportReport | null) => void;
+  dismissRecoveryNotice: () => void;
+  dismissTabConflict: () => void;
+  stageModuleImport: (module: MergeModule, imported: ValidatedImport<Bible | Script | Studio>) => void;
+  resolvePendingMerge: (mode: 'merge' | 'replace', choices?: Record<string, MergeChoice>) => void;
+  cancelPendingMerge: () => void;
 
-  setGenerationModel: (model: GeminiModel) => void;
   updateSynopsis: (synopsis: string) => void;
   setGeneratedStructure: (items: (Episode | Act)[]) => void;
   populateCharacterProfile: (id: string, profile: CharacterProfile) => void;
@@ -130,14 +237,23 @@ interface ShowrunnerState {
   // Model Gateway Actions
   fetchModels: () => Promise<void>;
   updateApiKey: (provider: string, key: string) => void;
+  setOfflineMode: (enabled: boolean) => void;
   addCustomModel: (model: AIModelConfig) => void;
   removeCustomModel: (id: string) => void;
+  listModels: (family: AIModelConfig['family']) => AIModelConfig[];
+  getTaskModels: (task: RoutedTask) => AIModelConfig[]; // The project's route for the task, primary model first
+  setModelRoute: (task: RoutedTask, route: ModelRoute | null) => void; // null restores the default
 }
 
 export const useShowrunnerStore = create<ShowrunnerState>((set, get) => ({
   project: null,
   isLoaded: false,
-  generationModel: 'gemini-2.5-flash',
+  projectLibrary: [],
+  checkpoints: [],
+  importReport: null,
+  recoveredChanges: 0,
+  tabConflict: null,
+  pendingMerge: null,
   lastMovedSceneId: null,
   availableModels: [],
   customModels: JSON.parse(localStorage.getItem('custom_models') || '[]'),
@@ -147,6 +263,7 @@ export const useShowrunnerStore = create<ShowrunnerState>((set, get) => ({
       'wavespeed': getStoredKey('wavespeed'),
       'openai_compatible': getStoredKey('openai_compatible')
   },
+  offlineMode: isOfflineMode(),
 
   setProject: (project) => {
     set({ project, isLoaded: true });
@@ -158,12 +275,15 @@ export const useShowrunnerStore = create<ShowrunnerState>((set, get) => ({
     const isEpisodic = format.type === 'EPISODIC';
     
     const newProject: Project = {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      dataVersion: LATEST_DATA_VERSION,
       metadata: {
         id: uuidv4(),
         name,
         author: 'User',
         createdAt: Date.now(),
         updatedAt: Date.now(),
+        lastOpenedAt: Date.now(),
       },
       logline,
       format,
@@ -185,7 +305,13 @@ export const useShowrunnerStore = create<ShowrunnerState>((set, get) => ({
         shotsByScene: {},
       },
     };
+    debouncedSave.flush();
     get().setProject(newProject);
+    // Write immediately so the new project shows up in the library
+    saveProjectToDB(newProject).then(async () => {
+        await get().refreshProjectLibrary();
+        broadcastToTabs({ type: 'library-changed' });
+    });
   },
 
   updateProject: (updates) => {
@@ -207,66 +333,340 @@ export const useShowrunnerStore = create<ShowrunnerState>((set, get) => ({
   },
 
   closeProject: () => {
+    // Persist pending edits before the project leaves memory
+    debouncedSave.flush();
     set({ project: null });
+    get().refreshProjectLibrary();
   },
 
   loadAutosave: async () => {
     // 1. Fetch Remote Models
     await get().fetchModels();
 
-    // 2. Load Project
-    let project = await loadProjectFromDB();
-    if (project) {
-        project = await migrateProjectImages(project);
-        set({ project, isLoaded: true });
+    // 2. Move the legacy single-slot autosave into the library
+    await migrateLegacyAutosave();
+    const library = await listProjectsInDB();
+    set({ projectLibrary: library });
+
+    // 3. Reopen the most recently opened project
+    const stored = library.length > 0 ? await loadProjectWithJournal(library[0].id) : null;
+    if (stored) {
+        const project = await migrateProject(upgradeStoredProject(stored.project));
+        set({ project, isLoaded: true, recoveredChanges: stored.recovered });
         saveProjectToDB(project);
     } else {
         set({ isLoaded: true });
     }
   },
 
-  importProject: async () => {
-      const project = await selectAndLoadProjectFile();
-      if (project) {
-          const migrated = await migrateProjectImages(project);
-          set({ project: migrated, isLoaded: true });
-          debouncedSave(migrated);
+  importProject: async (fromFolder) => {
+      const imported = fromFolder ? await selectAndLoadProjectDirectory() : await selectAndLoadProjectFile();
+      if (!imported) return;
+
+      // The validator guarantees metadata.id is present
+      let project = imported.data;
+
+      // Never silently overwrite a library entry with the same id
+      const existing = get().projectLibrary.find(p => p.id === project.metadata.id);
+      if (existing && !confirm(`"${existing.name}" already exists in your library.\n\nOK: Replace it with the imported file.\nCancel: Import as a separate copy.`)) {
+          project = { ...project, metadata: { ...project.metadata, id: uuidv4(), name: `${project.metadata.name} (Imported)`, createdAt: Date.now() } };
       }
+
+      debouncedSave.flush();
+      const alreadyQuarantined = project.quarantine?.length || 0;
+      const migrated = await migrateProject(project);
+      // A project already at the latest data version skips the migrations, but images
+      // that failed to import still need quarantining
+      quarantineBrokenReferences(migrated, await listImageIdsInDB());
+      const quarantined = (migrated.quarantine || []).slice(alreadyQuarantined).map(ref => `${ref.label}: ${ref.imageId}`);
+      get().showImportReport({ ...imported.report, quarantined });
+
+      const opened = { ...migrated, metadata: { ...migrated.metadata, lastOpenedAt: Date.now() } };
+      set({ project: opened, isLoaded: true });
+      await saveProjectToDB(opened);
+      await get().refreshProjectLibrary();
+      broadcastToTabs({ type: 'library-changed' });
   },
 
-  importBible: async () => {
-      const bible = await selectAndLoadBible();
-      if (bible) {
-          const { project, updateProject } = get();
-          if (project) updateProject({ bible });
+  refreshProjectLibrary: async () => {
+      const library = await listProjectsInDB();
+      set({ projectLibrary: library });
+  },
+
+  openProject: async (id) => {
+      // Flush edits of the current project before switching
+      debouncedSave.flush();
+      const stored = await loadProjectWithJournal(id);
+      if (!stored) {
+          alert("Project not found in library.");
+          await get().refreshProjectLibrary();
+          return;
       }
+      const migrated = await migrateProject(upgradeStoredProject(stored.project));
+      const project = { ...migrated, metadata: { ...migrated.metadata, lastOpenedAt: Date.now() } };
+      set({ project, isLoaded: true, recoveredChanges: stored.recovered });
+      await saveProjectToDB(project);
+      await get().refreshProjectLibrary();
   },
 
-  importScript: async () => {
-      const script = await selectAndLoadScript();
-      if (script) {
-          const { project, updateProject } = get();
-          if (project) updateProject({ script });
+  duplicateProject: async (id) => {
+      debouncedSave.flush();
+      const source = get().project?.metadata.id === id ? get().project : await loadProjectFromDB(id);
+      if (!source) return;
+
+      // Images are shared by id, so a deep copy of the JSON is enough
+      const copy: Project = JSON.parse(JSON.stringify(source));
+      copy.metadata = {
+          ...copy.metadata,
+          id: uuidv4(),
+          name: `${source.metadata.name} (Copy)`,
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+          lastOpenedAt: undefined,
+      };
+      await saveProjectToDB(copy);
+      await get().refreshProjectLibrary();
+      broadcastToTabs({ type: 'library-changed' });
+  },
+
+  renameProject: async (id, name) => {
+      if (get().project?.metadata.id === id) {
+          get().updateProjectName(name);
+          debouncedSave.flush();
+      } else {
+          const stored = await loadProjectFromDB(id);
+          if (!stored) return;
+          await saveProjectToDB({ ...stored, metadata: { ...stored.metadata, name, updatedAt: Date.now() } });
       }
+      await get().refreshProjectLibrary();
+      broadcastToTabs({ type: 'library-changed' });
   },
 
-  importStudio: async () => {
-      const studio = await selectAndLoadStudio();
-      if (studio) {
-          const { project, updateProject } = get();
-          if (project) updateProject({ studio });
+  deleteProject: async (id) => {
+      if (get().project?.metadata.id === id) {
+          cancelPendingWrites();
+          set({ project: null });
+      }
+      await deleteProjectFromDB(id);
+      await deleteCheckpointsForProject(id);
+      await journalWrites;
+      await clearJournalForProject(id);
+      await deleteUsageForProject(id);
+      await get().refreshProjectLibrary();
+      broadcastToTabs({ type: 'project-deleted', projectId: id });
+  },
+
+  loadCheckpoints: async () => {
+      const { project } = get();
+      if (!project) {
+          set({ checkpoints: [] });
+          return;
+      }
+      const checkpoints = await listCheckpointsFromDB(project.metadata.id);
+      set({ checkpoints });
+  },
+
+  createCheckpoint: async (name) => {
+      const { project } = get();
+      if (!project) return;
+      const checkpoint: ProjectCheckpoint = {
+          id: uuidv4(),
+          projectId: project.metadata.id,
+          name: name.trim() || `Checkpoint ${new Date().toLocaleString()}`,
+          createdAt: Date.now(),
+          project: JSON.parse(JSON.stringify(project)), // Deep copy
+      };
+      await saveCheckpointToDB(checkpoint);
+      await get().loadCheckpoints();
+  },
+
+  restoreCheckpoint: async (id, scope) => {
+      const { project, checkpoints } = get();
+      const checkpoint = checkpoints.find(c => c.id === id);
+      if (!project || !checkpoint) return;
+
+      // Safety net: snapshot the current state so the restore itself can be undone
+      await get().createCheckpoint(`Before restoring "${checkpoint.name}" (${scope})`);
+
+      // Older checkpoints may predate migrations the live project has already had
+      const snapshot = await migrateProject(upgradeStoredProject(JSON.parse(JSON.stringify(checkpoint.project))));
+      if (scope === 'all') {
+          // updateProject keeps the current metadata, so the library identity is preserved
+          get().updateProject(snapshot);
+      } else {
+          get().updateProject({ [scope]: snapshot[scope] });
       }
   },
 
+  deleteCheckpoint: async (id) => {
+      await deleteCheckpointFromDB(id);
+      await get().loadCheckpoints();
+  },
+
+  scanBrokenImageRefs: async () => {
+      const project = get().project;
+      if (!project) return 0;
+      const draft: Project = JSON.parse(JSON.stringify(project));
+      const moved = quarantineBrokenReferences(draft, await listImageIdsInDB());
+      if (moved.length > 0) get().updateProject({ bible: draft.bible, studio: draft.studio, quarantine: draft.quarantine });
+      return moved.length;
+  },
+
+  relinkQuarantinedImages: async () => {
+      const project = get().project;
+      if (!project?.quarantine?.length) return;
+
+      const wanted = [...new Set(project.quarantine.map(ref => ref.imageId))];
+      const found = await restoreImagesFromArchive(wanted);
+      if (!found) return;
+
+      // Re-read the project: it may have changed while the file picker was open
+      const current = get().project;
+      if (!current) return;
+      const draft: Project = JSON.parse(JSON.stringify(current));
+      const restored = restoreQuarantinedReferences(draft, await listImageIdsInDB());
+      if (restored > 0) get().updateProject({ bible: draft.bible, studio: draft.studio, quarantine: draft.quarantine });
+
+      const remaining = draft.quarantine?.length || 0;
+      alert(`Found ${found.length} of ${wanted.length} missing images in the archive. Restored ${restored} references.${remaining ? ` ${remaining} remain quarantined.` : ''}`);
+  },
+
+  discardQuarantinedRefs: (ids) => {
+      const project = get().project;
+      if (!project?.quarantine) return;
+      const quarantine = ids ? project.quarantine.filter(ref => !ids.includes(ref.id)) : [];
+      get().updateProject({ quarantine });
+  },
+
+  addAudioTake: (take) => {
+      const project = get().project;
+      if (!project) return;
+      get().updateProject({ audioTakes: [take, ...(project.audioTakes || [])] });
+  },
+
+  removeAudioTake: (id) => {
+      const project = get().project;
+      if (!project?.audioTakes) return;
+      get().updateProject({ audioTakes: project.audioTakes.filter(take => take.id !== id) });
+  },
+
+  importBible: async () => {
+      const imported = await selectAndLoadBible();
+      if (imported) get().stageModuleImport('bible', imported);
+  },
+
+  importScript: async () => {
+      const imported = await selectAndLoadScript(get().project?.format.type === 'EPISODIC');
+      if (imported) get().stageModuleImport('script', imported);
+  },
+
+  importStudio: async () => {
+      const imported = await selectAndLoadStudio();
+      if (imported) get().stageModuleImport('studio', imported);
+  },
+
   importArtDept: async () => {
-      const bible = await selectAndLoadArtDept();
-      if (bible) {
-           const { project, updateProject } = get();
-           if (project) updateProject({ bible });
+      const imported = await selectAndLoadArtDept();
+      if (imported) get().stageModuleImport('bible', imported);
+  },
+
+  importEpisodePackage: async (installmentId) => {
+      const imported = await selectAndLoadEpisodePackage();
+      const { project, showImportReport } = get();
+      if (!imported || !project) return;
+
+      const pkg = imported.data;
+      const isEpisodic = project.format.type === 'EPISODIC';
+      if ((pkg.kind === 'episode') !== isEpisodic) {
+          alert(`This package contains ${pkg.kind === 'episode' ? 'an episode' : 'an act'}, which doesn't fit this project's format.`);
+          return;
       }
+
+      set(state => {
+          if (!state.project) return {};
+          const script = state.project.script;
+          const season = script.seasons?.find(s => s.id === installmentId);
+          const sequel = script.sequels?.find(s => s.id === installmentId);
+          if (!season && !sequel) return {};
+
+          // Append after the last existing episode/act
+          const itemNumber = (season ? season.episodes.length : sequel!.acts.length) + 1;
+          const unpacked = unpackEpisodePackage(pkg, state.project, itemNumber);
+          console.log(`[Import] Episode package from "${pkg.sourceProjectName}": ${unpacked.addedAssets} assets added, ${unpacked.matchedAssets} matched by name.`);
+
+          const updatedProject = {
+              ...state.project,
+              bible: unpacked.bible,
+              script: {
+                  ...script,
+                  seasons: season ? script.seasons!.map(s => s.id === installmentId ? { ...s, episodes: [...s.episodes, unpacked.item as Episode] } : s) : script.seasons,
+                  sequels: sequel ? script.sequels!.map(s => s.id === installmentId ? { ...s, acts: [...s.acts, unpacked.item as Act] } : s) : script.sequels,
+              },
+              studio: { ...state.project.studio, shotsByScene: { ...state.project.studio.shotsByScene, ...unpacked.shotsByScene } },
+          };
+          debouncedSave(updatedProject);
+          return { project: updatedProject };
+      });
+      showImportReport(imported.report);
   },
 
-  setGenerationModel: (model) => set({ generationModel: model }),
+  stageModuleImport: (module, imported) => {
+      const { project, updateProject, showImportReport } = get();
+      if (!project) return;
+
+      let plan: MergePlan;
+      let isSectionEmpty: boolean;
+      if (module === 'bible') {
+          const bible = project.bible;
+          plan = planBibleMerge(bible, imported.data as Bible);
+          isSectionEmpty = bible.characters.length + bible.locations.length + bible.props.length === 0;
+      } else if (module === 'script') {
+          plan = planScriptMerge(project.script, imported.data as Script);
+          isSectionEmpty = collectScenes(project).size === 0;
+      } else {
+          const scenes = collectScenes(project);
+          plan = planStudioMerge(project.studio, imported.data as Studio, sceneId => scenes.get(sceneId)?.label || `Unlinked scene ${sceneId.slice(0, 8)}`);
+          isSectionEmpty = Object.values(project.studio.shotsByScene).every(shots => shots.length === 0);
+      }
+
+      // Nothing to merge into, so there is nothing to decide
+      if (isSectionEmpty) {
+          updateProject({ [module]: imported.data });
+          showImportReport(imported.report);
+          return;
+      }
+
+      set({ pendingMerge: { plan, incoming: imported.data, report: imported.report } });
+  },
+
+  resolvePendingMerge: (mode, choices = {}) => {
+      const { project, pendingMerge, updateProject, showImportReport } = get();
+      if (!project || !pendingMerge) return;
+      const { plan, incoming, report } = pendingMerge;
+
+      if (mode === 'replace') {
+          updateProject({ [plan.module]: incoming });
+      } else if (plan.module === 'bible') {
+          updateProject({ bible: applyBibleMerge(project.bible, plan, choices, incoming as Bible) });
+      } else if (plan.module === 'script') {
+          updateProject({ script: applyScriptMerge(project.script, plan, choices, incoming as Script) });
+      } else {
+          updateProject({ studio: applyStudioMerge(project.studio, plan, choices) });
+      }
+
+      set({ pendingMerge: null });
+      showImportReport(report);
+  },
+
+  cancelPendingMerge: () => set({ pendingMerge: null }),
+
+  dismissRecoveryNotice: () => set({ recoveredChanges: 0 }),
+  dismissTabConflict: () => set({ tabConflict: null }),
+
+  showImportReport: (report) => {
+      // Clean imports don't need a report
+      set({ importReport: report && !isReportClean(report) ? report : null });
+  },
 
   updateSynopsis: (synopsis) => {
     set((state) => {
@@ -1244,7 +1644,7 @@ export const useShowrunnerStore = create<ShowrunnerState>((set, get) => ({
 
       if (!targetScene) throw new Error("Scene not found.");
 
-      const shotList = await geminiService.generateShotListForScene(targetScene, state.project, state.generationModel);
+      const shotList = await geminiService.generateShotListForScene(targetScene, state.project, state.getTaskModels('shot_list'));
       
       const newShots: Shot[] = shotList.map((s, index) => {
           const refs: ShotReferenceImage[] = [];
@@ -1326,6 +1726,13 @@ export const useShowrunnerStore = create<ShowrunnerState>((set, get) => ({
       }));
   },
 
+  setOfflineMode: (enabled) => {
+      saveOfflineMode(enabled);
+      set({ offlineMode: enabled });
+      // Going online again picks up the remote model list
+      get().fetchModels();
+  },
+
   addCustomModel: (model) => {
       set(state => {
           const newCustomModels = [...state.customModels.filter(m => m.id !== model.id), model];
@@ -1363,6 +1770,201 @@ export const useShowrunnerStore = create<ShowrunnerState>((set, get) => ({
       });
       // Trigger full fetch to be safe and restore overridden defaults
       get().fetchModels();
+  },
+
+  // Custom models are included directly: availableModels stays empty until the first fetch
+  listModels: (family) => {
+      const { availableModels, customModels } = get();
+      return modelGateway.listModels([...availableModels, ...customModels], family);
+  },
+
+  getTaskModels: (task) => {
+      const { project, listModels } = get();
+      return resolveRoute(listModels(ROUTED_TASKS[task].family), project?.routing, task);
+  },
+
+  setModelRoute: (task, route) => {
+      const { project, updateProject } = get();
+      if (!project) return;
+      const routing = { ...project.routing };
+      if (route) routing[task] = route;
+      else delete routing[task];
+      updateProject({ routing });
   }
 
 }));
+
+// --- MULTI-TAB SYNC ---
+// Edits are mirrored into other tabs that have the same project open, batched every
+// BROADCAST_INTERVAL ms. Only the tab that made an edit saves it, so tabs never race
+// each other with stale snapshots. Sections travel whole, so each one carries an edit
+// counter: an edit made here that the sender hadn't seen yet is a concurrent edit.
+// Both tabs then keep the version with the higher revision (ties go to the higher
+// tab id), so they agree without comparing clocks, and a banner says what was dropped.
+const BROADCAST_INTERVAL = 300;
+const TAB_ID = uuidv4();
+
+interface SectionRevision {
+    revision: number;
+    tabId: string; // The tab whose edit produced this revision
+}
+
+// The open project's section revisions as this tab knows them
+const sectionRevisions = new Map<string, SectionRevision>();
+let pendingBroadcast: { projectId: string; sections: Record<string, unknown>; baseRevisions: Record<string, number> } | null = null;
+
+const revisionsOf = (keys: string[]): Record<string, number> =>
+    Object.fromEntries(keys.map(key => [key, sectionRevisions.get(key)?.revision || 0]));
+
+const sendPendingBroadcast = throttle(() => {
+    const pending = pendingBroadcast;
+    pendingBroadcast = null;
+    const keys = Object.keys(pending?.sections || {});
+    if (!pending || keys.length === 0) return;
+    broadcastToTabs({
+        type: 'project-changed',
+        projectId: pending.projectId,
+        tabId: TAB_ID,
+        sections: pending.sections as Partial<Project>,
+        baseRevisions: pending.baseRevisions,
+        revisions: revisionsOf(keys),
+    });
+}, BROADCAST_INTERVAL, { leading: false });
+
+const queueBroadcast = (projectId: string, sections: Record<string, unknown>) => {
+    if (!pendingBroadcast) pendingBroadcast = { projectId, sections: {}, baseRevisions: {} };
+    const pending = pendingBroadcast;
+    Object.entries(sections).forEach(([key, value]) => {
+        const revision = sectionRevisions.get(key)?.revision || 0;
+        if (!(key in pending.baseRevisions)) pending.baseRevisions[key] = revision;
+        sectionRevisions.set(key, { revision: revision + 1, tabId: TAB_ID });
+        pending.sections[key] = value;
+    });
+    sendPendingBroadcast();
+};
+
+const isNewerRevision = (a: SectionRevision, b: SectionRevision) =>
+    a.revision > b.revision || (a.revision === b.revision && a.tabId > b.tabId);
+
+// Applies sections from another tab without journaling or re-broadcasting them
+const applyRemoteSections = (project: Project, sections: Record<string, unknown>) => {
+    const merged = { ...project, ...sections } as Project;
+    applyingRemoteChange = true;
+    try {
+        useShowrunnerStore.setState({ project: merged });
+    } finally {
+        applyingRemoteChange = false;
+    }
+    // A save still pending here holds this tab's older copy of those sections
+    if (pendingJournal) debouncedSave(merged);
+};
+
+// Only the top-level sections that changed are journaled and broadcast (unchanged ones keep their reference)
+useShowrunnerStore.subscribe((state, prevState) => {
+    const { project } = state;
+    const previous = prevState.project;
+    // Opening, closing or switching projects isn't an edit
+    if (project?.metadata.id !== previous?.metadata.id) {
+        sendPendingBroadcast.flush();
+        sectionRevisions.clear();
+        if (state.tabConflict) useShowrunnerStore.setState({ tabConflict: null });
+        // Tabs that already have it open reply with their unsaved sections and revisions
+        if (project) broadcastToTabs({ type: 'project-opened', projectId: project.metadata.id });
+        return;
+    }
+    if (!project || !previous || project === previous) return;
+    // The originating tab already journaled this edit
+    if (applyingRemoteChange) return;
+
+    const sections: Record<string, unknown> = {};
+    (Object.keys(project) as (keyof Project)[]).forEach(key => {
+        if (project[key] !== previous[key]) sections[key] = project[key];
+    });
+    journalChange(project.metadata.id, sections as Partial<Project>);
+    queueBroadcast(project.metadata.id, sections);
+});
+
+onTabMessage((message) => {
+    const { project } = useShowrunnerStore.getState();
+
+    switch (message.type) {
+        case 'project-changed': {
+            if (!project || project.metadata.id !== message.projectId) return;
+            const incoming: Record<string, unknown> = {};
+            const kept: string[] = [];
+            const replaced: string[] = [];
+            Object.entries(message.sections).forEach(([key, value]) => {
+                const local = sectionRevisions.get(key);
+                const theirs: SectionRevision = { revision: message.revisions[key], tabId: message.tabId };
+                const concurrent = local?.tabId === TAB_ID && local.revision !== message.baseRevisions[key];
+                if (concurrent && !isNewerRevision(theirs, local)) {
+                    kept.push(key);
+                    return;
+                }
+                if (concurrent) replaced.push(key);
+                incoming[key] = value;
+                sectionRevisions.set(key, theirs);
+                if (pendingBroadcast) {
+                    delete pendingBroadcast.sections[key];
+                    delete pendingBroadcast.baseRevisions[key];
+                }
+            });
+            if (Object.keys(incoming).length > 0) applyRemoteSections(project, incoming);
+
+            if (kept.length > 0) {
+                // Send the winning version back, based on the sender's revision, so the sender adopts it
+                broadcastToTabs({
+                    type: 'project-changed',
+                    projectId: project.metadata.id,
+                    tabId: TAB_ID,
+                    sections: pick(project, kept),
+                    baseRevisions: Object.fromEntries(kept.map(key => [key, message.revisions[key]])),
+                    revisions: revisionsOf(kept),
+                });
+            }
+
+            // metadata changes with every edit; it isn't worth a banner
+            const conflict = { replaced: replaced.filter(key => key !== 'metadata'), kept: kept.filter(key => key !== 'metadata') };
+            if (conflict.replaced.length > 0 || conflict.kept.length > 0) {
+                console.warn("[TabSync] Concurrent edits from another tab", conflict);
+                const shown = useShowrunnerStore.getState().tabConflict;
+                useShowrunnerStore.setState({ tabConflict: {
+                    replaced: union(shown?.replaced, conflict.replaced),
+                    kept: union(shown?.kept, conflict.kept),
+                } });
+            }
+            break;
+        }
+        case 'project-opened': {
+            if (!project || project.metadata.id !== message.projectId || sectionRevisions.size === 0) return;
+            sendPendingBroadcast.flush();
+            const keys = [...sectionRevisions.keys()];
+            broadcastToTabs({ type: 'project-sync', projectId: project.metadata.id, tabId: TAB_ID, sections: pick(project, keys), revisions: revisionsOf(keys) });
+            break;
+        }
+        case 'project-sync': {
+            // Only fills in sections this tab has no revision for, i.e. it just opened the project
+            if (!project || project.metadata.id !== message.projectId) return;
+            const incoming: Record<string, unknown> = {};
+            Object.entries(message.sections).forEach(([key, value]) => {
+                if (sectionRevisions.has(key)) return;
+                incoming[key] = value;
+                sectionRevisions.set(key, { revision: message.revisions[key], tabId: message.tabId });
+            });
+            if (Object.keys(incoming).length > 0) applyRemoteSections(project, incoming);
+            break;
+        }
+        case 'project-deleted': {
+            if (project?.metadata.id === message.projectId) {
+                cancelPendingWrites();
+                useShowrunnerStore.setState({ project: null });
+                alert(`"${project.metadata.name}" was deleted in another tab.`);
+            }
+            useShowrunnerStore.getState().refreshProjectLibrary();
+            break;
+        }
+        case 'library-changed':
+            useShowrunnerStore.getState().refreshProjectLibrary();
+            break;
+    }
+});
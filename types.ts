@@ -3,8 +3,6 @@ import { v4 as uuidv4 } from 'uuid';
 
 export type Page = 'Dashboard' | 'Story Bible' | 'Scriptwriter' | 'Art Dept' | 'The Studio' | 'Sound Stage' | 'Merch & Print' | 'Marketing' | 'Settings';
 
-export type GeminiModel = 'gemini-3-pro-preview' | 'gemini-2.5-flash';
-
 export type ProjectFormatType = 'EPISODIC' | 'SINGLE_STORY' | 'NARRATED_VIDEO' | 'MUSIC_VIDEO' | 'PRODUCT_VIDEO' | 'STAGE_PLAY';
 
 // --- MODEL GATEWAY TYPES ---
@@ -16,7 +14,15 @@ export interface APIEndpointDefinition {
   method: 'POST' | 'GET';
   headers?: Record<string, string>;
   paramMapping?: Record<string, any>;
-  outputMapping?: Record<string, string>;
+  outputMapping?: Record<string, string>; // For streamed text, 'stream' is the delta path inside each SSE event
+}
+
+// How the request scheduler treats a model. Unset fields fall back to provider defaults.
+export interface RequestPolicy {
+  maxConcurrent?: number; // Parallel requests to the model's provider
+  maxRetries?: number; // For rate limits, server errors and network drops
+  pollIntervalMs?: number; // For models with a status endpoint
+  pollTimeoutMs?: number;
 }
 
 export interface AIModelConfig {
@@ -25,13 +31,102 @@ export interface AIModelConfig {
   provider: ProviderType;
   family: 'text' | 'image' | 'video' | 'audio';
   contextWindow: number;
-  costPerGen?: number;
+  costPerGen?: number; // Flat USD per request (e.g. per image)
+  costPerMillionInputTokens?: number; // USD
+  costPerMillionOutputTokens?: number; // USD
   endpoints?: {
     generate: APIEndpointDefinition;
     status?: APIEndpointDefinition;
   };
+  requestPolicy?: RequestPolicy;
+  audioTasks?: AudioTask[]; // Audio models only; unset means the model is offered for every task
   isDefault?: boolean;
 }
+
+// --- AUDIO ---
+export type AudioTask = 'tts' | 'voice_design' | 'music' | 'sfx';
+
+// Mapped into a generic provider's payload as {{text}}, {{voice}}, {{duration}} and {{task}}
+export interface AudioRequest {
+  task: AudioTask;
+  text: string; // Line to speak, voice description, or music/effect prompt
+  voice?: string; // Provider voice id; for Google Cloud TTS a voice name or "en-GB:FEMALE"
+  duration?: number; // Seconds, for music and effects
+}
+
+// A generated clip kept with the project. The audio blob lives in the image store under `audioId`.
+export interface AudioTake {
+  id: string;
+  audioId: string;
+  task: AudioTask;
+  text: string;
+  voice?: string;
+  characterId?: string; // Set for character voice takes
+  modelId: string;
+  createdAt: number;
+}
+
+export interface GenerationOptions {
+  onText?: (textSoFar: string) => void; // Receives the accumulated text after each chunk; setting it enables streaming
+  signal?: AbortSignal;
+  usage?: UsageContext; // Where to record the call in the cost ledger
+}
+
+export interface VisualOptions extends GenerationOptions {
+  referenceImages?: ShotReferenceImage[]; // Only active references are sent
+  resolution?: string; // '1K' | '2K' | '4K'
+  negativePrompt?: string;
+  seed?: number;
+}
+
+// --- MODEL ROUTING ---
+export type RoutedTask =
+  | 'synopsis' | 'structure' | 'scene_breakdown' | 'screenplay' | 'asset_analysis'
+  | 'character_profile' | 'art_prompt' | 'shot_list' | 'image' | 'video' | 'speech';
+
+export interface ModelRoute {
+  modelId: string;
+  fallbacks?: string[]; // Model ids tried in order when the one before fails
+}
+
+// Tasks without a route use the default model for their family
+export type ModelRoutingProfile = Partial<Record<RoutedTask, ModelRoute>>;
+
+// One model, or a routed chain tried in order
+export type ModelChoice = AIModelConfig | AIModelConfig[];
+
+// --- COST LEDGER ---
+export type UsageDepartment = Extract<Page, 'Story Bible' | 'Scriptwriter' | 'Art Dept' | 'The Studio' | 'Sound Stage'>;
+
+export interface ProjectBudget {
+  limit: number; // USD
+  mode: 'warn' | 'block';
+}
+
+// Attribution for a generation call, built by the caller that knows the project
+export interface UsageContext {
+  projectId: string;
+  budget?: ProjectBudget;
+  task: string; // e.g. "Screenplay", "Shot Image"
+  department: UsageDepartment;
+  episodeId?: string; // Episode or act the work belongs to
+}
+
+export interface UsageRecord {
+  id: string;
+  projectId: string;
+  timestamp: number;
+  modelId: string;
+  modelName: string;
+  provider: ProviderType;
+  task: string;
+  department: UsageDepartment;
+  episodeId?: string;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  estimatedCost: number; // USD; 0 when the model has no pricing
+}
 // ---------------------------
 
 export type ConsistencyMode = 'STRICT' | 'FLEXIBLE' | 'GENERATIVE';
@@ -569,9 +664,27 @@ export interface ProjectMetadata {
     author: string;
     createdAt: number;
     updatedAt: number;
+    lastOpenedAt?: number;
+}
+
+// Lightweight listing entry for the project library (avoids loading full projects)
+export interface ProjectSummary {
+    id: string;
+    name: string;
+    logline: string;
+    formatType: ProjectFormatType;
+    createdAt: number;
+    updatedAt: number;
+    lastOpenedAt?: number;
 }
 
 export interface Project {
+    schemaVersion?: number;
+    dataVersion?: number; // Last migration applied (see migrationService)
+    quarantine?: QuarantinedImageRef[]; // Image links whose image is missing, kept for re-linking
+    budget?: ProjectBudget; // Optional generation spend cap
+    routing?: ModelRoutingProfile; // Model per task; see modelRoutingService
+    audioTakes?: AudioTake[]; // Sound Stage generations, newest first
     metadata: ProjectMetadata;
     logline: string;
     format: ProjectFormat;
@@ -583,6 +696,165 @@ export interface Project {
     supportingText?: string;
 }
 
+// --- BROKEN IMAGE QUARANTINE ---
+export type QuarantineOwnerType = 'character' | 'location' | 'prop' | 'shot';
+export type QuarantineField = 'generatedImageUrl' | 'referenceImageUrl' | 'imageHistory' | 'referenceImages';
+
+export interface QuarantinedImageRef {
+    id: string;
+    imageId: string;
+    ownerType: QuarantineOwnerType;
+    ownerId: string; // Asset id, or shot id for shots
+    sceneId?: string; // Shots only
+    field: QuarantineField;
+    index?: number; // Position in array fields
+    entry?: CharacterImage | ShotReferenceImage | string; // Original array item, re-inserted on restore
+    label: string; // e.g. 'Character "Bob" - history'
+    quarantinedAt: number;
+}
+
+// --- DATA MIGRATIONS ---
+export interface MigrationStepReport {
+    version: number;
+    description: string;
+    changes: string[];
+}
+
+export interface MigrationResult {
+    project: Project;
+    fromVersion: number;
+    toVersion: number;
+    steps: MigrationStepReport[];
+    dryRun: boolean;
+}
+
+// --- SCHEMA VALIDATION ---
+export type SchemaModule = 'project' | 'bible' | 'script' | 'studio' | 'episode';
+
+export interface ImportReport {
+    module: SchemaModule;
+    fromVersion: number;
+    toVersion: number;
+    fixed: string[];   // Missing or malformed values that were repaired
+    dropped: string[]; // Entries that could not be repaired and were removed
+    unknown: string[]; // Top-level fields this version doesn't recognise (kept as-is)
+    warnings: string[];
+    quarantined: string[]; // Image references whose image is missing, moved to project.quarantine
+}
+
+export interface ValidatedImport<T> {
+    data: T;
+    report: ImportReport;
+}
+
+// --- EPISODE / ACT PACKAGES ---
+// A single episode or act with everything needed to drop it into another project
+export interface EpisodePackage {
+    kind: 'episode' | 'act';
+    sourceProjectName: string;
+    item: Episode | Act;
+    shotsByScene: Record<string, Shot[]>;
+    assets: {
+        characters: Character[];
+        locations: Location[];
+        props: Prop[];
+    };
+}
+
+// --- MERGE IMPORT ---
+export type MergeModule = 'bible' | 'script' | 'studio';
+export type MergeSection = 'characters' | 'locations' | 'props' | 'episodes' | 'acts' | 'shots';
+export type MergeChoice = 'current' | 'incoming';
+
+export interface MergeItem {
+    key: string; // Stable key used for choices (section + incoming id)
+    section: MergeSection;
+    parentId?: string; // Incoming season/sequel id for episodes and acts
+    label: string;
+    status: 'new' | 'conflict';
+    matchedBy?: 'id' | 'name';
+    current?: any;
+    incoming: any;
+    changedFields: string[]; // Dotted paths that differ (conflicts only)
+}
+
+export interface MergePlan {
+    module: MergeModule;
+    items: MergeItem[];
+    identicalCount: number;
+}
+
+// --- CHECKPOINTS (Whole-project version history) ---
+export interface ProjectCheckpoint {
+    id: string;
+    projectId: string;
+    name: string;
+    createdAt: number;
+    project: Project; // Full snapshot
+}
+
+// --- AUTOSAVE JOURNAL (Write-ahead log between debounced saves) ---
+export interface JournalEntry {
+    seq?: number; // Assigned by IndexedDB
+    projectId: string;
+    timestamp: number;
+    sections: Partial<Project>; // Top-level project fields as they were after the change
+}
+
+// --- MULTI-TAB SYNC ---
+// Revisions count edits to each top-level section. baseRevisions are the ones the sender
+// had when it made the edits, revisions the ones the edits produced.
+export type TabSyncMessage =
+    | { type: 'project-changed'; projectId: string; tabId: string; sections: Partial<Project>; baseRevisions: Record<string, number>; revisions: Record<string, number> }
+    | { type: 'project-opened'; projectId: string }
+    | { type: 'project-sync'; projectId: string; tabId: string; sections: Partial<Project>; revisions: Record<string, number> } // Reply to project-opened
+    | { type: 'project-deleted'; projectId: string }
+    | { type: 'library-changed' };
+
+/** Sections two tabs edited at the same time, and which side's version was kept here. */
+export interface TabConflict {
+    replaced: string[]; // The other tab's version replaced this tab's
+    kept: string[];     // This tab's version won; the other tab's edits were dropped
+}
+
+// --- IMAGE GARBAGE COLLECTION ---
+export interface ImageGCReport {
+    totalImages: number;
+    totalBytes: number;
+    referencedCount: number;
+    orphanedIds: string[];
+    reclaimableBytes: number;
+    scannedProjects: number;
+    scannedCheckpoints: number;
+    scannedJournalEntries: number;
+}
+
+// --- STORAGE USAGE ---
+export type StorageCategory = 'characters' | 'locations' | 'props' | 'shots' | 'audio' | 'history';
+
+export interface StorageBreakdown {
+    byCategory: Record<StorageCategory, { count: number; bytes: number }>;
+    projectDataBytes: number; // Serialized project JSON
+    missingCount: number; // Referenced ids with no blob in the DB
+}
+
+export type CheckpointRestoreScope = 'all' | 'bible' | 'script' | 'studio';
+
+export interface DiffBucket {
+    added: string[];
+    removed: string[];
+    changed: string[];
+}
+
+export interface ProjectDiff {
+    synopsisChanged: boolean;
+    characters: DiffBucket;
+    locations: DiffBucket;
+    props: DiffBucket;
+    scenes: DiffBucket;
+    shots: DiffBucket;
+}
+
 export interface SceneAssetMapItem {
     sceneId: string;
     assets: SceneAssets;